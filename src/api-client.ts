@@ -30,11 +30,97 @@ import type {
   CompanyScreening,
   IndustryStats,
 } from "./api-types.js";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { RequestInfo } from "@modelcontextprotocol/sdk/types.js";
+import { createHash, randomUUID } from "node:crypto";
+import { ResponseCache, type CacheEntry } from "./response-cache.js";
+import { CircuitBreaker, type CircuitState } from "./circuit-breaker.js";
+import { metrics, recordApiErrorCode } from "./metrics.js";
+import { logger } from "./logger.js";
+import { envNumber } from "./env.js";
 
 // Configuration from environment
 const API_BASE_URL =
   process.env.BOLAGSAPI_URL ?? "https://api.bolagsapi.se/v1";
 const API_KEY = process.env.BOLAGSAPI_KEY ?? "";
+const TIMEOUT_MS = envNumber("BOLAGSAPI_TIMEOUT_MS", 10000, 1);
+const CACHE_MAX_MB = envNumber("BOLAGSAPI_CACHE_MAX_MB", 50);
+
+// Response cache TTLs per endpoint (first match wins)
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DEFAULT_CACHE_TTL = HOUR;
+const CACHE_TTLS: Array<{ pattern: RegExp; ttl: number }> = [
+  // Annual report data only changes when a new report is filed
+  { pattern: /\/(financials|analysis|reports)$/, ttl: 24 * HOUR },
+  { pattern: /^\/industry\//, ttl: 24 * HOUR },
+  // Sanctions and PEP lists change often; keep screenings short-lived
+  { pattern: /\/screening$/, ttl: 5 * MINUTE },
+  { pattern: /^\/search$/, ttl: 5 * MINUTE },
+];
+
+const responseCache = new ResponseCache(CACHE_MAX_MB * 1024 * 1024);
+
+/** An upstream request shared by all concurrent callers with the same cache key */
+interface InFlightRequest {
+  key: string;
+  promise: Promise<unknown>;
+  /** Aborts the upstream call once every waiting caller has cancelled */
+  controller: AbortController;
+  waiters: number;
+}
+
+const inFlight = new Map<string, InFlightRequest>();
+
+// Retry and circuit breaker configuration
+const MAX_RETRIES = Math.floor(envNumber("BOLAGSAPI_MAX_RETRIES", 3));
+const RETRY_BUDGET_MS = envNumber("BOLAGSAPI_RETRY_BUDGET_MS", 15000, 1);
+const RETRY_BASE_DELAY_MS = 500;
+const RETRY_MAX_DELAY_MS = 8000;
+const RETRYABLE_STATUSES = new Set([408, 429, 500, 502, 503, 504]);
+
+const circuitBreaker = new CircuitBreaker(5, 30 * 1000);
+
+/**
+ * Per-call context threaded from the MCP request into the client.
+ * In HTTP mode this carries the caller's own verified API key.
+ */
+export interface RequestContext {
+  /** API key to send upstream instead of BOLAGSAPI_KEY */
+  apiKey?: string;
+  /** Cancels the upstream call, e.g. when the MCP client cancels the request */
+  signal?: AbortSignal;
+  /** Correlation ID sent upstream as X-Request-ID */
+  requestId?: string;
+  /** Revalidate fresh cache entries upstream instead of serving them */
+  revalidate?: boolean;
+}
+
+/** Request ID assigned by the HTTP server, if any */
+export function requestIdFrom(requestInfo?: RequestInfo): string | undefined {
+  const header = requestInfo?.headers["x-request-id"];
+  return Array.isArray(header) ? header[0] : header;
+}
+
+/**
+ * Build a request context from the extra data the MCP SDK passes to handlers
+ */
+export function requestContext(extra: {
+  authInfo?: AuthInfo;
+  signal?: AbortSignal;
+  requestInfo?: RequestInfo;
+}): RequestContext {
+  return {
+    apiKey: extra.authInfo?.token,
+    signal: extra.signal,
+    requestId: requestIdFrom(extra.requestInfo) ?? randomUUID(),
+  };
+}
+
+/** State of the upstream circuit breaker, for health checks */
+export function upstreamCircuitState(): CircuitState {
+  return circuitBreaker.status;
+}
 
 interface ApiErrorResponse {
   error?: string;
@@ -52,38 +138,252 @@ export class ApiError extends Error {
   }
 }
 
-/**
- * Make an authenticated API request
- */
-async function apiRequest<T>(
+/** Build the full request URL with query params */
+function buildUrl(
   endpoint: string,
-  options: {
-    params?: Record<string, string | number | boolean | undefined>;
-    headers?: Record<string, string>;
-  } = {}
-): Promise<T> {
+  params?: Record<string, string | number | boolean | undefined>
+): string {
   const url = new URL(`${API_BASE_URL}${endpoint}`);
-
-  // Add query params
-  if (options.params) {
-    for (const [key, value] of Object.entries(options.params)) {
+  if (params) {
+    for (const [key, value] of Object.entries(params)) {
       if (value !== undefined) {
         url.searchParams.set(key, String(value));
       }
     }
   }
+  return url.toString();
+}
 
-  const headers: Record<string, string> = {
-    Authorization: `Bearer ${API_KEY}`,
-    "Content-Type": "application/json",
-    ...options.headers,
+/** Cache TTL for an endpoint (0 disables caching) */
+function cacheTtl(endpoint: string): number {
+  const rule = CACHE_TTLS.find((r) => r.pattern.test(endpoint));
+  return rule ? rule.ttl : DEFAULT_CACHE_TTL;
+}
+
+/**
+ * Cache key for a request. Includes a hash of the API key, since different
+ * customers (tiers) may see different data for the same URL.
+ */
+function cacheKey(url: string, headers: Record<string, string>): string {
+  const keyHash = createHash("sha256")
+    .update(headers.Authorization ?? "")
+    .digest("hex")
+    .slice(0, 16);
+  return `${keyHash} ${headers["Accept-Language"] ?? ""} ${url}`;
+}
+
+/** Endpoint path with identifiers replaced, for metric labels */
+function endpointLabel(url: string): string {
+  const path = url.slice(API_BASE_URL.length).split("?")[0];
+  return path
+    .replace(/^\/company\/[^/]+/, "/company/:orgnr")
+    .replace(/^\/industry\/[^/]+/, "/industry/:sni");
+}
+
+/** Jittered exponential backoff delay for a retry attempt (full jitter) */
+function backoffDelay(attempt: number): number {
+  const cap = Math.min(RETRY_MAX_DELAY_MS, RETRY_BASE_DELAY_MS * 2 ** attempt);
+  return Math.random() * cap;
+}
+
+/**
+ * Delay requested by upstream through Retry-After or rate limit reset
+ * headers, in milliseconds
+ */
+function upstreamDelay(response: Response): number | undefined {
+  const retryAfter = response.headers.get("Retry-After");
+  if (retryAfter) {
+    const seconds = Number(retryAfter);
+    if (!Number.isNaN(seconds)) return seconds * 1000;
+    const date = Date.parse(retryAfter);
+    if (!Number.isNaN(date)) return Math.max(0, date - Date.now());
+  }
+
+  const reset = Number(
+    response.headers.get("RateLimit-Reset") ?? response.headers.get("X-RateLimit-Reset") ?? NaN
+  );
+  if (Number.isNaN(reset)) return undefined;
+  // Large values are epoch seconds, small values are seconds until reset
+  return reset > 1e9 ? Math.max(0, reset * 1000 - Date.now()) : reset * 1000;
+}
+
+/** Wait for a delay, rejecting early if the signal aborts */
+function sleep(ms: number, signal: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      clearTimeout(timer);
+      reject(signal.reason);
+    };
+    const timer = setTimeout(() => {
+      signal.removeEventListener("abort", onAbort);
+      resolve();
+    }, ms);
+    signal.addEventListener("abort", onAbort, { once: true });
+  });
+}
+
+/** Upstream response with its body already read */
+interface UpstreamResponse {
+  response: Response;
+  body: string;
+}
+
+/**
+ * Make a single fetch attempt, including reading the body, within the
+ * configured timeout. A timeout becomes an "upstream_timeout" ApiError.
+ */
+async function fetchAttempt(
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal
+): Promise<UpstreamResponse> {
+  signal.throwIfAborted();
+  const controller = new AbortController();
+  let timedOut = false;
+  const timer = setTimeout(() => {
+    timedOut = true;
+    controller.abort();
+  }, TIMEOUT_MS);
+  const onAbort = (): void => {
+    controller.abort(signal.reason);
   };
+  signal.addEventListener("abort", onAbort, { once: true });
 
-  const response = await fetch(url.toString(), { headers });
-  const json = (await response.json()) as T & ApiErrorResponse;
+  const endpoint = endpointLabel(url);
+  const started = performance.now();
+  let status = "network_error";
+  try {
+    const response = await fetch(url, { ...init, signal: controller.signal });
+    const body = await response.text();
+    status = String(response.status);
+    return { response, body };
+  } catch (error) {
+    if (signal.aborted) status = "cancelled";
+    if (timedOut) {
+      status = "timeout";
+      throw new ApiError(
+        504,
+        "upstream_timeout",
+        `Upstream timeout: BolagsAPI did not respond within ${String(TIMEOUT_MS / 1000)}s`
+      );
+    }
+    throw error;
+  } finally {
+    clearTimeout(timer);
+    signal.removeEventListener("abort", onAbort);
+    const seconds = (performance.now() - started) / 1000;
+    metrics.upstreamDuration.observe({ endpoint, status }, seconds);
+    logger.debug("upstream request", {
+      endpoint,
+      status,
+      duration_ms: Math.round(seconds * 1000),
+      request_id: (init.headers as Record<string, string> | undefined)?.["X-Request-ID"],
+    });
+  }
+}
+
+/**
+ * Fetch with retries for transient failures (network errors, timeouts, 429
+ * and 5xx).
+ *
+ * Only used for idempotent GET requests. Gives up when the retry count or
+ * the total time budget is exhausted, and fails fast while the circuit
+ * breaker is open. Cancellation through the signal is never retried and
+ * does not count as an upstream failure.
+ */
+async function fetchWithRetry(
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal
+): Promise<UpstreamResponse> {
+  if (!circuitBreaker.allowRequest()) {
+    const seconds = Math.ceil(circuitBreaker.retryAfterMs / 1000);
+    throw new ApiError(
+      503,
+      "upstream_unavailable",
+      `BolagsAPI is temporarily unavailable after repeated upstream errors. Try again in ${String(seconds)}s.`
+    );
+  }
+
+  try {
+    return await retryUpstream(url, init, signal);
+  } catch (error) {
+    // A cancelled call says nothing about upstream; free the trial slot
+    if (signal.aborted) circuitBreaker.recordAbandoned();
+    throw error;
+  }
+}
+
+/** The retry loop of fetchWithRetry, recording outcomes in the circuit breaker */
+async function retryUpstream(
+  url: string,
+  init: RequestInit,
+  signal: AbortSignal
+): Promise<UpstreamResponse> {
+  const deadline = Date.now() + RETRY_BUDGET_MS;
+  for (let attempt = 0; ; attempt++) {
+    let upstream: UpstreamResponse;
+    try {
+      upstream = await fetchAttempt(url, init, signal);
+    } catch (error) {
+      if (signal.aborted) throw error;
+      const delay = backoffDelay(attempt);
+      if (attempt >= MAX_RETRIES || Date.now() + delay > deadline) {
+        circuitBreaker.recordFailure();
+        throw error;
+      }
+      await sleep(delay, signal);
+      continue;
+    }
+
+    const { response } = upstream;
+    if (!RETRYABLE_STATUSES.has(response.status)) {
+      circuitBreaker.recordSuccess();
+      return upstream;
+    }
+
+    const delay = upstreamDelay(response) ?? backoffDelay(attempt);
+    if (attempt >= MAX_RETRIES || Date.now() + delay > deadline) {
+      // Rate limiting means upstream is up; only server errors trip the breaker
+      if (response.status >= 500) circuitBreaker.recordFailure();
+      else circuitBreaker.recordSuccess();
+      return upstream;
+    }
+    await sleep(delay, signal);
+  }
+}
+
+/**
+ * Fetch a response, revalidating a stale cache entry with its ETag when
+ * available, and store successful responses in the cache
+ */
+async function fetchAndCache(
+  url: string,
+  headers: Record<string, string>,
+  key: string,
+  ttl: number,
+  stale: CacheEntry | undefined,
+  signal: AbortSignal
+): Promise<unknown> {
+  const requestHeaders = stale?.etag
+    ? { ...headers, "If-None-Match": stale.etag }
+    : headers;
+
+  const { response, body } = await fetchWithRetry(
+    url,
+    { headers: requestHeaders },
+    signal
+  );
+
+  if (response.status === 304 && stale) {
+    responseCache.set(key, { ...stale, expiresAt: Date.now() + ttl });
+    return stale.data;
+  }
 
   if (!response.ok) {
-    const errorJson = json as ApiErrorResponse;
+    // Gateways may answer 5xx/429 with a non-JSON body
+    let errorJson: ApiErrorResponse = {};
+    try { errorJson = JSON.parse(body) as ApiErrorResponse; } catch { /* keep defaults */ }
     throw new ApiError(
       response.status,
       errorJson.error ?? "unknown_error",
@@ -91,16 +391,116 @@ async function apiRequest<T>(
     );
   }
 
+  const json = JSON.parse(body) as unknown;
+
+  const noStore = response.headers.get("Cache-Control")?.includes("no-store");
+  if (ttl > 0 && !noStore) {
+    responseCache.set(key, {
+      data: json,
+      etag: response.headers.get("ETag") ?? undefined,
+      expiresAt: Date.now() + ttl,
+      size: body.length,
+    });
+  }
+
   return json;
 }
 
+/**
+ * Make an authenticated API request.
+ *
+ * Fresh responses are served from the cache unless the context asks to
+ * revalidate, and identical concurrent requests share a single upstream
+ * call. The context signal cancels the call; each attempt is also bounded
+ * by BOLAGSAPI_TIMEOUT_MS.
+ */
+async function apiRequest<T>(
+  endpoint: string,
+  options: {
+    params?: Record<string, string | number | boolean | undefined>;
+    headers?: Record<string, string>;
+    context?: RequestContext;
+  } = {}
+): Promise<T> {
+  options.context?.signal?.throwIfAborted();
+  const url = buildUrl(endpoint, options.params);
+
+  const headers: Record<string, string> = {
+    Authorization: `Bearer ${options.context?.apiKey ?? API_KEY}`,
+    "Content-Type": "application/json",
+    ...options.headers,
+  };
+  if (options.context?.requestId) headers["X-Request-ID"] = options.context.requestId;
+
+  const key = cacheKey(url, headers);
+  const cached = responseCache.get(key);
+  if (cached && cached.expiresAt > Date.now() && !options.context?.revalidate) {
+    return cached.data as T;
+  }
+
+  let shared = inFlight.get(key);
+  if (!shared) {
+    const controller = new AbortController();
+    const request: InFlightRequest = {
+      key,
+      controller,
+      waiters: 0,
+      promise: fetchAndCache(url, headers, key, cacheTtl(endpoint), cached, controller.signal),
+    };
+    const settle = (): void => {
+      if (inFlight.get(key) === request) inFlight.delete(key);
+    };
+    request.promise.then(settle, settle);
+    inFlight.set(key, request);
+    shared = request;
+  }
+
+  try {
+    return (await joinRequest(shared, options.context?.signal)) as T;
+  } catch (error) {
+    if (error instanceof ApiError) {
+      metrics.upstreamErrors.inc({ endpoint: endpointLabel(url), error_code: error.errorCode });
+      recordApiErrorCode(error.errorCode);
+    }
+    throw error;
+  }
+}
+
+/**
+ * Wait for a shared upstream request on behalf of one caller. The caller's
+ * signal only rejects its own wait; the upstream call is aborted once every
+ * caller has cancelled.
+ */
+function joinRequest(shared: InFlightRequest, signal?: AbortSignal): Promise<unknown> {
+  shared.waiters++;
+  if (!signal) return shared.promise;
+
+  return new Promise((resolve, reject) => {
+    const onAbort = (): void => {
+      shared.waiters--;
+      if (shared.waiters === 0) {
+        if (inFlight.get(shared.key) === shared) inFlight.delete(shared.key);
+        shared.controller.abort(signal.reason);
+      }
+      reject(signal.reason);
+    };
+    signal.addEventListener("abort", onAbort, { once: true });
+    shared.promise
+      .then(resolve, reject)
+      .finally(() => {
+        signal.removeEventListener("abort", onAbort);
+      });
+  });
+}
+
 // API functions
 export async function getCompany(
   orgnr: string,
   options: {
     include?: string[];
     lang?: "sv" | "en";
-  } = {}
+  } = {},
+  context?: RequestContext
 ): Promise<CompanyData> {
   const includeParam = options.include?.length
     ? options.include.join(",")
@@ -108,6 +508,7 @@ export async function getCompany(
   return apiRequest<CompanyData>(`/company/${orgnr}`, {
     params: { include: includeParam },
     headers: options.lang ? { "Accept-Language": options.lang } : undefined,
+    context,
   });
 }
 
@@ -119,64 +520,92 @@ export async function searchCompanies(params: {
   active_only?: boolean;
   limit?: number;
   offset?: number;
-}): Promise<SearchResult> {
-  return apiRequest<SearchResult>("/search", { params });
+  cursor?: string;
+}, context?: RequestContext): Promise<SearchResult> {
+  return apiRequest<SearchResult>("/search", { params, context });
 }
 
-export async function getFinancials(orgnr: string): Promise<FinancialsData> {
-  return apiRequest<FinancialsData>(`/company/${orgnr}/financials`);
+export async function getFinancials(
+  orgnr: string,
+  context?: RequestContext
+): Promise<FinancialsData> {
+  return apiRequest<FinancialsData>(`/company/${orgnr}/financials`, { context });
 }
 
 export async function getAnalysis(
   orgnr: string,
-  lang?: "sv" | "en"
+  lang?: "sv" | "en",
+  context?: RequestContext
 ): Promise<AnalysisData> {
   return apiRequest<AnalysisData>(`/company/${orgnr}/analysis`, {
     params: { lang },
+    context,
   });
 }
 
-export async function getHealthScore(orgnr: string): Promise<HealthScore> {
-  return apiRequest<HealthScore>(`/company/${orgnr}/health`);
+export async function getHealthScore(
+  orgnr: string,
+  context?: RequestContext
+): Promise<HealthScore> {
+  return apiRequest<HealthScore>(`/company/${orgnr}/health`, { context });
 }
 
-export async function getFinancialHealth(orgnr: string): Promise<FinancialHealth> {
-  return apiRequest<FinancialHealth>(`/company/${orgnr}/financial-health`);
+export async function getFinancialHealth(
+  orgnr: string,
+  context?: RequestContext
+): Promise<FinancialHealth> {
+  return apiRequest<FinancialHealth>(`/company/${orgnr}/financial-health`, { context });
 }
 
 export async function getTimeline(
   orgnr: string,
-  lang?: "sv" | "en"
+  lang?: "sv" | "en",
+  context?: RequestContext
 ): Promise<TimelineData> {
   return apiRequest<TimelineData>(`/company/${orgnr}/timeline`, {
     headers: lang ? { "Accept-Language": lang } : undefined,
+    context,
   });
 }
 
 export async function getSimilarCompanies(
   orgnr: string,
-  options: { limit?: number; same_city?: boolean } = {}
+  options: { limit?: number; same_city?: boolean } = {},
+  context?: RequestContext
 ): Promise<SimilarCompanies> {
   return apiRequest<SimilarCompanies>(`/company/${orgnr}/similar`, {
     params: options,
+    context,
   });
 }
 
-export async function getReports(orgnr: string): Promise<ReportsList> {
-  return apiRequest<ReportsList>(`/company/${orgnr}/reports`);
+export async function getReports(
+  orgnr: string,
+  options: { limit?: number; offset?: number } = {},
+  context?: RequestContext
+): Promise<ReportsList> {
+  return apiRequest<ReportsList>(`/company/${orgnr}/reports`, {
+    params: options,
+    context,
+  });
 }
 
 export async function getCompanyScreening(
-  orgnr: string
+  orgnr: string,
+  context?: RequestContext
 ): Promise<CompanyScreening> {
-  return apiRequest<CompanyScreening>(`/company/${orgnr}/screening`);
+  return apiRequest<CompanyScreening>(`/company/${orgnr}/screening`, {
+    context,
+  });
 }
 
 export async function getIndustryStats(
   sniCode: string,
-  lang?: "sv" | "en"
+  lang?: "sv" | "en",
+  context?: RequestContext
 ): Promise<IndustryStats> {
   return apiRequest<IndustryStats>(`/industry/${sniCode}`, {
     headers: lang ? { "Accept-Language": lang } : undefined,
+    context,
   });
 }
@@ -0,0 +1,54 @@
+#!/usr/bin/env node
+/**
+ * Export the compliance screening audit trail
+ *
+ * Prints the entries recorded in a date range as JSON lines on stdout.
+ *
+ * Usage:
+ *   bolagsapi-audit-export --from 2026-01-01 --to 2026-03-31 [--client cus_123]
+ *
+ * Environment variables:
+ * - BOLAGSAPI_AUDIT_LOG: JSONL file path (default: ~/.bolagsapi/audit/screenings.jsonl)
+ */
+import { parseArgs } from "node:util";
+import { auditSink, auditDateRange } from "./audit.js";
+import { DateSchema } from "./schemas.js";
+
+/** Exit with a usage error */
+function fail(message: string): never {
+  process.stderr.write(`${message}\nUsage: bolagsapi-audit-export --from YYYY-MM-DD --to YYYY-MM-DD [--client ID]\n`);
+  process.exit(2);
+}
+
+/** Main entry point */
+async function main(): Promise<void> {
+  const { values } = parseArgs({
+    options: {
+      from: { type: "string" },
+      to: { type: "string" },
+      client: { type: "string" },
+    },
+  });
+
+  const from = DateSchema.safeParse(values.from);
+  const to = DateSchema.safeParse(values.to);
+  if (!from.success || !to.success) fail("--from and --to must be dates (YYYY-MM-DD)");
+  if (from.data > to.data) fail("--from must not be after --to");
+
+  const sink = auditSink();
+  if (!sink) fail("The audit trail is disabled (BOLAGSAPI_AUDIT_LOG=off)");
+
+  const range = auditDateRange(from.data, to.data);
+  const entries = await sink.read(range.from, range.to);
+  for (const entry of entries) {
+    if (values.client === undefined || entry.client_id === values.client) {
+      process.stdout.write(`${JSON.stringify(entry)}\n`);
+    }
+  }
+}
+
+// Run
+main().catch((error: unknown) => {
+  process.stderr.write(`Audit export failed: ${error instanceof Error ? error.message : String(error)}\n`);
+  process.exit(1);
+});
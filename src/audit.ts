@@ -0,0 +1,140 @@
+/**
+ * Append-only audit trail for compliance screenings
+ *
+ * Every sanctions/PEP screening returned by get_compliance_data is recorded
+ * with who ran it, when, the outcome and a hash of the payload, as evidence
+ * for AML record keeping. Entries go to a pluggable sink; the default appends
+ * JSON lines to a local file.
+ *
+ * Environment variables:
+ * - BOLAGSAPI_AUDIT_LOG: JSONL file path (default: ~/.bolagsapi/audit/screenings.jsonl),
+ *   or "off" to disable the audit trail
+ */
+import { createHash } from "node:crypto";
+import { createReadStream } from "node:fs";
+import { appendFile, mkdir } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import { createInterface } from "node:readline";
+import type { CompanyScreening } from "./api-types.js";
+
+const DEFAULT_AUDIT_LOG = join(homedir(), ".bolagsapi", "audit", "screenings.jsonl");
+
+/** One recorded screening */
+export interface ScreeningAuditEntry {
+  /** When the entry was written (ISO 8601) */
+  recorded_at: string;
+  /** Customer ID of the caller, or "local" in stdio mode */
+  client_id: string;
+  request_id?: string;
+  orgnr: string;
+  company_name: string;
+  /** screenedAt reported by BolagsAPI */
+  screened_at: string;
+  overall_risk_level: string;
+  /** Sanctions hits across the company and its board members */
+  sanctions_hits: number;
+  /** PEP hits across the company and its board members */
+  pep_hits: number;
+  board_members_screened: number;
+  /** SHA-256 of the JSON-serialized CompanyScreening payload */
+  payload_sha256: string;
+}
+
+/** Destination for audit entries. Implementations must only ever append. */
+export interface AuditSink {
+  append(entry: ScreeningAuditEntry): Promise<void>;
+  /** Entries recorded within [from, to), oldest first */
+  read(from: Date, to: Date): Promise<ScreeningAuditEntry[]>;
+}
+
+/** Audit sink appending JSON lines to a local file */
+export class JsonlAuditSink implements AuditSink {
+  // Appends are chained so concurrent entries never interleave
+  private queue: Promise<void> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  append(entry: ScreeningAuditEntry): Promise<void> {
+    const write = async (): Promise<void> => {
+      await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+      await appendFile(this.path, `${JSON.stringify(entry)}\n`, { mode: 0o600, flag: "a" });
+    };
+    const result = this.queue.then(write);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  async read(from: Date, to: Date): Promise<ScreeningAuditEntry[]> {
+    const entries: ScreeningAuditEntry[] = [];
+    const stream = createReadStream(this.path, { encoding: "utf8" });
+    try {
+      for await (const line of createInterface({ input: stream, crlfDelay: Infinity })) {
+        if (!line.trim()) continue;
+        const entry = JSON.parse(line) as ScreeningAuditEntry;
+        const recorded = Date.parse(entry.recorded_at);
+        if (recorded >= from.getTime() && recorded < to.getTime()) entries.push(entry);
+      }
+    } catch (error) {
+      // No screenings recorded yet
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return [];
+      throw error;
+    }
+    return entries;
+  }
+}
+
+/** Build the sink configured through BOLAGSAPI_AUDIT_LOG */
+function defaultSink(): AuditSink | undefined {
+  const path = process.env.BOLAGSAPI_AUDIT_LOG ?? DEFAULT_AUDIT_LOG;
+  return path === "off" ? undefined : new JsonlAuditSink(path);
+}
+
+let sink: AuditSink | undefined = defaultSink();
+
+/** Replace the audit sink, e.g. with a database or WORM storage backed one */
+export function setAuditSink(next: AuditSink | undefined): void {
+  sink = next;
+}
+
+/** The active audit sink, if auditing is enabled */
+export function auditSink(): AuditSink | undefined {
+  return sink;
+}
+
+/** Build the audit entry for a screening result */
+export function screeningAuditEntry(
+  data: CompanyScreening,
+  caller: { clientId: string; requestId?: string }
+): ScreeningAuditEntry {
+  const screenings = [data.companyScreening, ...data.boardMemberScreenings.map((m) => m.screening)];
+  return {
+    recorded_at: new Date().toISOString(),
+    client_id: caller.clientId,
+    request_id: caller.requestId,
+    orgnr: data.orgnr,
+    company_name: data.companyName,
+    screened_at: data.screenedAt,
+    overall_risk_level: data.overallRiskLevel,
+    sanctions_hits: screenings.reduce((n, s) => n + s.sanctionsHits.length, 0),
+    pep_hits: screenings.reduce((n, s) => n + s.pepHits.length, 0),
+    board_members_screened: data.boardMemberScreenings.length,
+    payload_sha256: createHash("sha256").update(JSON.stringify(data)).digest("hex"),
+  };
+}
+
+/** Record a screening; a no-op when auditing is disabled */
+export async function recordScreening(
+  data: CompanyScreening,
+  caller: { clientId: string; requestId?: string }
+): Promise<void> {
+  await sink?.append(screeningAuditEntry(data, caller));
+}
+
+/** Parse a YYYY-MM-DD date range into [from, to) covering both whole days (UTC) */
+export function auditDateRange(from: string, to: string): { from: Date; to: Date } {
+  const start = new Date(`${from}T00:00:00Z`);
+  const end = new Date(`${to}T00:00:00Z`);
+  end.setUTCDate(end.getUTCDate() + 1);
+  return { from: start, to: end };
+}
@@ -3,13 +3,68 @@
  *
  * Implements API key verification compatible with OAuth 2.1 Bearer token format.
  * API keys are passed as Bearer tokens in the Authorization header.
+ *
+ * Verification results are cached by key hash: valid keys for
+ * BOLAGSAPI_AUTH_CACHE_TTL_MS, rejected keys for BOLAGSAPI_AUTH_NEGATIVE_TTL_MS.
+ * When BolagsAPI cannot be reached the request fails with 503 rather than
+ * treating the key as invalid.
  */
+import { createHash } from "node:crypto";
+import type express from "express";
 import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
 import type { OAuthTokenVerifier } from "@modelcontextprotocol/sdk/server/auth/provider.js";
+import { InvalidTokenError, ServerError } from "@modelcontextprotocol/sdk/server/auth/errors.js";
+import { metrics } from "./metrics.js";
+import { logger, errorFields } from "./logger.js";
+import { envNumber } from "./env.js";
+
+// Verified auth info on the request, read by the Streamable HTTP transport
+declare module "express-serve-static-core" {
+  interface Request {
+    auth?: AuthInfo;
+  }
+}
 
 // API key format: sk_live_xxx or sk_test_xxx
 const API_KEY_REGEX = /^sk_(live|test)_[a-zA-Z0-9]{32,}$/;
 
+const TIMEOUT_MS = envNumber("BOLAGSAPI_TIMEOUT_MS", 10000, 1);
+const POSITIVE_TTL_MS = envNumber("BOLAGSAPI_AUTH_CACHE_TTL_MS", 300000);
+const NEGATIVE_TTL_MS = envNumber("BOLAGSAPI_AUTH_NEGATIVE_TTL_MS", 30000);
+
+// Upper bound on cached verification results
+const MAX_CACHED_KEYS = 10000;
+
+// Seconds clients are told to wait after an upstream outage
+const OUTAGE_RETRY_AFTER_S = 5;
+
+// clientId of verified keys that BolagsAPI does not attribute to a customer
+const UNKNOWN_CLIENT_ID = "unknown";
+
+/** Account details returned for a valid key; never includes the key itself */
+interface VerifiedAccount {
+  clientId: string;
+  scopes: string[];
+}
+
+interface CachedVerification {
+  /** Account for a valid key, null for a rejected key */
+  account: VerifiedAccount | null;
+  /** Epoch millis after which the key must be verified again */
+  expiresAt: number;
+}
+
+/**
+ * Thrown when BolagsAPI cannot verify a key because it is unreachable or
+ * failing, as opposed to rejecting the key
+ */
+export class AuthUpstreamError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "AuthUpstreamError";
+  }
+}
+
 /**
  * Validates that a string looks like a valid API key format
  */
@@ -17,31 +72,44 @@ function isValidApiKeyFormat(token: string): boolean {
   return API_KEY_REGEX.test(token);
 }
 
+/** Hash an API key for use as a cache key */
+function hashApiKey(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
 /**
- * Verify an API key against the BolagsAPI backend
+ * Verify an API key against the BolagsAPI backend.
+ * Returns null when the key is rejected; throws AuthUpstreamError on outages.
  */
-async function verifyApiKeyWithBackend(apiKey: string): Promise<AuthInfo | null> {
+async function verifyApiKeyWithBackend(apiKey: string): Promise<VerifiedAccount | null> {
   const apiUrl = process.env.BOLAGSAPI_URL ?? "https://api.bolagsapi.se/v1";
 
+  let response: Response;
   try {
     // Call the API to validate the key (a simple endpoint that requires auth)
-    const response = await fetch(`${apiUrl}/account/me`, {
+    response = await fetch(`${apiUrl}/account/me`, {
       headers: { Authorization: `Bearer ${apiKey}` },
+      signal: AbortSignal.timeout(TIMEOUT_MS),
     });
+  } catch {
+    throw new AuthUpstreamError("BolagsAPI is unreachable");
+  }
 
-    if (!response.ok) return null;
+  if (response.status === 401 || response.status === 403) return null;
+  if (!response.ok) {
+    throw new AuthUpstreamError(`BolagsAPI returned ${String(response.status)} during key verification`);
+  }
 
+  try {
     const data = (await response.json()) as {
       data?: { customer_id?: string; tier?: string };
     };
-
     return {
-      token: apiKey,
-      clientId: data.data?.customer_id ?? "unknown",
+      clientId: data.data?.customer_id ?? UNKNOWN_CLIENT_ID,
       scopes: [data.data?.tier ?? "free"],
     };
   } catch {
-    return null;
+    throw new AuthUpstreamError("BolagsAPI returned an invalid account response");
   }
 }
 
@@ -50,22 +118,116 @@ async function verifyApiKeyWithBackend(apiKey: string): Promise<AuthInfo | null>
  * Verifies API keys passed as Bearer tokens
  */
 export class ApiKeyVerifier implements OAuthTokenVerifier {
+  private cache = new Map<string, CachedVerification>();
+  private inFlight = new Map<string, Promise<VerifiedAccount | null>>();
+
   /** Verify an access token (API key) */
   async verifyAccessToken(token: string): Promise<AuthInfo> {
     // Check format first (fast fail)
     if (!isValidApiKeyFormat(token)) {
-      throw new Error("Invalid API key format");
+      throw new InvalidTokenError("Invalid API key format");
+    }
+
+    const account = await this.lookup(token);
+    if (!account) {
+      throw new InvalidTokenError("Invalid or expired API key");
     }
 
-    // Verify with backend
-    const authInfo = await verifyApiKeyWithBackend(token);
-    if (!authInfo) {
-      throw new Error("Invalid or expired API key");
+    return {
+      token,
+      clientId: account.clientId,
+      scopes: account.scopes,
+    };
+  }
+
+  /** Cached verification, sharing one backend call between concurrent requests */
+  private async lookup(token: string): Promise<VerifiedAccount | null> {
+    const key = hashApiKey(token);
+    const cached = this.cache.get(key);
+    if (cached && cached.expiresAt > Date.now()) return cached.account;
+
+    let pending = this.inFlight.get(key);
+    if (!pending) {
+      pending = verifyApiKeyWithBackend(token).finally(() => this.inFlight.delete(key));
+      this.inFlight.set(key, pending);
     }
 
-    return authInfo;
+    const account = await pending;
+    this.remember(key, account);
+    return account;
+  }
+
+  /** Cache a verification result, evicting the oldest entries beyond the bound */
+  private remember(key: string, account: VerifiedAccount | null): void {
+    const ttl = account ? POSITIVE_TTL_MS : NEGATIVE_TTL_MS;
+    this.cache.delete(key);
+    if (ttl <= 0) return;
+
+    this.cache.set(key, { account, expiresAt: Date.now() + ttl });
+    while (this.cache.size > MAX_CACHED_KEYS) {
+      const oldest = this.cache.keys().next().value;
+      if (oldest === undefined) break;
+      this.cache.delete(oldest);
+    }
   }
 }
 
 /** Singleton verifier instance */
 export const apiKeyVerifier = new ApiKeyVerifier();
+
+/**
+ * Stable identity of the caller for per-customer state (rate limits, audit
+ * entries, watchlists): the customer ID, or a hash of the API key when
+ * BolagsAPI returned none. Without auth info (stdio mode) this is "local".
+ */
+export function callerId(authInfo: AuthInfo | undefined): string {
+  if (!authInfo) return "local";
+  if (authInfo.clientId !== UNKNOWN_CLIENT_ID) return authInfo.clientId;
+  return `key:${hashApiKey(authInfo.token)}`;
+}
+
+/**
+ * Bearer auth middleware for API keys.
+ * Like the SDK's requireBearerAuth, but reports upstream outages as 503.
+ */
+export function requireApiKeyAuth(verifier: OAuthTokenVerifier = apiKeyVerifier): express.RequestHandler {
+  return (req, res, next) => {
+    const [type, token] = req.headers.authorization?.split(" ") ?? [];
+
+    if (type?.toLowerCase() !== "bearer" || !token) {
+      metrics.authFailures.inc({ reason: "missing_token" });
+      const error = new InvalidTokenError(
+        req.headers.authorization ? "Invalid Authorization header format, expected 'Bearer TOKEN'" : "Missing Authorization header"
+      );
+      res.set("WWW-Authenticate", `Bearer error="${error.errorCode}", error_description="${error.message}"`);
+      res.status(401).json(error.toResponseObject());
+      return;
+    }
+
+    verifier.verifyAccessToken(token).then(
+      (authInfo) => {
+        req.auth = authInfo;
+        next();
+      },
+      (error: unknown) => {
+        if (error instanceof InvalidTokenError) {
+          metrics.authFailures.inc({ reason: "invalid_token" });
+          res.set("WWW-Authenticate", `Bearer error="${error.errorCode}", error_description="${error.message}"`);
+          res.status(401).json(error.toResponseObject());
+        } else if (error instanceof AuthUpstreamError) {
+          metrics.authFailures.inc({ reason: "upstream_unavailable" });
+          logger.warn("API key verification unavailable", { error: error.message });
+          res.set("Retry-After", String(OUTAGE_RETRY_AFTER_S));
+          res.status(503).json({
+            error: "temporarily_unavailable",
+            error_description: "API key verification is temporarily unavailable. Try again shortly.",
+          });
+        } else {
+          metrics.authFailures.inc({ reason: "internal_error" });
+          logger.error("API key verification failed", errorFields(error));
+          res.status(500).json(new ServerError("Internal Server Error").toResponseObject());
+        }
+      }
+    );
+  };
+}
@@ -0,0 +1,69 @@
+/**
+ * Circuit breaker for upstream BolagsAPI calls
+ *
+ * Opens after a number of consecutive failed calls so that requests fail
+ * fast while upstream is down. After the cooldown a single trial request is
+ * let through (half-open); its outcome closes or re-opens the circuit. A
+ * trial that ends without an outcome, e.g. because it was cancelled,
+ * re-opens the circuit for another cooldown.
+ */
+
+export type CircuitState = "closed" | "open" | "half-open";
+
+export class CircuitBreaker {
+  private state: CircuitState = "closed";
+  private consecutiveFailures = 0;
+  private openedAt = 0;
+
+  constructor(
+    private readonly failureThreshold: number,
+    private readonly cooldownMs: number
+  ) {}
+
+  /** Whether a request may be made now */
+  allowRequest(): boolean {
+    if (this.state === "closed") return true;
+    if (this.state === "open" && Date.now() - this.openedAt >= this.cooldownMs) {
+      this.state = "half-open";
+      return true;
+    }
+    return false;
+  }
+
+  /** Current state, without triggering the half-open transition */
+  get status(): CircuitState {
+    return this.state;
+  }
+
+  /** Milliseconds until the circuit allows a trial request */
+  get retryAfterMs(): number {
+    if (this.state !== "open") return 0;
+    return Math.max(0, this.openedAt + this.cooldownMs - Date.now());
+  }
+
+  /** Record a call that reached a healthy upstream */
+  recordSuccess(): void {
+    this.state = "closed";
+    this.consecutiveFailures = 0;
+  }
+
+  /** Record a call that failed because upstream is unavailable */
+  recordFailure(): void {
+    this.consecutiveFailures++;
+    if (this.state === "half-open" || this.consecutiveFailures >= this.failureThreshold) {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+
+  /**
+   * Record a call that ended without telling whether upstream is healthy,
+   * such as a cancelled call. Frees the half-open trial slot.
+   */
+  recordAbandoned(): void {
+    if (this.state === "half-open") {
+      this.state = "open";
+      this.openedAt = Date.now();
+    }
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Argument completion for prompts and resource templates
+ *
+ * Completion callbacks receive only the partial value, not the request, so
+ * the completers for one server are created with the caller's API key up
+ * front. Organization numbers are completed from a company name search;
+ * SNI codes, organization forms and cities come from bundled lists.
+ */
+import { completable } from "@modelcontextprotocol/sdk/server/completable.js";
+import type { z } from "zod";
+import { searchCompanies, type RequestContext } from "./api-client.js";
+import { matchSniCodes } from "./sni-catalogue.js";
+import { MUNICIPALITIES } from "./municipalities.js";
+import { logger, errorFields } from "./logger.js";
+
+/** Minimum name prefix length before searching, as for search_companies */
+const MIN_NAME_PREFIX = 3;
+
+/** Companies suggested per completion request */
+const ORGNR_SUGGESTIONS = 10;
+
+/** Upper bound on the upstream search behind one completion request */
+const COMPLETION_TIMEOUT_MS = 3000;
+
+/** Organization forms registered with Bolagsverket */
+export const ORG_FORMS: Array<{ code: string; description: string }> = [
+  { code: "AB", description: "Aktiebolag" },
+  { code: "BAB", description: "Bankaktiebolag" },
+  { code: "BF", description: "Bostadsförening" },
+  { code: "BRF", description: "Bostadsrättsförening" },
+  { code: "EF", description: "Enskild näringsidkare" },
+  { code: "EK", description: "Ekonomisk förening" },
+  { code: "FAB", description: "Försäkringsaktiebolag" },
+  { code: "FL", description: "Filial" },
+  { code: "HB", description: "Handelsbolag" },
+  { code: "I", description: "Ideell förening" },
+  { code: "KB", description: "Kommanditbolag" },
+  { code: "KHF", description: "Kooperativ hyresrättsförening" },
+  { code: "S", description: "Stiftelse" },
+  { code: "SB", description: "Sparbank" },
+  { code: "SCE", description: "Europakooperativ" },
+  { code: "SE", description: "Europabolag" },
+];
+
+export type Completer = (value: string) => Promise<string[]> | string[];
+
+/** Completers for one server, bound to the caller's API key */
+export interface Completers {
+  orgnr: Completer;
+  sni: Completer;
+  orgForm: Completer;
+  city: Completer;
+}
+
+/** Case-insensitive prefix match against a list of names */
+function prefixMatches(names: string[], value: string): string[] {
+  const prefix = value.trim().toLocaleLowerCase("sv");
+  return names.filter((name) => name.toLocaleLowerCase("sv").startsWith(prefix));
+}
+
+/**
+ * Organization numbers of companies whose name matches the typed prefix.
+ * Digits are taken as an organization number being typed and not searched.
+ */
+async function completeOrgnr(value: string, context: RequestContext): Promise<string[]> {
+  const prefix = value.trim();
+  if (prefix.length < MIN_NAME_PREFIX || /^[\d\s-]+$/.test(prefix)) return [];
+  try {
+    const result = await searchCompanies(
+      { q: prefix, limit: ORGNR_SUGGESTIONS },
+      { ...context, signal: AbortSignal.timeout(COMPLETION_TIMEOUT_MS) }
+    );
+    return result.results.map((company) => company.orgnr);
+  } catch (error) {
+    // A failed completion only means no suggestions
+    logger.debug("Organization number completion failed", errorFields(error));
+    return [];
+  }
+}
+
+/** Create the completers for a server acting on behalf of one caller */
+export function createCompleters(context: RequestContext = {}): Completers {
+  return {
+    orgnr: (value) => completeOrgnr(value, context),
+    sni: (value) => matchSniCodes(value).map((entry) => entry.code),
+    orgForm: (value) => prefixMatches(ORG_FORMS.map((form) => form.code), value),
+    city: (value) => prefixMatches(MUNICIPALITIES, value),
+  };
+}
+
+/**
+ * Attach a completer to a copy of a schema. completable() marks the schema
+ * object itself, so shared schemas are never marked directly.
+ */
+export function withCompletion<T extends z.ZodTypeAny>(
+  schema: T,
+  complete: (value: z.input<T>) => z.input<T>[] | Promise<z.input<T>[]>
+): T {
+  return completable(schema.describe(schema.description ?? ""), complete);
+}
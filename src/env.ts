@@ -0,0 +1,18 @@
+/**
+ * Numeric settings from environment variables
+ */
+import { logger } from "./logger.js";
+
+/**
+ * A numeric setting, or its default when unset. A value that is not a
+ * finite number of at least `min` also falls back to the default, with a
+ * warning, so a typo such as BOLAGSAPI_TIMEOUT_MS=5s cannot become NaN.
+ */
+export function envNumber(name: string, fallback: number, min = 0): number {
+  const raw = process.env[name];
+  if (raw === undefined || raw.trim() === "") return fallback;
+  const value = Number(raw);
+  if (Number.isFinite(value) && value >= min) return value;
+  logger.warn("Ignoring invalid numeric setting", { setting: name, value: raw, default: fallback, min });
+  return fallback;
+}
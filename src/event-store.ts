@@ -0,0 +1,60 @@
+/**
+ * Bounded in-memory event store for Streamable HTTP resumability
+ *
+ * Each session gets its own store, so events are dropped together with the
+ * session. Only the most recent events are kept; reconnecting with an
+ * evicted Last-Event-ID is rejected and the client has to open a new stream.
+ */
+import type { EventStore, EventId, StreamId } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import type { JSONRPCMessage } from "@modelcontextprotocol/sdk/types.js";
+
+interface StoredEvent {
+  streamId: StreamId;
+  message: JSONRPCMessage;
+}
+
+export class BoundedEventStore implements EventStore {
+  private events = new Map<EventId, StoredEvent>();
+  private sequence = 0;
+
+  constructor(private readonly maxEvents: number) {}
+
+  /** Store an event, evicting the oldest beyond the bound */
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    this.sequence++;
+    const eventId = `${streamId}_${String(this.sequence)}`;
+    this.events.set(eventId, { streamId, message });
+
+    while (this.events.size > this.maxEvents) {
+      const oldest = this.events.keys().next().value;
+      if (oldest === undefined) break;
+      this.events.delete(oldest);
+    }
+    return Promise.resolve(eventId);
+  }
+
+  /** Stream an event ID belongs to, if it is still stored */
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    return Promise.resolve(this.events.get(eventId)?.streamId);
+  }
+
+  /** Replay events on the same stream that were stored after lastEventId */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const last = this.events.get(lastEventId);
+    if (!last) return "";
+
+    // Map iteration follows insertion order, which is event order
+    let found = false;
+    for (const [eventId, event] of this.events) {
+      if (eventId === lastEventId) {
+        found = true;
+      } else if (found && event.streamId === last.streamId) {
+        await send(eventId, event.message);
+      }
+    }
+    return last.streamId;
+  }
+}
@@ -0,0 +1,105 @@
+/**
+ * Multi-year trend metrics derived from BolagsAPI financials
+ *
+ * Everything here is computed locally from FinancialsData.years; no extra
+ * upstream calls are made.
+ */
+import type { FinancialsData } from "./api-types.js";
+
+type FiscalYear = FinancialsData["years"][0];
+
+/** Derived metrics for one fiscal year */
+export interface YearTrendMetrics {
+  fiscal_year_end: string;
+  /** Year-over-year revenue growth in percent */
+  revenue_growth: number | null;
+  /** Year-over-year net income growth in percent, relative to |previous| */
+  net_income_growth: number | null;
+  total_liabilities: number | null;
+  /** Total liabilities divided by equity */
+  debt_to_equity: number | null;
+  /** Short-term liabilities as percent of total liabilities */
+  short_term_liability_share: number | null;
+  /** Months of cash left at the year's loss rate; null when not loss-making */
+  cash_runway_months: number | null;
+}
+
+export interface FinancialTrends {
+  /** Fiscal years in chronological order */
+  years: YearTrendMetrics[];
+  /** Compound annual revenue growth in percent over the covered period */
+  revenue_cagr: number | null;
+  /** Compound annual net income growth in percent over the covered period */
+  net_income_cagr: number | null;
+  /** Length of the CAGR period in years */
+  cagr_period_years: number | null;
+}
+
+const MS_PER_YEAR = 365.25 * 24 * 60 * 60 * 1000;
+
+/** Sort fiscal years oldest first */
+export function chronologicalYears(data: FinancialsData): FiscalYear[] {
+  return [...data.years].sort((a, b) => a.fiscal_year_end.localeCompare(b.fiscal_year_end));
+}
+
+/** Whether a reported figure is present */
+function isReported(value: number | null | undefined): value is number {
+  return value !== undefined && value !== null;
+}
+
+/** Percent change from previous to current, relative to |previous| */
+function growth(current?: number | null, previous?: number | null): number | null {
+  if (!isReported(current) || !isReported(previous) || previous === 0) return null;
+  return ((current - previous) / Math.abs(previous)) * 100;
+}
+
+/** Compound annual growth rate in percent; only defined for positive endpoints */
+function cagr(first?: number | null, last?: number | null, years?: number | null): number | null {
+  if (!isReported(first) || !isReported(last) || !years || first <= 0 || last <= 0) return null;
+  return ((last / first) ** (1 / years) - 1) * 100;
+}
+
+/** Total liabilities, or null when neither liability line is reported */
+function totalLiabilities(year: FiscalYear): number | null {
+  const { short_term_liabilities: short, long_term_liabilities: long } = year.balance_sheet;
+  if (!isReported(short) && !isReported(long)) return null;
+  return (short ?? 0) + (long ?? 0);
+}
+
+/** Derive the metrics for one year given the previous year */
+function yearMetrics(year: FiscalYear, previous?: FiscalYear): YearTrendMetrics {
+  const liabilities = totalLiabilities(year);
+  const equity = year.balance_sheet.equity;
+  const short = year.balance_sheet.short_term_liabilities;
+  const netIncome = year.income_statement.net_income;
+  const cash = year.balance_sheet.cash_and_bank;
+
+  return {
+    fiscal_year_end: year.fiscal_year_end,
+    revenue_growth: growth(year.income_statement.revenue, previous?.income_statement.revenue),
+    net_income_growth: growth(netIncome, previous?.income_statement.net_income),
+    total_liabilities: liabilities,
+    debt_to_equity: isReported(liabilities) && isReported(equity) && equity > 0 ? liabilities / equity : null,
+    short_term_liability_share: liabilities && isReported(short) ? (short / liabilities) * 100 : null,
+    cash_runway_months: isReported(netIncome) && netIncome < 0 && isReported(cash) ? cash / (-netIncome / 12) : null,
+  };
+}
+
+/** Compute year-over-year and multi-year trend metrics */
+export function computeTrends(data: FinancialsData): FinancialTrends {
+  const years = chronologicalYears(data);
+  const metrics = years.map((year, i) => yearMetrics(year, years[i - 1]));
+
+  const first = years.at(0);
+  const last = years.at(-1);
+  const period = first && last && years.length > 1
+    ? Math.round((Date.parse(last.fiscal_year_end) - Date.parse(first.fiscal_year_end)) / MS_PER_YEAR)
+    : null;
+
+  return {
+    years: metrics,
+    revenue_cagr: cagr(first?.income_statement.revenue, last?.income_statement.revenue, period),
+    net_income_cagr: cagr(first?.income_statement.net_income, last?.income_statement.net_income, period),
+    cagr_period_years: period || null,
+  };
+}
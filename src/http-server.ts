@@ -3,24 +3,54 @@
  * BolagsAPI MCP HTTP Server
  *
  * Streamable HTTP transport for remote MCP access.
- * Supports Bearer token authentication using BolagsAPI keys.
+ * Supports Bearer token authentication using BolagsAPI keys. The caller's
+ * verified key is forwarded on every upstream BolagsAPI call, so usage is
+ * billed and rate-limited against the caller's own account and tier.
  *
  * Environment variables:
  * - BOLAGSAPI_URL: API base URL (default: https://api.bolagsapi.se/v1)
- * - BOLAGSAPI_KEY: Default API key for unauthenticated requests (optional)
+ * - BOLAGSAPI_KEY: Fallback API key when a request carries no auth info (optional)
  * - PORT: HTTP port (default: 3001)
  * - HOST: Bind address (default: 127.0.0.1)
+ * - MCP_STATEFUL: Enable stateful sessions with GET streaming and DELETE (default: false)
+ * - MCP_SESSION_IDLE_MS: Idle time before a stateful session is closed (default: 1800000)
+ * - MCP_MAX_SESSIONS: Maximum concurrent stateful sessions (default: 1000)
+ * - METRICS_TOKEN: Bearer token required for /metrics (default: none, open)
+ * - LOG_LEVEL: debug, info, warn or error (default: info)
  */
+import { randomUUID } from "node:crypto";
 import express from "express";
 import rateLimit from "express-rate-limit";
 import { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
-import { requireBearerAuth } from "@modelcontextprotocol/sdk/server/auth/middleware/bearerAuth.js";
+import { isInitializeRequest } from "@modelcontextprotocol/sdk/types.js";
 import { createServer, SERVER_VERSION } from "./server.js";
-import { apiKeyVerifier } from "./auth.js";
+import { requireApiKeyAuth } from "./auth.js";
+import { rateLimitByClient, MemoryRateLimitStore } from "./rate-limit.js";
+import { upstreamCircuitState } from "./api-client.js";
+import { metrics, renderMetrics } from "./metrics.js";
+import { logger, errorFields } from "./logger.js";
+import { envNumber } from "./env.js";
+import { SessionStore, sessionOwner, type Session } from "./session-store.js";
+import { BoundedEventStore } from "./event-store.js";
 
-const PORT = parseInt(process.env.PORT ?? "3001", 10);
+const PORT = envNumber("PORT", 3001, 1);
 const HOST = process.env.HOST ?? "127.0.0.1";
 
+const STATEFUL = process.env.MCP_STATEFUL === "true";
+const SESSION_IDLE_MS = envNumber("MCP_SESSION_IDLE_MS", 1800000, 1);
+const MAX_SESSIONS = envNumber("MCP_MAX_SESSIONS", 1000, 1);
+const METRICS_TOKEN = process.env.METRICS_TOKEN;
+
+// Incoming request IDs are reused if they look sane, otherwise replaced
+const REQUEST_ID_REGEX = /^[\w.:-]{1,128}$/;
+
+const startedAt = Date.now();
+
+// Events kept per session for Last-Event-ID replay
+const MAX_EVENTS_PER_SESSION = 500;
+
+const sessions = new SessionStore(SESSION_IDLE_MS, MAX_SESSIONS);
+
 // Allowed hosts for DNS rebinding protection
 const LOCALHOST_HOSTS = ["127.0.0.1", "localhost", "::1", "[::1]"];
 const isLocalhostBinding = LOCALHOST_HOSTS.includes(HOST);
@@ -39,10 +69,60 @@ function dnsRebindingProtection(
   next();
 }
 
+/**
+ * Set X-Request-ID on the incoming request. The MCP transport rebuilds
+ * headers from rawHeaders, so both views are updated.
+ */
+function setRequestIdHeader(req: express.Request, requestId: string): void {
+  const raw: string[] = [];
+  for (let i = 0; i < req.rawHeaders.length; i += 2) {
+    if (req.rawHeaders[i].toLowerCase() !== "x-request-id") raw.push(req.rawHeaders[i], req.rawHeaders[i + 1]);
+  }
+  req.rawHeaders.splice(0, req.rawHeaders.length, ...raw, "X-Request-ID", requestId);
+  req.headers["x-request-id"] = requestId;
+}
+
+/**
+ * Assign a request ID, expose it as X-Request-ID and log and count the
+ * request when it completes. Tool handlers read the ID from the request
+ * headers and forward it upstream.
+ */
+function requestTracking(
+  req: express.Request,
+  res: express.Response,
+  next: express.NextFunction
+): void {
+  const incoming = req.headers["x-request-id"];
+  const requestId = typeof incoming === "string" && REQUEST_ID_REGEX.test(incoming) ? incoming : randomUUID();
+  setRequestIdHeader(req, requestId);
+  res.header("X-Request-ID", requestId);
+
+  const started = performance.now();
+  metrics.activeRequests.inc();
+  res.on("close", () => {
+    metrics.activeRequests.dec();
+    const route = req.path === "/mcp" || req.path === "/health" || req.path === "/metrics" ? req.path : "other";
+    metrics.httpRequests.inc({ method: req.method, route, status: String(res.statusCode) });
+    logger.info("http request", {
+      request_id: requestId,
+      method: req.method,
+      path: req.path,
+      status: res.statusCode,
+      duration_ms: Math.round(performance.now() - started),
+      client_id: req.auth?.clientId,
+      session_id: req.headers["mcp-session-id"],
+    });
+  });
+  next();
+}
+
 /** Create Express app with middleware */
 function createApp(): express.Express {
   const app = express();
 
+  // Request IDs, access logs and HTTP metrics
+  app.use(requestTracking);
+
   // DNS rebinding protection for localhost bindings
   if (isLocalhostBinding) {
     app.use(dnsRebindingProtection);
@@ -51,13 +131,15 @@ function createApp(): express.Express {
   // Parse JSON bodies
   app.use(express.json());
 
-  // Rate limiting: 100 requests per minute per IP
+  // Per-IP limit on failed requests (e.g. guessed API keys); successful
+  // traffic is limited per client in rateLimitByClient instead
   const limiter = rateLimit({
     windowMs: 60 * 1000,
     max: 100,
     message: { error: "rate_limit", message: "Too many requests" },
     standardHeaders: true,
     legacyHeaders: false,
+    skipSuccessfulRequests: true,
   });
   app.use(limiter);
 
@@ -66,8 +148,12 @@ function createApp(): express.Express {
     res.header("X-Content-Type-Options", "nosniff");
     res.header("X-Frame-Options", "DENY");
     res.header("Access-Control-Allow-Origin", "*");
-    res.header("Access-Control-Allow-Methods", "GET, POST, OPTIONS");
-    res.header("Access-Control-Allow-Headers", "Content-Type, Authorization");
+    res.header("Access-Control-Allow-Methods", "GET, POST, DELETE, OPTIONS");
+    res.header(
+      "Access-Control-Allow-Headers",
+      "Content-Type, Authorization, Mcp-Session-Id, Mcp-Protocol-Version, Last-Event-ID"
+    );
+    res.header("Access-Control-Expose-Headers", "Mcp-Session-Id");
     next();
   });
 
@@ -79,7 +165,7 @@ async function handleMcpRequest(
   req: express.Request,
   res: express.Response
 ): Promise<void> {
-  const server = createServer();
+  const server = createServer({ apiKey: req.auth?.token });
 
   try {
     // Stateless transport - new instance per request
@@ -95,7 +181,89 @@ async function handleMcpRequest(
       void server.close();
     });
   } catch (error) {
-    console.error("Error handling MCP request:", error);
+    logger.error("Error handling MCP request", { request_id: req.headers["x-request-id"], ...errorFields(error) });
+    if (!res.headersSent) {
+      res.status(500).json({
+        jsonrpc: "2.0",
+        error: { code: -32603, message: "Internal server error" },
+        id: null,
+      });
+    }
+  }
+}
+
+/** Send a JSON-RPC error response without an id */
+function sendJsonRpcError(res: express.Response, status: number, message: string): void {
+  res.status(status).json({
+    jsonrpc: "2.0",
+    error: { code: -32000, message },
+    id: null,
+  });
+}
+
+/** Create a session for an initialize request and serve it */
+async function startSession(
+  req: express.Request,
+  res: express.Response,
+  owner: string
+): Promise<void> {
+  if (!sessions.hasCapacity()) {
+    sendJsonRpcError(res, 503, "Too many active sessions. Try again later.");
+    return;
+  }
+
+  const server = createServer({ apiKey: req.auth?.token });
+  let session: Session | undefined;
+  const transport = new StreamableHTTPServerTransport({
+    sessionIdGenerator: () => randomUUID(),
+    eventStore: new BoundedEventStore(MAX_EVENTS_PER_SESSION),
+    onsessioninitialized: (sessionId) => {
+      session = { server, transport, owner, lastSeen: Date.now(), openRequests: 0 };
+      sessions.add(sessionId, session);
+    },
+  });
+
+  transport.onclose = () => {
+    if (transport.sessionId) sessions.remove(transport.sessionId);
+  };
+
+  await server.connect(transport);
+  await transport.handleRequest(req, res, req.body);
+
+  // Initialization failed; nothing else can reach this server
+  if (!session) await server.close();
+}
+
+/** Handle MCP requests in stateful mode (POST, GET and DELETE) */
+async function handleStatefulRequest(
+  req: express.Request,
+  res: express.Response
+): Promise<void> {
+  try {
+    const owner = sessionOwner(req.auth?.token ?? "");
+    const sessionId = req.headers["mcp-session-id"];
+
+    if (sessionId === undefined) {
+      if (req.method === "POST" && isInitializeRequest(req.body)) {
+        await startSession(req, res, owner);
+      } else {
+        sendJsonRpcError(res, 400, "Bad Request: Mcp-Session-Id header is required");
+      }
+      return;
+    }
+
+    // Sessions belonging to another key are reported as not found
+    const session = typeof sessionId === "string" ? sessions.get(sessionId, owner) : undefined;
+    if (!session) {
+      sendJsonRpcError(res, 404, "Session not found");
+      return;
+    }
+
+    const done = sessions.track(session);
+    res.on("close", done);
+    await session.transport.handleRequest(req, res, req.body);
+  } catch (error) {
+    logger.error("Error handling MCP request", { request_id: req.headers["x-request-id"], ...errorFields(error) });
     if (!res.headersSent) {
       res.status(500).json({
         jsonrpc: "2.0",
@@ -111,34 +279,64 @@ function main(): void {
   const app = createApp();
 
   // Bearer auth middleware - validates API keys
-  const authMiddleware = requireBearerAuth({ verifier: apiKeyVerifier });
+  const authMiddleware = requireApiKeyAuth();
+
+  // Per-client limits and quotas, applied after authentication
+  const clientLimiter = rateLimitByClient(new MemoryRateLimitStore());
 
   // Health check endpoint (no auth)
   app.get("/health", (_req, res) => {
-    res.json({ status: "ok", version: SERVER_VERSION });
+    const circuit = upstreamCircuitState();
+    res.json({
+      status: circuit === "open" ? "degraded" : "ok",
+      version: SERVER_VERSION,
+      uptime_seconds: Math.round((Date.now() - startedAt) / 1000),
+      upstream: { circuit },
+      sessions: STATEFUL ? sessions.size : undefined,
+    });
   });
 
-  // MCP endpoint with authentication
-  app.post("/mcp", authMiddleware, (req, res) => {
-    void handleMcpRequest(req, res);
+  // Prometheus metrics, optionally behind METRICS_TOKEN
+  app.get("/metrics", (req, res) => {
+    if (METRICS_TOKEN && req.headers.authorization !== `Bearer ${METRICS_TOKEN}`) {
+      res.status(401).json({ error: "unauthorized", message: "Invalid metrics token" });
+      return;
+    }
+    res.type("text/plain; version=0.0.4").send(renderMetrics());
   });
 
-  // Method not allowed for GET/DELETE on /mcp
-  app.get("/mcp", (_req, res) => {
-    res.status(405).json({
-      jsonrpc: "2.0",
-      error: { code: -32000, message: "Method not allowed. Use POST." },
-      id: null,
+  if (STATEFUL) {
+    // Stateful mode: sessions, SSE on GET, teardown on DELETE
+    const handler = (req: express.Request, res: express.Response): void => {
+      void handleStatefulRequest(req, res);
+    };
+    app.post("/mcp", authMiddleware, clientLimiter, handler);
+    app.get("/mcp", authMiddleware, clientLimiter, handler);
+    app.delete("/mcp", authMiddleware, clientLimiter, handler);
+    sessions.startSweeping();
+  } else {
+    // MCP endpoint with authentication
+    app.post("/mcp", authMiddleware, clientLimiter, (req, res) => {
+      void handleMcpRequest(req, res);
+    });
+
+    // Method not allowed for GET/DELETE on /mcp
+    app.get("/mcp", (_req, res) => {
+      res.status(405).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: "Method not allowed. Use POST." },
+        id: null,
+      });
     });
-  });
 
-  app.delete("/mcp", (_req, res) => {
-    res.status(405).json({
-      jsonrpc: "2.0",
-      error: { code: -32000, message: "Method not allowed." },
-      id: null,
+    app.delete("/mcp", (_req, res) => {
+      res.status(405).json({
+        jsonrpc: "2.0",
+        error: { code: -32000, message: "Method not allowed." },
+        id: null,
+      });
     });
-  });
+  }
 
   // Handle OPTIONS for CORS preflight
   app.options("/mcp", (_req, res) => {
@@ -147,9 +345,12 @@ function main(): void {
 
   // Start server
   app.listen(PORT, HOST, () => {
-    console.error(`BolagsAPI MCP HTTP Server v${SERVER_VERSION}`);
-    console.error(`Listening on http://${HOST}:${String(PORT)}/mcp`);
-    console.error("Authentication: Bearer token (API key)");
+    logger.info("BolagsAPI MCP HTTP Server started", {
+      version: SERVER_VERSION,
+      url: `http://${HOST}:${String(PORT)}/mcp`,
+      authentication: "bearer",
+      sessions: STATEFUL ? "stateful" : "stateless",
+    });
   });
 }
 
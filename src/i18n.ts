@@ -0,0 +1,577 @@
+/**
+ * Message catalogue and locale formatting for tool output
+ *
+ * Every heading, label and sentence in the markdown produced by the tools
+ * comes from this catalogue, so output follows the caller's `lang`. Numbers
+ * and dates are formatted with the matching locale (sv-SE or en-GB).
+ */
+import type { z } from "zod";
+import type { LangSchema } from "./schemas.js";
+
+export type Lang = z.infer<typeof LangSchema>;
+
+/** Language used where the caller cannot choose one, such as resources */
+export const DEFAULT_LANG: Lang = "sv";
+
+const LOCALES: Record<Lang, string> = { sv: "sv-SE", en: "en-GB" };
+
+/** BCP 47 locale used to format numbers and dates for a language */
+export function locale(lang: Lang): string {
+  return LOCALES[lang];
+}
+
+/** Format a number with the locale's separators */
+export function formatNumber(value: number, lang: Lang, fractionDigits?: number): string {
+  return value.toLocaleString(locale(lang), {
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits ?? 3,
+  });
+}
+
+/**
+ * Format a date (YYYY-MM-DD) or timestamp for display. Timestamps are shown
+ * in Swedish time; values that do not parse are returned unchanged.
+ */
+export function formatDate(value: string, lang: Lang): string {
+  if (/^\d{4}-\d{2}-\d{2}$/.test(value)) {
+    const date = new Date(`${value}T00:00:00Z`);
+    if (Number.isNaN(date.getTime())) return value;
+    return date.toLocaleDateString(locale(lang), { dateStyle: "medium", timeZone: "UTC" });
+  }
+  const date = new Date(value);
+  if (Number.isNaN(date.getTime())) return value;
+  return date.toLocaleString(locale(lang), { dateStyle: "medium", timeStyle: "short", timeZone: "Europe/Stockholm" });
+}
+
+const en = {
+  common: {
+    notAvailable: "N/A",
+    yes: "Yes",
+    no: "No",
+    none: "none",
+    orgnr: "Org Nr",
+    company: "Company",
+    name: "Name",
+    status: "Status",
+    city: "City",
+    year: "Year",
+    error: "Error",
+    source: (source: string, updated: string) => `*Source: ${source}, Updated: ${updated}*`,
+    nextPage: (cursor: string) => `*Pass \`cursor: "${cursor}"\` to fetch the next page.*`,
+    accessDenied: (message: string) => `Access denied: ${message}`,
+    apiError: (message: string) => `API error: ${message}`,
+    unexpectedError: (message: string) => `Unexpected error: ${message}`,
+  },
+  riskLevels: { low: "low", medium: "medium", high: "high" } as Record<string, string>,
+  truncation: {
+    moreItems: (count: string) => `*${count} more omitted to fit max_tokens.*`,
+    olderItems: (count: string) => `*${count} older omitted to fit max_tokens.*`,
+    olderYears: (count: string) => `*${count} older fiscal years omitted to fit max_tokens.*`,
+    earlierEvents: (count: string, types: string) => `*${count} earlier events: ${types}*`,
+  },
+  parts: {
+    company: "Company",
+    financials: "Financials",
+    healthScore: "Health score",
+    financialHealth: "Financial health",
+    timeline: "Timeline",
+    screening: "Screening",
+    notAvailable: "not available",
+    notFound: "not found",
+  },
+  company: {
+    orgnr: "Organization Number",
+    form: "Form",
+    registered: "Registered",
+    vatNumber: "VAT Number",
+    deregistered: "Deregistered",
+    website: "Website",
+    address: "Address",
+    sniCodes: "Industry Codes (SNI)",
+    businessDescription: "Business Description",
+    financialHealth: "Financial Health",
+    stabilityGrade: "Stability Grade",
+    volatilityIndex: "Volatility Index",
+    compositeScore: "Composite Score",
+    financialData: "Financial Data",
+    seeFinancialsTool: "*See analyze_company_financials tool for detailed analysis*",
+    notFound: "Company not found. Verify the organization number is correct.",
+    timelineTitle: (orgnr: string) => `Timeline for ${orgnr}`,
+    similarTitle: (orgnr: string) => `Similar Companies to ${orgnr}`,
+    sniMatch: "SNI Match",
+  },
+  search: {
+    found: (total: string, query: string) => `Found **${total}** companies matching "${query}":`,
+    inactive: "[INACTIVE]",
+    moreResults: (shown: string, total: string) => `*More results available (showing ${shown} of ${total}).*`,
+  },
+  lookup: {
+    orgnrOrName: "Provide either orgnr or name (not both).",
+    noMatch: (name: string) => `No company matches "${name}". Check the spelling or use search_companies.`,
+    ambiguous: (name: string) => `Several companies match "${name}". Call lookup_company again with the orgnr of the right one:`,
+    pick: (name: string) => `Several companies match "${name}". Which one do you mean?`,
+    noSelection: "No company was selected.",
+    active: "active",
+    inactive: "inactive",
+  },
+  batch: {
+    summary: (total: string, found: string, failed: string) =>
+      `Looked up **${total}** companies (${found} found, ${failed} failed):`,
+    form: "Form",
+    score: "Score",
+    companyNotFound: "Company not found",
+    healthScoreUnavailable: (reason: string) => `Health score unavailable: ${reason}`,
+    progress: (orgnr: string) => `Looked up ${orgnr}`,
+  },
+  financials: {
+    title: (orgnr: string) => `Financial Data for ${orgnr}`,
+    noYears: "*No fiscal years reported.*",
+    trendTable: (currency: string) => `Trend Table (amounts in ${currency})`,
+    metric: "Metric",
+    revenue: "Revenue",
+    revenueGrowth: "Revenue Growth",
+    otherRevenue: "Other Revenue",
+    operatingResult: "Operating Result",
+    resultBeforeTax: "Result Before Tax",
+    netIncome: "Net Income",
+    netIncomeGrowth: "Net Income Growth",
+    totalAssets: "Total Assets",
+    equity: "Equity",
+    cash: "Cash",
+    shortTermLiabilities: "Short-term Liabilities",
+    longTermLiabilities: "Long-term Liabilities",
+    debtToEquity: "Debt-to-Equity",
+    shortTermShare: "Short-term Share of Liabilities",
+    equityRatio: "Equity Ratio",
+    quickRatio: "Quick Ratio",
+    profitMargin: "Profit Margin",
+    returnOnEquity: "Return on Equity",
+    returnOnAssets: "Return on Assets",
+    employees: "Employees",
+    cashRunway: "Cash Runway (months)",
+    profitable: "Profitable",
+    multiYearSummary: "Multi-Year Summary",
+    revenueCagr: (years: string) => `Revenue CAGR (${years} years)`,
+    netIncomeCagr: (years: string) => `Net Income CAGR (${years} years)`,
+    latestDebtToEquity: "Latest Debt-to-Equity",
+    latestShortTermShare: "Latest Short-term Share of Liabilities",
+    aiAnalysis: "AI Analysis",
+    fiscalYear: "Fiscal Year",
+    rating: "Rating",
+    riskScore: "Risk Score",
+    summary: "Summary",
+    riskFactors: "Risk Factors",
+    notFound: "No financial data found. Company may not have filed digital reports.",
+  },
+  assessment: {
+    title: (orgnr: string) => `Financial Assessment for ${orgnr}`,
+    healthScore: "Health Score",
+    overallScore: "Overall Score",
+    scoreFactors: "Score Factors",
+    active: "Active",
+    fSkatt: "F-skatt registered",
+    companyAge: "Company age",
+    years: (years: string) => `${years} years`,
+    liquidationRisk: "Liquidation risk",
+    industryBenchmark: "Industry Benchmark",
+    industry: "Industry",
+    industryAverage: "Industry average score",
+    percentile: "Percentile",
+    sampleSize: "Sample size",
+    companies: (count: string) => `${count} companies`,
+    componentScores: "Component Scores",
+    financeScore: "Finance Score",
+    historyScore: "History Score",
+    abilityToPay: "Ability to Pay",
+    ownership: "Ownership",
+    financialFlags: "Financial Flags",
+    publicDefaults: "Public defaults",
+    petitions: "Petitions",
+    negativeEquity: "Has negative equity",
+    liquidation: "Ongoing liquidation",
+    fiWarning: "Finansinspektionen warning",
+    qualifiedAudit: "Qualified audit opinion",
+    noFlags: "No significant flags found",
+  },
+  reports: {
+    title: (name: string) => `Annual Reports for ${name}`,
+    total: (total: string) => `Total reports: **${total}**`,
+    none: "*No digital annual reports available.*",
+    periodEnd: "Period End",
+    format: "Format",
+    audited: "Audited",
+    showing: (shown: string, total: string) => `*Showing ${shown} of ${total} reports*`,
+  },
+  compliance: {
+    title: (name: string) => `Compliance Screening for ${name}`,
+    screenedAt: "Screened At",
+    riskAssessment: "Risk Assessment",
+    overallRiskLevel: "Overall Risk Level",
+    sanctionsHits: "Sanctions Hits",
+    pepHits: "PEP Hits",
+    boardMembersScreened: "Board Members Screened",
+    companyScreening: "Company Screening",
+    riskLevel: "Risk Level",
+    boardMemberScreenings: "Board Member Screenings",
+    sanctionsFlag: "SANCTIONS",
+    pepFlag: "PEP",
+    notFound: "Data not found. Please verify the input is correct.",
+    auditWithheld: "The screening could not be recorded in the audit trail, so the result is withheld. Try again or contact the server operator.",
+  },
+  industry: {
+    title: (sni: string) => `Industry Statistics: ${sni}`,
+    description: "Description",
+    overview: "Overview",
+    totalCompanies: "Total Companies",
+    activeCompanies: "Active Companies",
+    averageAge: "Average Company Age",
+    years: (years: string) => `${years} years`,
+    byOrgForm: "By Organization Form",
+    topRegions: "Top Regions",
+    companies: (count: string) => `${count} companies`,
+  },
+  sni: {
+    searchTitle: (query: string) => `SNI Codes for "${query}"`,
+    matches: "Matching codes",
+    noMatch: (query: string) => `No SNI codes match "${query}". Try another word, in Swedish or English, or browse the sections with browse_sni_codes.`,
+    code: "Code",
+    level: "Level",
+    path: "Hierarchy",
+    sectionsTitle: "SNI 2007 Sections",
+    children: "Subcodes",
+    noChildren: "No subcodes; companies are registered with this detailed code.",
+    unknownCode: (code: string) => `Unknown SNI 2007 code: ${code}. Use find_sni_code to search by description.`,
+    notInCatalogue: (code: string) => `Note: SNI code ${code} is not in the bundled SNI 2007 catalogue. If the result looks wrong, check the code with find_sni_code.`,
+    levels: { section: "Section", division: "Division", group: "Group", class: "Class", detailed: "Detailed code" } as Record<string, string>,
+  },
+  audit: {
+    title: (from: string, to: string) => `Screening Audit Trail ${from} to ${to}`,
+    entries: "Entries",
+    recorded: "Recorded",
+    screenedAt: "Screened At",
+    risk: "Risk",
+    sanctions: "Sanctions",
+    pep: "PEP",
+    payloadHash: "Payload SHA-256",
+    disabled: "The screening audit trail is disabled on this server.",
+    invalidRange: "Invalid range: from must not be after to.",
+    readFailed: "The screening audit trail could not be read.",
+  },
+  comparison: {
+    title: "Company Comparison",
+    noCommonYear: "*The companies share no fiscal year; each column shows the company's latest year.*",
+    alignedYear: (year: string) => `*Fiscal year ${year}, aligned by the calendar year most of each fiscal year falls in.*`,
+    mixedCurrencies: (currencies: string) => `*Amounts are in each company's reporting currency (${currencies}) and are not converted.*`,
+    fiscalYearEnd: "Fiscal Year End",
+    healthScore: "Health Score",
+    compositeScore: "Composite Score",
+    stabilityGrade: "Stability Grade",
+    revenueByYear: "Revenue by Fiscal Year",
+    missingData: "Missing Data",
+    noData: "No data could be fetched for any of the companies:",
+  },
+  watchlist: {
+    updated: "Watchlist Updated",
+    added: "Added",
+    removed: "Removed",
+    alreadyWatched: "Already watched",
+    notWatched: "Not on watchlist",
+    watched: "Companies watched",
+    checkTitle: "Watchlist Check",
+    checked: "Companies checked",
+    withChanges: "With material changes",
+    baseline: "First check (baseline recorded)",
+    couldNotCheck: (error: string) => `⚠️ Could not check ${error}`,
+    noChanges: "No material changes since the last check.",
+    progress: (orgnr: string) => `Checked ${orgnr}`,
+    error: (message: string) => `Watchlist error: ${message}`,
+    statusChanged: (from: string, to: string) => `Status changed from ${from} to ${to}`,
+    newEvent: (type: string, date: string, description: string) => `New event (${type}, ${date}): ${description}`,
+    newFlag: (flag: string) => `New financial flag: ${flag}`,
+    flagIncreased: (flag: string, from: string, to: string) => `${flag} increased from ${from} to ${to}`,
+    scoreDropped: (from: string, to: string) => `Composite score dropped from ${from} to ${to}`,
+    gradeChanged: (from: string, to: string) => `Stability grade changed from ${from} to ${to}`,
+    riskChanged: (from: string, to: string) => `Screening risk level changed from ${from} to ${to}`,
+  },
+  tiers: {
+    upgradeRequired: (message: string) => `Upgrade required: ${message}`,
+    requiresPlan: (reason: string, required: string, current: string) =>
+      `${reason} requires the ${required} plan (current plan: ${current}). Upgrade at https://bolagsapi.se/dashboard.`,
+    tool: (tool: string) => `The ${tool} tool`,
+    option: (param: string) => `The ${param} option`,
+    batch: (size: string, limit: string) => `A batch of ${size} (limit ${limit} on your plan)`,
+  },
+};
+
+export type Messages = typeof en;
+
+const sv: Messages = {
+  common: {
+    notAvailable: "Saknas",
+    yes: "Ja",
+    no: "Nej",
+    none: "inga",
+    orgnr: "Org.nr",
+    company: "Företag",
+    name: "Namn",
+    status: "Status",
+    city: "Ort",
+    year: "År",
+    error: "Fel",
+    source: (source, updated) => `*Källa: ${source}, uppdaterad: ${updated}*`,
+    nextPage: (cursor) => `*Skicka \`cursor: "${cursor}"\` för att hämta nästa sida.*`,
+    accessDenied: (message) => `Åtkomst nekad: ${message}`,
+    apiError: (message) => `API-fel: ${message}`,
+    unexpectedError: (message) => `Oväntat fel: ${message}`,
+  },
+  riskLevels: { low: "låg", medium: "medel", high: "hög" },
+  truncation: {
+    moreItems: (count) => `*Ytterligare ${count} utelämnade för att rymmas inom max_tokens.*`,
+    olderItems: (count) => `*${count} äldre utelämnade för att rymmas inom max_tokens.*`,
+    olderYears: (count) => `*${count} äldre räkenskapsår utelämnade för att rymmas inom max_tokens.*`,
+    earlierEvents: (count, types) => `*${count} tidigare händelser: ${types}*`,
+  },
+  parts: {
+    company: "Företag",
+    financials: "Finansiell data",
+    healthScore: "Hälsopoäng",
+    financialHealth: "Finansiell hälsa",
+    timeline: "Tidslinje",
+    screening: "Kontroll",
+    notAvailable: "saknas",
+    notFound: "hittades inte",
+  },
+  company: {
+    orgnr: "Organisationsnummer",
+    form: "Bolagsform",
+    registered: "Registrerat",
+    vatNumber: "Momsregistreringsnummer",
+    deregistered: "Avregistrerat",
+    website: "Webbplats",
+    address: "Adress",
+    sniCodes: "Branschkoder (SNI)",
+    businessDescription: "Verksamhetsbeskrivning",
+    financialHealth: "Finansiell hälsa",
+    stabilityGrade: "Stabilitetsbetyg",
+    volatilityIndex: "Volatilitetsindex",
+    compositeScore: "Sammanvägd poäng",
+    financialData: "Finansiell data",
+    seeFinancialsTool: "*Använd verktyget analyze_company_financials för en detaljerad analys*",
+    notFound: "Företaget hittades inte. Kontrollera att organisationsnumret är korrekt.",
+    timelineTitle: (orgnr) => `Tidslinje för ${orgnr}`,
+    similarTitle: (orgnr) => `Företag som liknar ${orgnr}`,
+    sniMatch: "Gemensam SNI",
+  },
+  search: {
+    found: (total, query) => `Hittade **${total}** företag som matchar "${query}":`,
+    inactive: "[INAKTIVT]",
+    moreResults: (shown, total) => `*Fler resultat finns (visar ${shown} av ${total}).*`,
+  },
+  lookup: {
+    orgnrOrName: "Ange antingen orgnr eller name (inte båda).",
+    noMatch: (name) => `Inget företag matchar "${name}". Kontrollera stavningen eller använd search_companies.`,
+    ambiguous: (name) => `Flera företag matchar "${name}". Anropa lookup_company igen med organisationsnumret för rätt företag:`,
+    pick: (name) => `Flera företag matchar "${name}". Vilket menar du?`,
+    noSelection: "Inget företag valdes.",
+    active: "aktivt",
+    inactive: "inaktivt",
+  },
+  batch: {
+    summary: (total, found, failed) => `Slog upp **${total}** företag (${found} hittade, ${failed} misslyckades):`,
+    form: "Bolagsform",
+    score: "Poäng",
+    companyNotFound: "Företaget hittades inte",
+    healthScoreUnavailable: (reason) => `Hälsopoäng saknas: ${reason}`,
+    progress: (orgnr) => `Slog upp ${orgnr}`,
+  },
+  financials: {
+    title: (orgnr) => `Finansiell data för ${orgnr}`,
+    noYears: "*Inga räkenskapsår rapporterade.*",
+    trendTable: (currency) => `Trendtabell (belopp i ${currency})`,
+    metric: "Nyckeltal",
+    revenue: "Nettoomsättning",
+    revenueGrowth: "Omsättningstillväxt",
+    otherRevenue: "Övriga intäkter",
+    operatingResult: "Rörelseresultat",
+    resultBeforeTax: "Resultat före skatt",
+    netIncome: "Årets resultat",
+    netIncomeGrowth: "Resultattillväxt",
+    totalAssets: "Summa tillgångar",
+    equity: "Eget kapital",
+    cash: "Kassa och bank",
+    shortTermLiabilities: "Kortfristiga skulder",
+    longTermLiabilities: "Långfristiga skulder",
+    debtToEquity: "Skuldsättningsgrad",
+    shortTermShare: "Kortfristig andel av skulderna",
+    equityRatio: "Soliditet",
+    quickRatio: "Kassalikviditet",
+    profitMargin: "Vinstmarginal",
+    returnOnEquity: "Avkastning på eget kapital",
+    returnOnAssets: "Avkastning på totalt kapital",
+    employees: "Anställda",
+    cashRunway: "Kassans räckvidd (månader)",
+    profitable: "Lönsamt",
+    multiYearSummary: "Flerårsöversikt",
+    revenueCagr: (years) => `Genomsnittlig årlig omsättningstillväxt (${years} år)`,
+    netIncomeCagr: (years) => `Genomsnittlig årlig resultattillväxt (${years} år)`,
+    latestDebtToEquity: "Senaste skuldsättningsgrad",
+    latestShortTermShare: "Senaste kortfristiga andel av skulderna",
+    aiAnalysis: "AI-analys",
+    fiscalYear: "Räkenskapsår",
+    rating: "Betyg",
+    riskScore: "Riskpoäng",
+    summary: "Sammanfattning",
+    riskFactors: "Riskfaktorer",
+    notFound: "Ingen finansiell data hittades. Företaget har kanske inte lämnat digitala årsredovisningar.",
+  },
+  assessment: {
+    title: (orgnr) => `Finansiell bedömning av ${orgnr}`,
+    healthScore: "Hälsopoäng",
+    overallScore: "Total poäng",
+    scoreFactors: "Poängfaktorer",
+    active: "Aktivt",
+    fSkatt: "Registrerat för F-skatt",
+    companyAge: "Företagets ålder",
+    years: (years) => `${years} år`,
+    liquidationRisk: "Likvidationsrisk",
+    industryBenchmark: "Branschjämförelse",
+    industry: "Bransch",
+    industryAverage: "Branschens genomsnittspoäng",
+    percentile: "Percentil",
+    sampleSize: "Urval",
+    companies: (count) => `${count} företag`,
+    componentScores: "Delpoäng",
+    financeScore: "Finanspoäng",
+    historyScore: "Historikpoäng",
+    abilityToPay: "Betalningsförmåga",
+    ownership: "Ägande",
+    financialFlags: "Varningsflaggor",
+    publicDefaults: "Betalningsanmärkningar",
+    petitions: "Ansökningar om betalningsföreläggande",
+    negativeEquity: "Negativt eget kapital",
+    liquidation: "Pågående likvidation",
+    fiWarning: "Varning från Finansinspektionen",
+    qualifiedAudit: "Oren revisionsberättelse",
+    noFlags: "Inga betydande varningsflaggor",
+  },
+  reports: {
+    title: (name) => `Årsredovisningar för ${name}`,
+    total: (total) => `Antal årsredovisningar: **${total}**`,
+    none: "*Inga digitala årsredovisningar finns.*",
+    periodEnd: "Periodens slut",
+    format: "Format",
+    audited: "Reviderad",
+    showing: (shown, total) => `*Visar ${shown} av ${total} årsredovisningar*`,
+  },
+  compliance: {
+    title: (name) => `Sanktions- och PEP-kontroll av ${name}`,
+    screenedAt: "Kontrollerad",
+    riskAssessment: "Riskbedömning",
+    overallRiskLevel: "Samlad risknivå",
+    sanctionsHits: "Sanktionsträffar",
+    pepHits: "PEP-träffar",
+    boardMembersScreened: "Kontrollerade styrelseledamöter",
+    companyScreening: "Kontroll av företaget",
+    riskLevel: "Risknivå",
+    boardMemberScreenings: "Kontroll av styrelseledamöter",
+    sanctionsFlag: "SANKTIONER",
+    pepFlag: "PEP",
+    notFound: "Ingen data hittades. Kontrollera att indata är korrekt.",
+    auditWithheld: "Kontrollen kunde inte sparas i revisionsloggen, så resultatet hålls inne. Försök igen eller kontakta serverns administratör.",
+  },
+  industry: {
+    title: (sni) => `Branschstatistik: ${sni}`,
+    description: "Beskrivning",
+    overview: "Översikt",
+    totalCompanies: "Antal företag",
+    activeCompanies: "Aktiva företag",
+    averageAge: "Genomsnittlig ålder",
+    years: (years) => `${years} år`,
+    byOrgForm: "Per bolagsform",
+    topRegions: "Största regioner",
+    companies: (count) => `${count} företag`,
+  },
+  sni: {
+    searchTitle: (query) => `SNI-koder för "${query}"`,
+    matches: "Matchande koder",
+    noMatch: (query) => `Inga SNI-koder matchar "${query}". Prova ett annat ord, på svenska eller engelska, eller bläddra bland avdelningarna med browse_sni_codes.`,
+    code: "Kod",
+    level: "Nivå",
+    path: "Hierarki",
+    sectionsTitle: "Avdelningar i SNI 2007",
+    children: "Underkoder",
+    noChildren: "Inga underkoder; företag registreras med denna detaljgrupp.",
+    unknownCode: (code) => `Okänd SNI 2007-kod: ${code}. Använd find_sni_code för att söka på beskrivning.`,
+    notInCatalogue: (code) => `Obs: SNI-koden ${code} finns inte i den inbyggda SNI 2007-katalogen. Om resultatet ser fel ut, kontrollera koden med find_sni_code.`,
+    levels: { section: "Avdelning", division: "Huvudgrupp", group: "Grupp", class: "Undergrupp", detailed: "Detaljgrupp" },
+  },
+  audit: {
+    title: (from, to) => `Revisionslogg för kontroller ${from} till ${to}`,
+    entries: "Poster",
+    recorded: "Sparad",
+    screenedAt: "Kontrollerad",
+    risk: "Risk",
+    sanctions: "Sanktioner",
+    pep: "PEP",
+    payloadHash: "SHA-256 för svaret",
+    disabled: "Revisionsloggen för kontroller är avstängd på den här servern.",
+    invalidRange: "Ogiltigt intervall: from får inte vara efter to.",
+    readFailed: "Revisionsloggen för kontroller kunde inte läsas.",
+  },
+  comparison: {
+    title: "Företagsjämförelse",
+    noCommonYear: "*Företagen har inget gemensamt räkenskapsår; varje kolumn visar företagets senaste år.*",
+    alignedYear: (year) => `*Räkenskapsår ${year}, matchat efter det kalenderår som större delen av varje räkenskapsår infaller i.*`,
+    mixedCurrencies: (currencies) => `*Beloppen anges i varje företags redovisningsvaluta (${currencies}) och är inte omräknade.*`,
+    fiscalYearEnd: "Räkenskapsårets slut",
+    healthScore: "Hälsopoäng",
+    compositeScore: "Sammanvägd poäng",
+    stabilityGrade: "Stabilitetsbetyg",
+    revenueByYear: "Omsättning per räkenskapsår",
+    missingData: "Saknad data",
+    noData: "Ingen data kunde hämtas för något av företagen:",
+  },
+  watchlist: {
+    updated: "Bevakningslistan uppdaterad",
+    added: "Tillagda",
+    removed: "Borttagna",
+    alreadyWatched: "Bevakas redan",
+    notWatched: "Bevakas inte",
+    watched: "Bevakade företag",
+    checkTitle: "Kontroll av bevakningslistan",
+    checked: "Kontrollerade företag",
+    withChanges: "Med väsentliga förändringar",
+    baseline: "Första kontrollen (utgångsläge sparat)",
+    couldNotCheck: (error) => `⚠️ Kunde inte kontrollera ${error}`,
+    noChanges: "Inga väsentliga förändringar sedan förra kontrollen.",
+    progress: (orgnr) => `Kontrollerade ${orgnr}`,
+    error: (message) => `Fel i bevakningslistan: ${message}`,
+    statusChanged: (from, to) => `Status ändrad från ${from} till ${to}`,
+    newEvent: (type, date, description) => `Ny händelse (${type}, ${date}): ${description}`,
+    newFlag: (flag) => `Ny varningsflagga: ${flag}`,
+    flagIncreased: (flag, from, to) => `${flag} ökade från ${from} till ${to}`,
+    scoreDropped: (from, to) => `Sammanvägd poäng sjönk från ${from} till ${to}`,
+    gradeChanged: (from, to) => `Stabilitetsbetyg ändrat från ${from} till ${to}`,
+    riskChanged: (from, to) => `Risknivå vid kontroll ändrad från ${from} till ${to}`,
+  },
+  tiers: {
+    upgradeRequired: (message) => `Uppgradering krävs: ${message}`,
+    requiresPlan: (reason, required, current) =>
+      `${reason} kräver planen ${required} (nuvarande plan: ${current}). Uppgradera på https://bolagsapi.se/dashboard.`,
+    tool: (tool) => `Verktyget ${tool}`,
+    option: (param) => `Alternativet ${param}`,
+    batch: (size, limit) => `En batch på ${size} (gräns ${limit} på din plan)`,
+  },
+};
+
+const CATALOGUE: Record<Lang, Messages> = { sv, en };
+
+/** Messages for a language */
+export function messages(lang: Lang): Messages {
+  return CATALOGUE[lang];
+}
+
+/** Translate a screening risk level, keeping unknown levels as reported */
+export function riskLevel(level: string, lang: Lang): string {
+  return messages(lang).riskLevels[level.toLowerCase()] ?? level;
+}
@@ -10,18 +10,19 @@
  * Environment variables:
  * - BOLAGSAPI_URL: API base URL (default: https://api.bolagsapi.se/v1)
  * - BOLAGSAPI_KEY: API key for authentication (required)
+ * - LOG_LEVEL: debug, info, warn or error (default: info)
  */
 import { StdioServerTransport } from "@modelcontextprotocol/sdk/server/stdio.js";
 import { createServer, SERVER_VERSION } from "./server.js";
+import { logger, errorFields } from "./logger.js";
 
 /** Initialize and start the MCP server */
 async function main(): Promise<void> {
   // Validate API key is set
   if (!process.env.BOLAGSAPI_KEY) {
-    console.error(
-      "Error: BOLAGSAPI_KEY environment variable is required.\n" +
-        "Get your API key at https://bolagsapi.se/dashboard"
-    );
+    logger.error("BOLAGSAPI_KEY environment variable is required", {
+      hint: "Get your API key at https://bolagsapi.se/dashboard",
+    });
     process.exit(1);
   }
 
@@ -30,12 +31,12 @@ async function main(): Promise<void> {
   const transport = new StdioServerTransport();
   await server.connect(transport);
 
-  // Log startup (to stderr to avoid interfering with MCP protocol on stdout)
-  console.error(`BolagsAPI MCP Server v${SERVER_VERSION} started (stdio)`);
+  // Log startup (the logger writes to stderr, keeping stdout for MCP)
+  logger.info("BolagsAPI MCP Server started", { version: SERVER_VERSION, transport: "stdio" });
 }
 
 // Run the server
 main().catch((error: unknown) => {
-  console.error("Fatal error:", error);
+  logger.error("Fatal error", errorFields(error));
   process.exit(1);
 });
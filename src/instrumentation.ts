@@ -0,0 +1,59 @@
+/**
+ * Tool call metrics and logging
+ *
+ * Each register*Tools function wraps its handlers with instrumented(), so
+ * calls are counted, timed and logged with the request ID.
+ */
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { CallToolResult, ServerNotification, ServerRequest } from "@modelcontextprotocol/sdk/types.js";
+import { metrics, withToolErrorScope } from "./metrics.js";
+import { logger, errorFields } from "./logger.js";
+import { requestIdFrom } from "./api-client.js";
+
+type Extra = RequestHandlerExtra<ServerRequest, ServerNotification>;
+
+/** A tool handler taking the parsed tool arguments */
+type ToolHandler<Args> = (args: Args, extra: Extra) => CallToolResult | Promise<CallToolResult>;
+
+/** Error code for a failed result: the tool's own code, else the last upstream error */
+function resultErrorCode(result: CallToolResult, upstreamCodes: string[]): string {
+  const structured = result.structuredContent?.error;
+  if (typeof structured === "string") return structured;
+  return upstreamCodes.at(-1) ?? "tool_error";
+}
+
+/** Wrap a tool handler with metrics and logging */
+export function instrumented<Args>(tool: string, handler: ToolHandler<Args>): ToolHandler<Args> {
+  return async (args, extra) => {
+    const fields = {
+      tool,
+      request_id: requestIdFrom(extra.requestInfo),
+      client_id: extra.authInfo?.clientId,
+    };
+    const started = performance.now();
+    const elapsed = (): number => (performance.now() - started) / 1000;
+
+    try {
+      const { result, errorCodes } = await withToolErrorScope(async () => handler(args, extra));
+      const seconds = elapsed();
+      metrics.toolDuration.observe({ tool }, seconds);
+      const durationMs = Math.round(seconds * 1000);
+      if (result.isError) {
+        const errorCode = resultErrorCode(result, errorCodes);
+        metrics.toolCalls.inc({ tool, outcome: "error" });
+        metrics.toolErrors.inc({ tool, error_code: errorCode });
+        logger.warn("tool call failed", { ...fields, error_code: errorCode, duration_ms: durationMs });
+      } else {
+        metrics.toolCalls.inc({ tool, outcome: "success" });
+        logger.info("tool call", { ...fields, duration_ms: durationMs });
+      }
+      return result;
+    } catch (error) {
+      metrics.toolDuration.observe({ tool }, elapsed());
+      metrics.toolCalls.inc({ tool, outcome: "error" });
+      metrics.toolErrors.inc({ tool, error_code: "exception" });
+      logger.error("tool call threw", { ...fields, ...errorFields(error) });
+      throw error;
+    }
+  };
+}
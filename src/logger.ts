@@ -0,0 +1,39 @@
+/**
+ * Structured JSON logging
+ *
+ * One JSON object per line, always on stderr so stdout stays reserved for
+ * the MCP protocol in stdio mode.
+ *
+ * Environment variables:
+ * - LOG_LEVEL: debug, info, warn or error (default: info)
+ */
+
+type LogLevel = "debug" | "info" | "warn" | "error";
+
+const LEVELS: Record<LogLevel, number> = { debug: 10, info: 20, warn: 30, error: 40 };
+
+const MIN_LEVEL = LEVELS[(process.env.LOG_LEVEL ?? "info") as LogLevel] ?? LEVELS.info;
+
+type LogFields = Record<string, unknown>;
+
+/** Serialize an error for a log record */
+export function errorFields(error: unknown): LogFields {
+  if (error instanceof Error) {
+    return { error: error.message, error_name: error.name, stack: error.stack };
+  }
+  return { error: String(error) };
+}
+
+/** Write one log record to stderr */
+function log(level: LogLevel, msg: string, fields: LogFields = {}): void {
+  if (LEVELS[level] < MIN_LEVEL) return;
+  const record = { time: new Date().toISOString(), level, msg, ...fields };
+  process.stderr.write(`${JSON.stringify(record)}\n`);
+}
+
+export const logger = {
+  debug: (msg: string, fields?: LogFields): void => { log("debug", msg, fields); },
+  info: (msg: string, fields?: LogFields): void => { log("info", msg, fields); },
+  warn: (msg: string, fields?: LogFields): void => { log("warn", msg, fields); },
+  error: (msg: string, fields?: LogFields): void => { log("error", msg, fields); },
+};
@@ -0,0 +1,161 @@
+/**
+ * Prometheus metrics
+ *
+ * A minimal in-process registry rendered in the Prometheus text exposition
+ * format by the HTTP server's /metrics endpoint.
+ */
+import { AsyncLocalStorage } from "node:async_hooks";
+
+type Labels = Record<string, string>;
+
+/** Escape a label value for the exposition format */
+function escapeLabel(value: string): string {
+  return value.replace(/\\/g, "\\\\").replace(/"/g, '\\"').replace(/\n/g, "\\n");
+}
+
+/** Render a label set as {a="1",b="2"} */
+function formatLabels(labels: Labels): string {
+  const pairs = Object.entries(labels).map(([k, v]) => `${k}="${escapeLabel(v)}"`);
+  return pairs.length > 0 ? `{${pairs.join(",")}}` : "";
+}
+
+/** Stable key for a label set */
+function labelKey(labels: Labels): string {
+  return JSON.stringify(Object.entries(labels).sort(([a], [b]) => a.localeCompare(b)));
+}
+
+const registry: Metric[] = [];
+
+abstract class Metric {
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: "counter" | "gauge" | "histogram"
+  ) {
+    registry.push(this);
+  }
+
+  /** Sample lines for this metric */
+  abstract samples(): string[];
+
+  /** HELP, TYPE and sample lines */
+  render(): string {
+    return [`# HELP ${this.name} ${this.help}`, `# TYPE ${this.name} ${this.type}`, ...this.samples()].join("\n");
+  }
+}
+
+export class Counter extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, "counter");
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  samples(): string[] {
+    return [...this.values.values()].map((e) => `${this.name}${formatLabels(e.labels)} ${String(e.value)}`);
+  }
+}
+
+export class Gauge extends Metric {
+  private values = new Map<string, { labels: Labels; value: number }>();
+
+  constructor(name: string, help: string) {
+    super(name, help, "gauge");
+  }
+
+  inc(labels: Labels = {}, value = 1): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, value: 0 };
+    entry.value += value;
+    this.values.set(key, entry);
+  }
+
+  dec(labels: Labels = {}, value = 1): void {
+    this.inc(labels, -value);
+  }
+
+  samples(): string[] {
+    if (this.values.size === 0) return [`${this.name} 0`];
+    return [...this.values.values()].map((e) => `${this.name}${formatLabels(e.labels)} ${String(e.value)}`);
+  }
+}
+
+export class Histogram extends Metric {
+  private values = new Map<string, { labels: Labels; counts: number[]; sum: number; count: number }>();
+
+  constructor(name: string, help: string, private readonly buckets: number[]) {
+    super(name, help, "histogram");
+  }
+
+  observe(labels: Labels, value: number): void {
+    const key = labelKey(labels);
+    const entry = this.values.get(key) ?? { labels, counts: this.buckets.map(() => 0), sum: 0, count: 0 };
+    this.buckets.forEach((le, i) => {
+      if (value <= le) entry.counts[i]++;
+    });
+    entry.sum += value;
+    entry.count++;
+    this.values.set(key, entry);
+  }
+
+  samples(): string[] {
+    const lines: string[] = [];
+    for (const e of this.values.values()) {
+      this.buckets.forEach((le, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...e.labels, le: String(le) })} ${String(e.counts[i])}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...e.labels, le: "+Inf" })} ${String(e.count)}`);
+      lines.push(`${this.name}_sum${formatLabels(e.labels)} ${String(e.sum)}`);
+      lines.push(`${this.name}_count${formatLabels(e.labels)} ${String(e.count)}`);
+    }
+    return lines;
+  }
+}
+
+/** Latency buckets in seconds */
+const LATENCY_BUCKETS = [0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10];
+
+export const metrics = {
+  toolCalls: new Counter("bolagsapi_mcp_tool_calls_total", "Tool calls by tool and outcome"),
+  toolErrors: new Counter("bolagsapi_mcp_tool_errors_total", "Failed tool calls by tool and error code"),
+  toolDuration: new Histogram("bolagsapi_mcp_tool_duration_seconds", "Tool call duration", LATENCY_BUCKETS),
+  upstreamDuration: new Histogram(
+    "bolagsapi_mcp_upstream_request_duration_seconds",
+    "BolagsAPI request duration per attempt by endpoint and status",
+    LATENCY_BUCKETS
+  ),
+  upstreamErrors: new Counter("bolagsapi_mcp_upstream_errors_total", "BolagsAPI errors by endpoint and ApiError code"),
+  authFailures: new Counter("bolagsapi_mcp_auth_failures_total", "Rejected HTTP requests by authentication failure reason"),
+  rateLimited: new Counter("bolagsapi_mcp_rate_limited_total", "Requests rejected by per-client rate limits"),
+  httpRequests: new Counter("bolagsapi_mcp_http_requests_total", "HTTP requests by method, route and status"),
+  activeRequests: new Gauge("bolagsapi_mcp_active_requests", "HTTP requests currently being served"),
+};
+
+/**
+ * ApiError codes seen during the current tool call, so failed calls can be
+ * labelled with the upstream error even though tools turn it into text
+ */
+const toolErrorScope = new AsyncLocalStorage<{ errorCodes: string[] }>();
+
+/** Run a tool call while collecting the ApiError codes it encounters */
+export function withToolErrorScope<T>(fn: () => Promise<T>): Promise<{ result: T; errorCodes: string[] }> {
+  const scope = { errorCodes: [] as string[] };
+  return toolErrorScope.run(scope, async () => ({ result: await fn(), errorCodes: scope.errorCodes }));
+}
+
+/** Record an ApiError code against the current tool call, if any */
+export function recordApiErrorCode(errorCode: string): void {
+  toolErrorScope.getStore()?.errorCodes.push(errorCode);
+}
+
+/** Render all metrics in the Prometheus text format */
+export function renderMetrics(): string {
+  return `${registry.map((m) => m.render()).join("\n")}\n`;
+}
@@ -0,0 +1,459 @@
+/**
+ * Fixture data for the mock BolagsAPI backend
+ *
+ * Fictional companies covering the shapes in api-types.ts: a healthy
+ * consultancy, a growth company with a broken fiscal year, a loss-making
+ * restaurant with financial flags and a PEP hit, a partnership without
+ * digital reports and a sole trader.
+ */
+import type {
+  CompanyData,
+  FinancialsData,
+  AnalysisData,
+  HealthScore,
+  FinancialHealth,
+  TimelineData,
+  CompanyScreening,
+  IndustryStats,
+} from "../api-types.js";
+
+export interface CompanyFixture {
+  company: Omit<CompanyData, "financial_health">;
+  financials?: FinancialsData;
+  analysis?: AnalysisData;
+  health: HealthScore;
+  financialHealth?: FinancialHealth;
+  timeline: TimelineData["events"];
+  screening: CompanyScreening;
+}
+
+/** Account returned by /account/me for an API key */
+export interface AccountFixture {
+  customer_id?: string;
+  tier: "free" | "pro" | "enterprise";
+}
+
+/**
+ * Accounts by API key prefix (first match wins). Keys matching none of them
+ * get DEFAULT_ACCOUNT. The sk_test_nocustomer account has no customer ID,
+ * like keys the real API cannot attribute to a customer.
+ */
+export const ACCOUNTS: Array<{ prefix: string; account: AccountFixture }> = [
+  { prefix: "sk_test_free", account: { customer_id: "cus_mock_free", tier: "free" } },
+  { prefix: "sk_test_pro", account: { customer_id: "cus_mock_pro", tier: "pro" } },
+  { prefix: "sk_test_enterprise", account: { customer_id: "cus_mock_enterprise", tier: "enterprise" } },
+  { prefix: "sk_test_nocustomer", account: { tier: "pro" } },
+];
+
+export const DEFAULT_ACCOUNT: AccountFixture = { customer_id: "cus_mock", tier: "pro" };
+
+/** Organization numbers (10 digits) that trigger upstream error responses */
+export const ERROR_ORGNRS: Record<string, { status: number; error: string; message: string }> = {
+  "5560004037": { status: 403, error: "forbidden", message: "Your plan does not include access to this company" },
+  "5560004292": { status: 429, error: "rate_limit", message: "Rate limit exceeded" },
+  "5560005000": { status: 500, error: "internal_error", message: "Internal server error" },
+};
+
+type FiscalYear = FinancialsData["years"][0];
+
+/** Build a fiscal year with ratios derived from the figures */
+function fiscalYear(
+  start: string,
+  end: string,
+  figures: {
+    revenue: number;
+    operating: number;
+    net: number;
+    assets: number;
+    equity: number;
+    cash: number;
+    shortTerm: number;
+    longTerm: number;
+    employees: number;
+  }
+): FiscalYear {
+  const round = (value: number): number => Math.round(value * 10) / 10;
+  return {
+    fiscal_year_start: start,
+    fiscal_year_end: end,
+    is_primary: true,
+    income_statement: {
+      revenue: figures.revenue,
+      other_revenue: Math.round(figures.revenue * 0.01),
+      operating_result: figures.operating,
+      result_before_tax: figures.operating - Math.round(figures.longTerm * 0.04),
+      net_income: figures.net,
+    },
+    balance_sheet: {
+      total_assets: figures.assets,
+      equity: figures.equity,
+      cash_and_bank: figures.cash,
+      short_term_liabilities: figures.shortTerm,
+      long_term_liabilities: figures.longTerm,
+    },
+    ratios: {
+      equity_ratio: round((figures.equity / figures.assets) * 100),
+      quick_ratio: round((figures.cash / figures.shortTerm) * 100),
+      profit_margin: round((figures.operating / figures.revenue) * 100),
+      return_on_equity: round((figures.net / figures.equity) * 100),
+      return_on_assets: round((figures.operating / figures.assets) * 100),
+    },
+    employees: figures.employees,
+    report_id: `ar-${end.slice(0, 4)}`,
+  };
+}
+
+/** Build a screening result with optional PEP hits */
+function screening(queryName: string, pepHits: unknown[] = []): CompanyScreening["companyScreening"] {
+  return {
+    queryName,
+    sanctionsHits: [],
+    pepHits,
+    hasSanctionsHits: false,
+    hasPepHits: pepHits.length > 0,
+    riskLevel: pepHits.length > 0 ? "medium" : "low",
+    screenedAt: "2026-10-01T08:00:00Z",
+  };
+}
+
+/** Build a clean financial health record */
+function financialHealth(grade: string, composite: number, flags: Partial<FinancialHealth["financial_flags"]> = {}): FinancialHealth {
+  return {
+    stability_grade: grade,
+    volatility_index: 100 - composite,
+    finance_score: composite,
+    history_score: Math.min(100, composite + 5),
+    ability_to_pay_score: composite,
+    ownership_score: 70,
+    composite_score: composite,
+    financial_flags: {
+      public_defaults_count: 0,
+      public_defaults_amount: 0,
+      petitions_count: 0,
+      petitions_amount: 0,
+      has_negative_equity: false,
+      has_liquidation: false,
+      has_fi_warning: false,
+      has_qualified_audit: false,
+      ...flags,
+    },
+    _disclaimer: {
+      sv: "Bedömningen är vägledande och utgör inte en kreditupplysning.",
+      en: "The assessment is indicative and is not a credit report.",
+      applies: "financial_health",
+    },
+  };
+}
+
+const META = { source: "Bolagsverket", updated_at: "2026-10-01T06:00:00Z" };
+
+export const COMPANIES: Record<string, CompanyFixture> = {
+  "5566778899": {
+    company: {
+      orgnr: "5566778899",
+      orgnr_formatted: "556677-8899",
+      vat_number: "SE556677889901",
+      name: "Exempel Konsult AB",
+      org_form: { code: "AB", description: "Aktiebolag" },
+      status: "active",
+      registered_date: "2004-03-15",
+      address: { street: "Sveavägen 1", postal_code: "111 57", city: "Stockholm", country: "Sverige" },
+      business: {
+        description: "Konsultverksamhet inom IT och systemutveckling.",
+        sni_codes: [{ code: "62010", description: "Dataprogrammering" }],
+        nace_codes: [{ code: "62.01", description: "Computer programming activities" }],
+      },
+      tax_status: { active: true, registered_for_vat_or_employer: true, f_tax: true, vat: true, employer: true },
+      board: { total_members: 3, males: 2, females: 1, unknown_gender: 0, average_age: 52, female_percentage: 33.3 },
+      website: "https://exempelkonsult.example",
+      meta: META,
+    },
+    financials: {
+      orgnr: "5566778899",
+      currency: "SEK",
+      years: [
+        fiscalYear("2025-01-01", "2025-12-31", { revenue: 48200000, operating: 5300000, net: 4100000, assets: 26100000, equity: 14800000, cash: 8900000, shortTerm: 9100000, longTerm: 2200000, employees: 31 }),
+        fiscalYear("2024-01-01", "2024-12-31", { revenue: 44900000, operating: 4700000, net: 3600000, assets: 23800000, equity: 12900000, cash: 7600000, shortTerm: 8600000, longTerm: 2300000, employees: 29 }),
+        fiscalYear("2023-01-01", "2023-12-31", { revenue: 41300000, operating: 3900000, net: 3000000, assets: 21400000, equity: 11100000, cash: 6100000, shortTerm: 7900000, longTerm: 2400000, employees: 27 }),
+        fiscalYear("2022-01-01", "2022-12-31", { revenue: 38100000, operating: 3500000, net: 2700000, assets: 19700000, equity: 9800000, cash: 5200000, shortTerm: 7400000, longTerm: 2500000, employees: 25 }),
+        fiscalYear("2021-01-01", "2021-12-31", { revenue: 34600000, operating: 2900000, net: 2200000, assets: 18100000, equity: 8600000, cash: 4700000, shortTerm: 6900000, longTerm: 2600000, employees: 24 }),
+      ],
+    },
+    analysis: {
+      orgnr: "5566778899",
+      fiscal_year_end: "2025-12-31",
+      rating: "A",
+      risk_score: 18,
+      summary: "Stable growth with improving margins and a strong equity ratio.",
+      risk_factors: [
+        {
+          category: "customer_concentration",
+          severity: "low",
+          description_en: "A large share of revenue comes from a few public sector clients.",
+          description_sv: "En stor del av omsättningen kommer från ett fåtal offentliga kunder.",
+        },
+      ],
+    },
+    health: {
+      orgnr: "5566778899",
+      score: 86,
+      factors: { active: true, f_skatt: true, age_years: 22.6, liquidation_risk: false },
+      industry_benchmark: { sni_code: "62010", sni_description: "Dataprogrammering", average_score: 71, percentile: 88, sample_size: 24873 },
+    },
+    financialHealth: financialHealth("AA", 84),
+    timeline: [
+      { date: "2004-03-15", type: "registration", description: "Company registered" },
+      { date: "2012-06-01", type: "address_change", description: "Moved head office to Sveavägen 1, Stockholm" },
+      { date: "2019-05-20", type: "board_change", description: "New chair of the board appointed" },
+      { date: "2026-05-12", type: "annual_report", description: "Annual report for 2025 filed" },
+    ],
+    screening: {
+      orgnr: "5566778899",
+      companyName: "Exempel Konsult AB",
+      companyScreening: screening("Exempel Konsult AB"),
+      boardMemberScreenings: [
+        { name: "Anna Lindqvist", position: "Ordförande", screening: screening("Anna Lindqvist") },
+        { name: "Erik Holm", position: "Ledamot", screening: screening("Erik Holm") },
+        { name: "Johan Berg", position: "VD", screening: screening("Johan Berg") },
+      ],
+      overallRiskLevel: "low",
+      hasSanctionsHits: false,
+      hasPepHits: false,
+      screenedAt: "2026-10-01T08:00:00Z",
+    },
+  },
+  "5569123457": {
+    company: {
+      orgnr: "5569123457",
+      orgnr_formatted: "556912-3457",
+      vat_number: "SE556912345701",
+      name: "Nordlig Mjukvara AB",
+      org_form: { code: "AB", description: "Aktiebolag" },
+      status: "active",
+      registered_date: "2013-09-02",
+      address: { street: "Lindholmspiren 5", postal_code: "417 56", city: "Göteborg", country: "Sverige" },
+      business: {
+        description: "Utveckling och försäljning av programvara för logistik.",
+        sni_codes: [{ code: "62010", description: "Dataprogrammering" }, { code: "58290", description: "Utgivning av annan programvara" }],
+      },
+      tax_status: { active: true, registered_for_vat_or_employer: true, f_tax: true, vat: true, employer: true },
+      board: { total_members: 4, males: 2, females: 2, unknown_gender: 0, average_age: 44, female_percentage: 50 },
+      meta: META,
+    },
+    financials: {
+      orgnr: "5569123457",
+      currency: "SEK",
+      years: [
+        fiscalYear("2025-05-01", "2026-04-30", { revenue: 71500000, operating: 9800000, net: 7400000, assets: 52300000, equity: 30100000, cash: 18800000, shortTerm: 15200000, longTerm: 7000000, employees: 58 }),
+        fiscalYear("2024-05-01", "2025-04-30", { revenue: 55200000, operating: 6100000, net: 4500000, assets: 41800000, equity: 22700000, cash: 14100000, shortTerm: 12400000, longTerm: 6700000, employees: 47 }),
+        fiscalYear("2023-05-01", "2024-04-30", { revenue: 40100000, operating: 2600000, net: 1800000, assets: 33200000, equity: 18200000, cash: 11900000, shortTerm: 9800000, longTerm: 5200000, employees: 38 }),
+      ],
+    },
+    health: {
+      orgnr: "5569123457",
+      score: 79,
+      factors: { active: true, f_skatt: true, age_years: 13.1, liquidation_risk: false },
+      industry_benchmark: { sni_code: "62010", sni_description: "Dataprogrammering", average_score: 71, percentile: 74, sample_size: 24873 },
+    },
+    financialHealth: financialHealth("A", 77),
+    timeline: [
+      { date: "2013-09-02", type: "registration", description: "Company registered" },
+      { date: "2018-02-14", type: "fiscal_year_change", description: "Fiscal year changed to May-April" },
+      { date: "2026-08-30", type: "annual_report", description: "Annual report for 2025/26 filed" },
+    ],
+    screening: {
+      orgnr: "5569123457",
+      companyName: "Nordlig Mjukvara AB",
+      companyScreening: screening("Nordlig Mjukvara AB"),
+      boardMemberScreenings: [
+        { name: "Sara Nyström", position: "Ordförande", screening: screening("Sara Nyström") },
+        { name: "Mikael Ek", position: "VD", screening: screening("Mikael Ek") },
+      ],
+      overallRiskLevel: "low",
+      hasSanctionsHits: false,
+      hasPepHits: false,
+      screenedAt: "2026-10-01T08:00:00Z",
+    },
+  },
+  "5592048713": {
+    company: {
+      orgnr: "5592048713",
+      orgnr_formatted: "559204-8713",
+      vat_number: "SE559204871301",
+      name: "Kustkrogen i Göteborg AB",
+      org_form: { code: "AB", description: "Aktiebolag" },
+      status: "active",
+      registered_date: "2019-04-11",
+      ongoing_procedures: "Företagsrekonstruktion",
+      address: { street: "Skeppsbron 3", postal_code: "411 21", city: "Göteborg", country: "Sverige" },
+      business: {
+        description: "Restaurangverksamhet.",
+        sni_codes: [{ code: "56100", description: "Restaurangverksamhet" }],
+      },
+      tax_status: { active: true, registered_for_vat_or_employer: true, f_tax: true, vat: true, employer: true },
+      board: { total_members: 2, males: 1, females: 1, unknown_gender: 0, average_age: 49, female_percentage: 50 },
+      meta: META,
+    },
+    financials: {
+      orgnr: "5592048713",
+      currency: "SEK",
+      years: [
+        fiscalYear("2025-01-01", "2025-12-31", { revenue: 9100000, operating: -1400000, net: -1600000, assets: 3900000, equity: -300000, cash: 400000, shortTerm: 3100000, longTerm: 1100000, employees: 14 }),
+        fiscalYear("2024-01-01", "2024-12-31", { revenue: 10400000, operating: -500000, net: -650000, assets: 4600000, equity: 1300000, cash: 900000, shortTerm: 2400000, longTerm: 900000, employees: 17 }),
+        fiscalYear("2023-01-01", "2023-12-31", { revenue: 11200000, operating: 300000, net: 180000, assets: 5100000, equity: 1950000, cash: 1300000, shortTerm: 2200000, longTerm: 950000, employees: 19 }),
+      ],
+    },
+    analysis: {
+      orgnr: "5592048713",
+      fiscal_year_end: "2025-12-31",
+      rating: "C",
+      risk_score: 78,
+      summary: "Falling revenue and growing losses have eroded equity; the company is in reconstruction.",
+      risk_factors: [
+        {
+          category: "negative_equity",
+          severity: "high",
+          description_en: "Equity is negative, triggering the obligation to prepare a control balance sheet.",
+          description_sv: "Eget kapital är negativt, vilket utlöser skyldighet att upprätta kontrollbalansräkning.",
+        },
+        {
+          category: "liquidity",
+          severity: "high",
+          description_en: "Cash covers only about three months of current losses.",
+          description_sv: "Kassan räcker bara cirka tre månader med nuvarande förluster.",
+        },
+      ],
+    },
+    health: {
+      orgnr: "5592048713",
+      score: 23,
+      factors: { active: true, f_skatt: true, age_years: 7.5, liquidation_risk: true },
+      industry_benchmark: { sni_code: "56100", sni_description: "Restaurangverksamhet", average_score: 58, percentile: 9, sample_size: 21541 },
+    },
+    financialHealth: financialHealth("C", 24, {
+      public_defaults_count: 2,
+      public_defaults_amount: 184000,
+      petitions_count: 1,
+      petitions_amount: 96000,
+      has_negative_equity: true,
+    }),
+    timeline: [
+      { date: "2019-04-11", type: "registration", description: "Company registered" },
+      { date: "2025-03-03", type: "public_default", description: "Payment remark registered with Kronofogden" },
+      { date: "2025-11-20", type: "public_default", description: "Payment remark registered with Kronofogden" },
+      { date: "2026-02-09", type: "reconstruction", description: "Company reconstruction initiated" },
+    ],
+    screening: {
+      orgnr: "5592048713",
+      companyName: "Kustkrogen i Göteborg AB",
+      companyScreening: screening("Kustkrogen i Göteborg AB"),
+      boardMemberScreenings: [
+        {
+          name: "Lars Westin",
+          position: "Ordförande",
+          screening: screening("Lars Westin", [{ name: "Lars Westin", role: "Municipal councillor", country: "SE", score: 0.91 }]),
+        },
+        { name: "Maria Öberg", position: "VD", screening: screening("Maria Öberg") },
+      ],
+      overallRiskLevel: "medium",
+      hasSanctionsHits: false,
+      hasPepHits: true,
+      screenedAt: "2026-10-01T08:00:00Z",
+    },
+  },
+  "9697654326": {
+    company: {
+      orgnr: "9697654326",
+      orgnr_formatted: "969765-4326",
+      name: "Fjäll & Hav Handelsbolag",
+      org_form: { code: "HB", description: "Handelsbolag" },
+      status: "active",
+      registered_date: "2016-07-01",
+      address: { street: "Storgatan 40", postal_code: "903 26", city: "Umeå", country: "Sverige" },
+      business: {
+        description: "Detaljhandel med friluftsutrustning.",
+        sni_codes: [{ code: "47641", description: "Specialiserad butikshandel med sport- och fritidsartiklar utom cyklar och båtar" }],
+      },
+      tax_status: { active: true, registered_for_vat_or_employer: true, f_tax: true, vat: true, employer: false },
+      meta: META,
+    },
+    health: {
+      orgnr: "9697654326",
+      score: 64,
+      factors: { active: true, f_skatt: true, age_years: 10.3, liquidation_risk: false },
+    },
+    timeline: [{ date: "2016-07-01", type: "registration", description: "Company registered" }],
+    screening: {
+      orgnr: "9697654326",
+      companyName: "Fjäll & Hav Handelsbolag",
+      companyScreening: screening("Fjäll & Hav Handelsbolag"),
+      boardMemberScreenings: [],
+      overallRiskLevel: "low",
+      hasSanctionsHits: false,
+      hasPepHits: false,
+      screenedAt: "2026-10-01T08:00:00Z",
+    },
+  },
+  "8001011231": {
+    company: {
+      orgnr: "8001011231",
+      orgnr_formatted: "800101-1231",
+      name: "Svenssons Snickeri",
+      org_form: { code: "EF", description: "Enskild näringsidkare" },
+      status: "deregistered",
+      registered_date: "2008-01-10",
+      deregistered_date: "2023-12-31",
+      deregistration: { reason: "Verksamheten upphört", date: "2023-12-31" },
+      address: { postal_code: "722 10", city: "Västerås", country: "Sverige" },
+      business: {
+        sni_codes: [{ code: "43320", description: "Byggnadssnickeriarbeten" }],
+      },
+      tax_status: { active: false, registered_for_vat_or_employer: false, f_tax: false, vat: false, employer: null },
+      meta: META,
+    },
+    health: {
+      orgnr: "8001011231",
+      score: 12,
+      factors: { active: false, f_skatt: false, age_years: 18.8, liquidation_risk: false },
+    },
+    timeline: [
+      { date: "2008-01-10", type: "registration", description: "Business registered" },
+      { date: "2023-12-31", type: "deregistration", description: "Business deregistered" },
+    ],
+    screening: {
+      orgnr: "8001011231",
+      companyName: "Svenssons Snickeri",
+      companyScreening: screening("Svenssons Snickeri"),
+      boardMemberScreenings: [],
+      overallRiskLevel: "low",
+      hasSanctionsHits: false,
+      hasPepHits: false,
+      screenedAt: "2026-10-01T08:00:00Z",
+    },
+  },
+};
+
+export const INDUSTRIES: Record<string, IndustryStats> = {
+  "62010": {
+    sni_code: "62010",
+    description: "Dataprogrammering",
+    statistics: {
+      total_companies: "31208",
+      active_companies: "24873",
+      by_org_form: { AB: "21904", EF: "2412", HB: "557" },
+      by_region: { Stockholm: "11230", "Västra Götaland": "4120", "Skåne": "3310", Uppsala: "1050" },
+      avg_age_years: 9.4,
+    },
+  },
+  "56100": {
+    sni_code: "56100",
+    description: "Restaurangverksamhet",
+    statistics: {
+      total_companies: "27544",
+      active_companies: "21541",
+      by_org_form: { AB: "15320", EF: "4870", HB: "1351" },
+      by_region: { Stockholm: "6420", "Västra Götaland": "4010", "Skåne": "3120", "Östergötland": "1040" },
+      avg_age_years: 7.8,
+    },
+  },
+};
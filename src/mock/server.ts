@@ -0,0 +1,267 @@
+#!/usr/bin/env node
+/**
+ * Mock BolagsAPI backend for offline development and tests
+ *
+ * Implements every endpoint api-client.ts calls, serving fixture data from
+ * fixtures.ts. Point the MCP server at it with
+ * BOLAGSAPI_URL=http://127.0.0.1:4010/v1.
+ *
+ * Error cases:
+ * - Unknown organization numbers return 404
+ * - 556000-4037 returns 403, 556000-4292 returns 429, 556000-5000 returns 500
+ * - Keys starting with sk_test_free get the free tier, which is denied
+ *   (403) financials, analysis, financial health and screening
+ * - Keys starting with sk_test_pro and sk_test_enterprise get those tiers,
+ *   and sk_test_nocustomer keys get an account without a customer ID
+ *   (see ACCOUNTS in fixtures.ts); other keys get the pro tier
+ * - Requests without a well-formed sk_live_/sk_test_ key return 401. Only
+ *   letters and digits may follow sk_test_, so the account prefix runs
+ *   straight into the rest of the key, e.g.
+ *   sk_test_enterprise00000000000000000000000000000000; with an underscore
+ *   after "enterprise" the key is malformed
+ *
+ * Environment variables:
+ * - MOCK_PORT: HTTP port (default: 4010)
+ * - MOCK_HOST: Bind address (default: 127.0.0.1)
+ */
+import express from "express";
+import {
+  ACCOUNTS,
+  COMPANIES,
+  DEFAULT_ACCOUNT,
+  ERROR_ORGNRS,
+  INDUSTRIES,
+  type AccountFixture,
+  type CompanyFixture,
+} from "./fixtures.js";
+import type { ReportsList, SearchResult, SimilarCompanies } from "../api-types.js";
+import { logger } from "../logger.js";
+
+const PORT = parseInt(process.env.MOCK_PORT ?? "4010", 10);
+const HOST = process.env.MOCK_HOST ?? "127.0.0.1";
+
+const API_KEY_REGEX = /^sk_(live|test)_[a-zA-Z0-9]{32,}$/;
+const PAID_ENDPOINTS = new Set(["financials", "analysis", "financial-health", "screening"]);
+
+/** Send a BolagsAPI-style error response */
+function sendError(res: express.Response, status: number, error: string, message: string): void {
+  res.status(status).json({ error, message });
+}
+
+/** Read an integer query parameter */
+function intParam(value: unknown, fallback: number): number {
+  const parsed = typeof value === "string" ? parseInt(value, 10) : NaN;
+  return Number.isNaN(parsed) ? fallback : parsed;
+}
+
+/** Require a well-formed API key and record the caller's account */
+function requireApiKey(req: express.Request, res: express.Response, next: express.NextFunction): void {
+  const token = req.headers.authorization?.replace(/^Bearer\s+/i, "") ?? "";
+  if (!API_KEY_REGEX.test(token)) {
+    sendError(res, 401, "unauthorized", "Missing or invalid API key");
+    return;
+  }
+  const account = ACCOUNTS.find((entry) => token.startsWith(entry.prefix))?.account ?? DEFAULT_ACCOUNT;
+  res.locals.account = account;
+  next();
+}
+
+/** Resolve the company fixture for a request, sending errors as needed */
+function findCompany(req: express.Request, res: express.Response): CompanyFixture | undefined {
+  const orgnr = String(req.params.orgnr).replace(/\D/g, "");
+  const failure = ERROR_ORGNRS[orgnr];
+  if (failure) {
+    if (failure.status === 429) res.header("Retry-After", "1");
+    sendError(res, failure.status, failure.error, failure.message);
+    return undefined;
+  }
+  const fixture = COMPANIES[orgnr];
+  if (!fixture) {
+    sendError(res, 404, "not_found", "Company not found");
+    return undefined;
+  }
+  return fixture;
+}
+
+/** Full company profile, with optional financials enrichment */
+function companyProfile(fixture: CompanyFixture, include: string[]): object {
+  return {
+    ...fixture.company,
+    financial_health: fixture.financialHealth,
+    financials: include.includes("financials") ? fixture.financials : undefined,
+  };
+}
+
+/** Companies sharing an SNI code with the given fixture */
+function similarCompanies(fixture: CompanyFixture, limit: number, sameCity: boolean): SimilarCompanies {
+  const codes = new Set(fixture.company.business?.sni_codes?.map((s) => s.code) ?? []);
+  const city = fixture.company.address?.city;
+  const similar = Object.values(COMPANIES)
+    .filter((c) => c !== fixture)
+    .map((c) => ({
+      orgnr: c.company.orgnr,
+      name: c.company.name,
+      city: c.company.address?.city,
+      sni_match: (c.company.business?.sni_codes ?? []).map((s) => s.code).filter((code) => codes.has(code)),
+    }))
+    .filter((c) => c.sni_match.length > 0 || (sameCity && c.city === city))
+    .slice(0, limit);
+  return { orgnr: fixture.company.orgnr, similar };
+}
+
+/** Annual reports derived from the fixture's fiscal years */
+function reportsList(fixture: CompanyFixture, limit: number, offset: number): ReportsList {
+  const all = (fixture.financials?.years ?? []).map((y) => ({
+    id: y.report_id ?? `ar-${y.fiscal_year_end}`,
+    year: Number(y.fiscal_year_end.slice(0, 4)),
+    period_end: y.fiscal_year_end,
+    registered_at: `${String(Number(y.fiscal_year_end.slice(0, 4)) + 1)}-05-15`,
+    format: "ixbrl",
+    has_auditor: fixture.company.org_form.code === "AB",
+    status: "registered",
+  }));
+  const reports = all.slice(offset, offset + limit);
+  return {
+    orgnr: fixture.company.orgnr,
+    name: fixture.company.name,
+    total: all.length,
+    reports,
+    pagination: { total: all.length, returned: reports.length, offset, has_more: offset + reports.length < all.length },
+  };
+}
+
+/** Search fixtures by name and filters */
+function search(query: express.Request["query"]): SearchResult {
+  const q = String(query.q ?? "").toLowerCase();
+  const limit = intParam(query.limit, 10);
+  const offset = query.cursor ? intParam(query.cursor, 0) : intParam(query.offset, 0);
+  const matches = Object.values(COMPANIES)
+    .map((c) => c.company)
+    .filter((c) => c.name.toLowerCase().includes(q))
+    .filter((c) => !query.city || c.address?.city?.toLowerCase() === String(query.city).toLowerCase())
+    .filter((c) => !query.sni || (c.business?.sni_codes ?? []).some((s) => s.code.startsWith(String(query.sni))))
+    .filter((c) => !query.org_form || c.org_form.code === String(query.org_form).toUpperCase())
+    .filter((c) => query.active_only !== "true" || c.status === "active");
+  const results = matches.slice(offset, offset + limit).map((c) => ({
+    orgnr: c.orgnr,
+    name: c.name,
+    org_form: c.org_form.code,
+    active: c.status === "active",
+    city: c.address?.city,
+    score: c.name.toLowerCase().startsWith(q) ? 0.95 : 0.6,
+    registered_date: c.registered_date,
+    updated_at: c.meta.updated_at,
+  }));
+  const nextOffset = offset + results.length;
+  return {
+    query: String(query.q ?? ""),
+    filters: { city: query.city, sni: query.sni, org_form: query.org_form, active_only: query.active_only === "true" },
+    total: matches.length,
+    limit,
+    offset,
+    next_cursor: nextOffset < matches.length ? String(nextOffset) : undefined,
+    results,
+  };
+}
+
+/** Register company routes */
+function companyRoutes(router: express.Router): void {
+  // Free tier gating for paid endpoints
+  router.get("/company/:orgnr/:endpoint", (req, res, next) => {
+    if ((res.locals.account as AccountFixture).tier === "free" && PAID_ENDPOINTS.has(req.params.endpoint)) {
+      sendError(res, 403, "upgrade_required", "This endpoint requires the Pro plan");
+      return;
+    }
+    next();
+  });
+
+  router.get("/company/:orgnr", (req, res) => {
+    const fixture = findCompany(req, res);
+    if (fixture) res.json(companyProfile(fixture, String(req.query.include ?? "").split(",")));
+  });
+
+  router.get("/company/:orgnr/financials", (req, res) => {
+    const fixture = findCompany(req, res);
+    if (!fixture) return;
+    if (!fixture.financials) sendError(res, 404, "not_found", "No digital annual reports filed");
+    else res.json(fixture.financials);
+  });
+
+  router.get("/company/:orgnr/analysis", (req, res) => {
+    const fixture = findCompany(req, res);
+    if (!fixture) return;
+    if (!fixture.analysis) sendError(res, 404, "not_found", "No analysis available");
+    else res.json(fixture.analysis);
+  });
+
+  router.get("/company/:orgnr/health", (req, res) => {
+    const fixture = findCompany(req, res);
+    if (fixture) res.json(fixture.health);
+  });
+
+  router.get("/company/:orgnr/financial-health", (req, res) => {
+    const fixture = findCompany(req, res);
+    if (!fixture) return;
+    if (!fixture.financialHealth) sendError(res, 404, "not_found", "No financial health data available");
+    else res.json(fixture.financialHealth);
+  });
+
+  router.get("/company/:orgnr/timeline", (req, res) => {
+    const fixture = findCompany(req, res);
+    if (fixture) res.json({ orgnr: fixture.company.orgnr, events: fixture.timeline });
+  });
+
+  router.get("/company/:orgnr/similar", (req, res) => {
+    const fixture = findCompany(req, res);
+    if (fixture) res.json(similarCompanies(fixture, intParam(req.query.limit, 20), req.query.same_city !== "false"));
+  });
+
+  router.get("/company/:orgnr/reports", (req, res) => {
+    const fixture = findCompany(req, res);
+    if (fixture) res.json(reportsList(fixture, intParam(req.query.limit, 10), intParam(req.query.offset, 0)));
+  });
+
+  router.get("/company/:orgnr/screening", (req, res) => {
+    const fixture = findCompany(req, res);
+    if (fixture) res.json(fixture.screening);
+  });
+}
+
+/** Create the mock API app */
+function createMockApp(): express.Express {
+  const app = express();
+  const router = express.Router();
+  router.use(requireApiKey);
+
+  router.get("/account/me", (_req, res) => {
+    res.json({ data: res.locals.account as AccountFixture });
+  });
+
+  router.get("/search", (req, res) => {
+    res.json(search(req.query));
+  });
+
+  router.get("/industry/:sni", (req, res) => {
+    const stats = INDUSTRIES[req.params.sni];
+    if (!stats) sendError(res, 404, "not_found", "Industry not found");
+    else res.json(stats);
+  });
+
+  companyRoutes(router);
+  app.use("/v1", router);
+  return app;
+}
+
+/** Main entry point */
+function main(): void {
+  createMockApp().listen(PORT, HOST, () => {
+    logger.info("Mock BolagsAPI started", {
+      url: `http://${HOST}:${String(PORT)}/v1`,
+      keys: "any sk_test_ key (32+ letters and digits); sk_test_free, sk_test_pro, sk_test_enterprise and sk_test_nocustomer prefixes select fixture accounts, with no separator after the prefix",
+      example: "sk_test_enterprise00000000000000000000000000000000",
+    });
+  });
+}
+
+// Run
+main();
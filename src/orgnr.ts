@@ -0,0 +1,75 @@
+/**
+ * Swedish organization number validation and normalization
+ *
+ * Accepts the common ways an organization number is written and normalizes
+ * them to the canonical NNNNNN-NNNN form:
+ * - 5566778899 or 556677-8899
+ * - 16556677-8899 / 165566778899 (12-digit form with the "16" prefix)
+ * - 19/20-prefixed personnummer of sole traders, e.g. 19800101-1234
+ * - VAT numbers, e.g. SE556677889901
+ */
+
+export type OrgnrResult =
+  | { ok: true; orgnr: string }
+  | { ok: false; message: string };
+
+/** Compute the Luhn (mod-10) check digit for the first nine digits */
+export function luhnCheckDigit(digits: string): number {
+  let sum = 0;
+  for (let i = 0; i < 9; i++) {
+    let value = Number(digits[i]) * (i % 2 === 0 ? 2 : 1);
+    if (value > 9) value -= 9;
+    sum += value;
+  }
+  return (10 - (sum % 10)) % 10;
+}
+
+/** Reduce an accepted input form to its ten significant digits */
+function toTenDigits(input: string): OrgnrResult {
+  const compact = input.replace(/\s/g, "").toUpperCase();
+
+  const vat = /^SE(\d{10})01$/.exec(compact);
+  if (vat) return { ok: true, orgnr: vat[1] };
+  if (compact.startsWith("SE")) {
+    return { ok: false, message: "VAT number must be SE followed by 10 digits and 01, e.g. SE556677889901" };
+  }
+
+  if (!/^(\d{6}[-+]?\d{4}|\d{8}-?\d{4})$/.test(compact)) {
+    return { ok: false, message: "Organization number must be 10 or 12 digits, optionally with dash" };
+  }
+
+  const digits = compact.replace(/[-+]/g, "");
+  if (digits.length === 10) return { ok: true, orgnr: digits };
+
+  const prefix = digits.slice(0, 2);
+  if (prefix !== "16" && prefix !== "19" && prefix !== "20") {
+    return {
+      ok: false,
+      message: `12-digit organization numbers must start with 16, 19 or 20 (got ${prefix})`,
+    };
+  }
+  return { ok: true, orgnr: digits.slice(2) };
+}
+
+/**
+ * Validate an organization number in any accepted form and normalize it to
+ * NNNNNN-NNNN
+ */
+export function normalizeOrgnr(input: string): OrgnrResult {
+  const result = toTenDigits(input);
+  if (!result.ok) return result;
+
+  const digits = result.orgnr;
+  const expected = luhnCheckDigit(digits);
+  const actual = Number(digits[9]);
+  if (actual !== expected) {
+    return {
+      ok: false,
+      message:
+        `Invalid organization number ${input.trim()}: check digit ${String(actual)} ` +
+        `fails the Luhn (mod-10) check (expected ${String(expected)}). Check for a typo.`,
+    };
+  }
+
+  return { ok: true, orgnr: `${digits.slice(0, 6)}-${digits.slice(6)}` };
+}
@@ -0,0 +1,437 @@
+/**
+ * Zod schemas for MCP tool structured output
+ *
+ * These mirror the response types in api-types.ts so that tools can declare
+ * an outputSchema and return the upstream data as structuredContent.
+ */
+import { z } from "zod";
+
+const NullableNumber = z.number().nullable().optional();
+
+export const FinancialHealthSchema = z.object({
+  stability_grade: z.string(),
+  volatility_index: z.number(),
+  finance_score: z.number(),
+  history_score: z.number(),
+  ability_to_pay_score: z.number(),
+  ownership_score: z.number(),
+  composite_score: z.number(),
+  financial_flags: z.object({
+    public_defaults_count: z.number(),
+    public_defaults_amount: z.number(),
+    petitions_count: z.number(),
+    petitions_amount: z.number(),
+    has_negative_equity: z.boolean(),
+    has_liquidation: z.boolean(),
+    has_fi_warning: z.boolean(),
+    has_qualified_audit: z.boolean(),
+  }),
+  _disclaimer: z
+    .object({ sv: z.string(), en: z.string(), applies: z.string() })
+    .optional(),
+});
+
+const CodeDescriptionSchema = z.object({
+  code: z.string(),
+  description: z.string(),
+});
+
+export const CompanyDataSchema = z.object({
+  orgnr: z.string(),
+  orgnr_formatted: z.string(),
+  vat_number: z.string().optional(),
+  name: z.string(),
+  org_form: CodeDescriptionSchema,
+  status: z.string(),
+  registered_date: z.string(),
+  deregistered_date: z.string().nullable().optional(),
+  deregistration: z
+    .object({ reason: z.string().optional(), date: z.string().optional() })
+    .nullable()
+    .optional(),
+  ongoing_procedures: z.string().nullable().optional(),
+  address: z
+    .object({
+      street: z.string().optional(),
+      co: z.string().nullable().optional(),
+      postal_code: z.string().optional(),
+      city: z.string().optional(),
+      country: z.string().optional(),
+    })
+    .optional(),
+  business: z
+    .object({
+      description: z.string().optional(),
+      sni_codes: z.array(CodeDescriptionSchema).optional(),
+      nace_codes: z.array(CodeDescriptionSchema).optional(),
+    })
+    .optional(),
+  tax_status: z
+    .object({
+      active: z.boolean(),
+      registered_for_vat_or_employer: z.boolean(),
+      f_tax: z.boolean(),
+      vat: z.boolean(),
+      employer: z.boolean().nullable().optional(),
+    })
+    .optional(),
+  board: z
+    .object({
+      total_members: z.number(),
+      males: z.number(),
+      females: z.number(),
+      unknown_gender: z.number(),
+      average_age: z.number().optional(),
+      female_percentage: z.number(),
+    })
+    .optional(),
+  financial_health: FinancialHealthSchema.optional(),
+  website: z.string().optional(),
+  linkedin: z.string().optional(),
+  meta: z.object({ source: z.string(), updated_at: z.string() }),
+  financials: z.unknown().optional(),
+  fi: z.unknown().optional(),
+});
+
+export const SearchResultSchema = z.object({
+  query: z.string(),
+  filters: z.record(z.unknown()),
+  total: z.number(),
+  limit: z.number(),
+  offset: z.number(),
+  next_cursor: z
+    .string()
+    .optional()
+    .describe("Continuation token to pass as cursor for the next page"),
+  results: z.array(
+    z.object({
+      orgnr: z.string(),
+      name: z.string(),
+      org_form: z.string(),
+      active: z.boolean(),
+      city: z.string().optional(),
+      score: z.number().optional(),
+      registered_date: z.string().optional(),
+      updated_at: z.string().optional(),
+    })
+  ),
+});
+
+/**
+ * lookup_company output: the company, or only the candidates when a name
+ * matches several companies and the client cannot be asked to pick one
+ */
+export const LookupCompanyOutputSchema = CompanyDataSchema.partial().extend({
+  candidates: SearchResultSchema.shape.results
+    .optional()
+    .describe("Companies matching an ambiguous name; call lookup_company again with the orgnr of the right one"),
+});
+
+export const FinancialsDataSchema = z.object({
+  orgnr: z.string(),
+  currency: z.string(),
+  years: z.array(
+    z.object({
+      fiscal_year_end: z.string(),
+      fiscal_year_start: z.string().nullable().optional(),
+      is_primary: z.boolean().optional(),
+      income_statement: z.object({
+        revenue: NullableNumber,
+        other_revenue: NullableNumber,
+        operating_result: NullableNumber,
+        result_before_tax: NullableNumber,
+        net_income: NullableNumber,
+      }),
+      balance_sheet: z.object({
+        total_assets: NullableNumber,
+        equity: NullableNumber,
+        cash_and_bank: NullableNumber,
+        short_term_liabilities: NullableNumber,
+        long_term_liabilities: NullableNumber,
+      }),
+      ratios: z.object({
+        equity_ratio: NullableNumber,
+        quick_ratio: NullableNumber,
+        profit_margin: NullableNumber,
+        return_on_equity: NullableNumber,
+        return_on_assets: NullableNumber,
+      }),
+      employees: NullableNumber,
+      report_id: z.string().optional(),
+    })
+  ),
+});
+
+export const AnalysisDataSchema = z.object({
+  orgnr: z.string(),
+  fiscal_year_end: z.string(),
+  rating: z.string(),
+  risk_score: z.number(),
+  summary: z.string(),
+  risk_factors: z.array(
+    z.object({
+      category: z.string(),
+      severity: z.string(),
+      description_en: z.string(),
+      description_sv: z.string(),
+    })
+  ),
+});
+
+export const HealthScoreSchema = z.object({
+  orgnr: z.string(),
+  score: z.number(),
+  factors: z.object({
+    active: z.boolean(),
+    f_skatt: z.boolean(),
+    age_years: z.number(),
+    liquidation_risk: z.boolean(),
+  }),
+  industry_benchmark: z
+    .object({
+      sni_code: z.string(),
+      sni_description: z.string(),
+      average_score: z.number(),
+      percentile: z.number(),
+      sample_size: z.number(),
+    })
+    .optional(),
+});
+
+export const TimelineDataSchema = z.object({
+  orgnr: z.string(),
+  events: z.array(
+    z.object({ date: z.string(), type: z.string(), description: z.string() })
+  ),
+});
+
+export const SimilarCompaniesSchema = z.object({
+  orgnr: z.string(),
+  similar: z.array(
+    z.object({
+      orgnr: z.string(),
+      name: z.string(),
+      sni_match: z.array(z.string()).optional(),
+      city: z.string().optional(),
+    })
+  ),
+});
+
+export const ReportsListSchema = z.object({
+  orgnr: z.string(),
+  name: z.string(),
+  total: z.number(),
+  reports: z.array(
+    z.object({
+      id: z.string(),
+      year: z.number(),
+      period_end: z.string(),
+      registered_at: z.string(),
+      format: z.string(),
+      has_auditor: z.boolean(),
+      status: z.string(),
+    })
+  ),
+  pagination: z.object({
+    total: z.number(),
+    returned: z.number(),
+    offset: z.number(),
+    has_more: z.boolean(),
+  }),
+  next_cursor: z
+    .string()
+    .optional()
+    .describe("Continuation token to pass as cursor for the next page"),
+});
+
+const ScreeningResultSchema = z.object({
+  queryName: z.string(),
+  sanctionsHits: z.array(z.unknown()),
+  pepHits: z.array(z.unknown()),
+  hasSanctionsHits: z.boolean(),
+  hasPepHits: z.boolean(),
+  riskLevel: z.string(),
+  screenedAt: z.string(),
+});
+
+export const CompanyScreeningSchema = z.object({
+  orgnr: z.string(),
+  companyName: z.string(),
+  companyScreening: ScreeningResultSchema,
+  boardMemberScreenings: z.array(
+    z.object({
+      name: z.string(),
+      position: z.string(),
+      screening: ScreeningResultSchema,
+    })
+  ),
+  overallRiskLevel: z.string(),
+  hasSanctionsHits: z.boolean(),
+  hasPepHits: z.boolean(),
+  screenedAt: z.string(),
+});
+
+export const IndustryStatsSchema = z.object({
+  sni_code: z.string(),
+  description: z.string(),
+  statistics: z.object({
+    total_companies: z.string(),
+    active_companies: z.string(),
+    by_org_form: z.record(z.string()),
+    by_region: z.record(z.string()),
+    avg_age_years: z.number(),
+  }),
+});
+
+export const FinancialTrendsSchema = z.object({
+  years: z.array(
+    z.object({
+      fiscal_year_end: z.string(),
+      revenue_growth: z.number().nullable(),
+      net_income_growth: z.number().nullable(),
+      total_liabilities: z.number().nullable(),
+      debt_to_equity: z.number().nullable(),
+      short_term_liability_share: z.number().nullable(),
+      cash_runway_months: z.number().nullable(),
+    })
+  ),
+  revenue_cagr: z.number().nullable(),
+  net_income_cagr: z.number().nullable(),
+  cagr_period_years: z.number().nullable(),
+});
+
+// Tool outputs that combine several upstream responses
+export const LookupCompaniesBatchOutputSchema = z.object({
+  total: z.number(),
+  succeeded: z.number(),
+  failed: z.number(),
+  rows: z.array(
+    z.object({
+      input: z.string().describe("Organization number as given"),
+      orgnr: z.string().optional().describe("Normalized organization number"),
+      name: z.string().optional(),
+      org_form: z.string().optional(),
+      status: z.string().optional(),
+      city: z.string().optional(),
+      health_score: z.number().optional(),
+      error: z.string().optional().describe("Why this row failed, if it did"),
+    })
+  ),
+});
+
+export const AnalyzeFinancialsOutputSchema = z.object({
+  financials: FinancialsDataSchema,
+  trends: FinancialTrendsSchema.describe("Year-over-year and multi-year metrics derived from the financials"),
+  analysis: AnalysisDataSchema
+    .optional()
+    .describe("AI analysis, present when requested and available"),
+});
+
+export const AssessFinancialHealthOutputSchema = z.object({
+  health_score: HealthScoreSchema,
+  financial_health: FinancialHealthSchema
+    .optional()
+    .describe("Stability grade and flags, present when available"),
+});
+
+export const CompareCompaniesOutputSchema = z.object({
+  fiscal_year: z
+    .number()
+    .nullable()
+    .describe("Aligned fiscal year compared, or null if the companies share no year"),
+  companies: z.array(
+    z.object({
+      orgnr: z.string(),
+      name: z.string().optional(),
+      fiscal_year_end: z.string().optional(),
+      currency: z.string().optional().describe("Reporting currency of the company's amounts"),
+      revenue: NullableNumber,
+      operating_result: NullableNumber,
+      equity_ratio: NullableNumber,
+      profit_margin: NullableNumber,
+      employees: NullableNumber,
+      health_score: z.number().optional(),
+      composite_score: z.number().optional(),
+      stability_grade: z.string().optional(),
+      revenue_by_year: z
+        .record(z.number().nullable())
+        .describe("Revenue per aligned fiscal year"),
+      errors: z.array(z.string()).describe("Data that could not be fetched"),
+    })
+  ),
+});
+
+export const ScreeningAuditExportSchema = z.object({
+  from: z.string(),
+  to: z.string(),
+  total: z.number(),
+  entries: z.array(
+    z.object({
+      recorded_at: z.string(),
+      client_id: z.string(),
+      request_id: z.string().optional(),
+      orgnr: z.string(),
+      company_name: z.string(),
+      screened_at: z.string(),
+      overall_risk_level: z.string(),
+      sanctions_hits: z.number(),
+      pep_hits: z.number(),
+      board_members_screened: z.number(),
+      payload_sha256: z.string().describe("SHA-256 of the JSON-serialized screening payload"),
+    })
+  ),
+});
+
+export const WatchlistUpdateOutputSchema = z.object({
+  changed: z.array(z.string()).describe("Organization numbers actually added or removed"),
+  unchanged: z.array(z.string()).describe("Organization numbers that were already (or not) on the watchlist"),
+  watched: z.number().describe("Companies on the watchlist after the update"),
+});
+
+export const CheckWatchlistOutputSchema = z.object({
+  checked: z.number(),
+  checked_at: z.string(),
+  baseline: z
+    .array(z.string())
+    .describe("Organization numbers checked for the first time; their snapshot is the baseline for later checks"),
+  companies: z
+    .array(
+      z.object({
+        orgnr: z.string(),
+        name: z.string().optional(),
+        changes: z.array(
+          z.object({
+            field: z.string(),
+            from: z.union([z.string(), z.number()]).nullable().optional(),
+            to: z.union([z.string(), z.number()]).nullable().optional(),
+            description: z.string(),
+          })
+        ),
+        errors: z.array(z.string()).describe("Data that could not be fetched this time"),
+      })
+    )
+    .describe("Only companies with material changes or fetch errors"),
+});
+
+const SniEntrySchema = z.object({
+  code: z.string(),
+  level: z.enum(["section", "division", "group", "class", "detailed"]),
+  name: z.string(),
+  parent: z.string().optional(),
+});
+
+export const FindSniCodeOutputSchema = z.object({
+  query: z.string(),
+  total: z.number().describe("Matching codes, including any beyond limit"),
+  codes: z.array(
+    SniEntrySchema.extend({
+      path: z.array(z.string()).describe("Codes from the section down to this code"),
+    })
+  ),
+});
+
+export const BrowseSniCodesOutputSchema = z.object({
+  entry: SniEntrySchema.optional().describe("The browsed code; absent when listing the sections"),
+  path: z.array(SniEntrySchema).describe("Ancestors of the browsed code, from its section down"),
+  children: z.array(SniEntrySchema),
+});
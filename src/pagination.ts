@@ -0,0 +1,75 @@
+/**
+ * Continuation tokens for paginated tools
+ *
+ * BolagsAPI paginates searches with an opaque cursor or an offset, and
+ * annual reports with an offset only. Tools hand the agent a single opaque
+ * token that wraps whichever the upstream endpoint needs.
+ */
+
+/** Position of the next upstream page */
+export interface PagePosition {
+  offset?: number;
+  cursor?: string;
+  /** Items at the start of the page that were already returned */
+  skip?: number;
+}
+
+/** Encode a page position as an opaque continuation token */
+export function encodeCursor(position: PagePosition): string {
+  return Buffer.from(JSON.stringify(position)).toString("base64url");
+}
+
+/** Decode a continuation token produced by encodeCursor */
+export function decodeCursor(token: string): PagePosition {
+  try {
+    const position = JSON.parse(Buffer.from(token, "base64url").toString("utf8")) as PagePosition | null;
+    if (typeof position !== "object" || position === null) throw new Error("not an object");
+    const validOffset = position.offset === undefined || (Number.isInteger(position.offset) && position.offset >= 0);
+    const validCursor = position.cursor === undefined || typeof position.cursor === "string";
+    const validSkip = position.skip === undefined || (Number.isInteger(position.skip) && position.skip >= 0);
+    if (validOffset && validCursor && validSkip) {
+      return { offset: position.offset, cursor: position.cursor, skip: position.skip };
+    }
+  } catch {
+    // fall through to the error below
+  }
+  throw new Error("Invalid cursor. Pass the next_cursor value from a previous response unchanged.");
+}
+
+/**
+ * Position within the page at `position` after `consumed` of its items. An
+ * offset can point there directly; a cursor page is fetched again and the
+ * consumed items skipped.
+ */
+function positionWithin(position: PagePosition, consumed: number): PagePosition {
+  if (position.cursor === undefined) return { offset: (position.offset ?? 0) + consumed };
+  return { cursor: position.cursor, skip: consumed };
+}
+
+/**
+ * Fetch pages until `maxResults` items are collected or there are no more.
+ * Returns at most `maxResults` items and the position of the first item
+ * not returned, also when upstream sends more than the requested limit.
+ */
+export async function collectPages<T>(
+  start: PagePosition,
+  maxResults: number,
+  pageSize: number,
+  fetchPage: (position: PagePosition, limit: number) => Promise<{ items: T[]; next?: PagePosition }>
+): Promise<{ items: T[]; next?: PagePosition }> {
+  const items: T[] = [];
+  let position: PagePosition | undefined = start;
+  while (position && items.length < maxResults) {
+    const wanted = maxResults - items.length;
+    const skip = position.skip ?? 0;
+    const page = await fetchPage(position, Math.min(pageSize, wanted) + skip);
+    const pageItems = page.items.slice(skip);
+    if (pageItems.length > wanted) {
+      items.push(...pageItems.slice(0, wanted));
+      return { items, next: positionWithin(position, skip + wanted) };
+    }
+    items.push(...pageItems);
+    position = pageItems.length > 0 ? page.next : undefined;
+  }
+  return { items, next: position };
+}
@@ -0,0 +1,29 @@
+/**
+ * Progress notifications for long-running tool calls
+ */
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { logger, errorFields } from "./logger.js";
+
+/**
+ * Report progress when the client asked for it. A notification that cannot
+ * be sent (e.g. the transport closed) is logged rather than thrown, so it
+ * never fails the work it reports on.
+ */
+export async function sendProgress(
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>,
+  progress: number,
+  total: number,
+  message: string
+): Promise<void> {
+  const progressToken = extra._meta?.progressToken;
+  if (progressToken === undefined) return;
+  try {
+    await extra.sendNotification({
+      method: "notifications/progress",
+      params: { progressToken, progress, total, message },
+    });
+  } catch (error) {
+    logger.warn("Failed to send progress notification", errorFields(error));
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Built-in MCP prompts for common analyst workflows
+ *
+ * Each prompt tells the agent which tools to call for a company and how to
+ * structure the final memo. The organization number argument completes from
+ * a company name search; the competitor scan's optional city and org_form
+ * arguments complete from the bundled municipality and organization form
+ * lists.
+ */
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { GetPromptResult } from "@modelcontextprotocol/sdk/types.js";
+import { z } from "zod";
+import { OrgnrSchema, LangSchema } from "./schemas.js";
+import { withCompletion, type Completers } from "./completions.js";
+
+interface PromptDefinition {
+  name: string;
+  title: string;
+  description: string;
+  /** Goal of the workflow, completed with the organization number */
+  goal: (orgnr: string) => string;
+  /** Tool calls to make, in order */
+  steps: string[];
+  /** Headings of the final memo */
+  sections: string[];
+  /** Accepts the optional city and org_form arguments that narrow the peers */
+  peerFilters?: boolean;
+}
+
+/** Optional arguments narrowing the peers of a competitor scan */
+interface PeerFilters {
+  city?: string;
+  org_form?: string;
+}
+
+const PROMPTS: PromptDefinition[] = [
+  {
+    name: "due_diligence",
+    title: "Due diligence",
+    description: "Full due diligence memo on a Swedish company",
+    goal: (orgnr) => `Perform a due diligence review of the Swedish company with organization number ${orgnr}.`,
+    steps: [
+      "`lookup_company` with `include_financials: true` for the company profile, status and industry codes",
+      "`analyze_company_financials` with `include_analysis: true` for multi-year financials and risk factors",
+      "`assess_financial_health` for the health score, stability grade and financial flags",
+      "`get_compliance_data` for the board members (name and position) and sanctions and PEP screening of the company and each of them",
+      "`get_similar_companies` to identify peers for context",
+    ],
+    sections: [
+      "Executive summary (3-5 sentences, including an overall recommendation)",
+      "Company overview",
+      "Financial performance and trends",
+      "Financial health and flags",
+      "Compliance and screening results",
+      "Peer context",
+      "Key risks and open questions",
+    ],
+  },
+  {
+    name: "kyc_onboarding",
+    title: "KYC onboarding",
+    description: "Know-your-customer check before onboarding a Swedish company",
+    goal: (orgnr) => `Carry out a KYC onboarding check for the Swedish company with organization number ${orgnr}.`,
+    steps: [
+      "`lookup_company` to verify legal name, organization form, registration status and address",
+      "`get_compliance_data` to screen the company and its board members against sanctions and PEP lists",
+      "`assess_financial_health` to check for liquidation, public defaults and other financial flags",
+    ],
+    sections: [
+      "Onboarding decision (approve, approve with enhanced due diligence, or reject)",
+      "Verified company identity",
+      "Sanctions and PEP screening results, per board member",
+      "Red flags",
+      "Required follow-up actions",
+    ],
+  },
+  {
+    name: "credit_review",
+    title: "Credit review",
+    description: "Credit review of a Swedish company's ability to pay",
+    goal: (orgnr) => `Review the creditworthiness of the Swedish company with organization number ${orgnr}.`,
+    steps: [
+      "`assess_financial_health` for the health score, stability grade, component scores and financial flags",
+      "`analyze_company_financials` with `include_analysis: true` for revenue, results, equity ratio and liquidity over time",
+      "`lookup_company` for company age, status and ongoing procedures",
+    ],
+    sections: [
+      "Credit recommendation (suggested limit or terms, with confidence)",
+      "Ability to pay",
+      "Financial trends",
+      "Financial flags and payment history",
+      "Risk factors",
+    ],
+  },
+  {
+    name: "competitor_scan",
+    title: "Competitor scan",
+    description: "Scan of a Swedish company's closest competitors",
+    goal: (orgnr) => `Map the competitive landscape around the Swedish company with organization number ${orgnr}.`,
+    steps: [
+      "`lookup_company` for the target company's industry codes and location",
+      "`get_similar_companies` to find peers by industry and location",
+      "`analyze_company_financials` for the target and the most relevant peers (at most five) to compare revenue, margins and growth",
+    ],
+    sections: [
+      "Summary of the competitive position",
+      "Target company profile",
+      "Competitor table (name, org nr, city, revenue, profit margin, employees)",
+      "Notable differences and trends",
+    ],
+    peerFilters: true,
+  },
+];
+
+/** Instruction narrowing the peers to the given city and organization form, if any */
+function peerFilterStep(filters: PeerFilters): string | undefined {
+  const { city, org_form: orgForm } = filters;
+  if (!city && !orgForm) return undefined;
+  const scope = [city && `in ${city}`, orgForm && `with organization form ${orgForm}`].filter(Boolean).join(" ");
+  const args = [city && `\`city: "${city}"\``, orgForm && `\`org_form: "${orgForm}"\``].filter(Boolean).join(" and ");
+  return `Only consider competitors ${scope}: also call \`search_companies\` with the target's SNI code plus ${args}, and leave out peers that do not match.`;
+}
+
+/** Render a prompt definition into the user message text */
+function renderPrompt(prompt: PromptDefinition, orgnr: string, lang: "sv" | "en", filters: PeerFilters): string {
+  const language = lang === "sv" ? "Swedish" : "English";
+  const filterStep = prompt.peerFilters ? peerFilterStep(filters) : undefined;
+  return [
+    prompt.goal(orgnr),
+    "",
+    "Call these BolagsAPI tools in order:",
+    ...prompt.steps.map((step, i) => `${String(i + 1)}. ${step}`),
+    ...(filterStep ? ["", filterStep] : []),
+    "",
+    "If a tool returns an error or no data, note it in the memo instead of guessing.",
+    "",
+    `Write the final memo in ${language} with these sections:`,
+    ...prompt.sections.map((section) => `- ${section}`),
+    "",
+    "Cite the figures you rely on and state the fiscal year they refer to.",
+  ].join("\n");
+}
+
+/** Register all prompts with the MCP server */
+export function registerPrompts(server: McpServer, completers: Completers): void {
+  const argsSchema = {
+    orgnr: withCompletion(OrgnrSchema, completers.orgnr),
+    lang: LangSchema,
+  };
+  const peerArgsSchema = {
+    ...argsSchema,
+    city: withCompletion(
+      z.string().optional().describe("Only consider competitors in this municipality, e.g. Göteborg"),
+      (value) => completers.city(value ?? "")
+    ),
+    org_form: withCompletion(
+      z.string().optional().describe("Only consider competitors with this organization form (AB, HB, EK, etc.)"),
+      (value) => completers.orgForm(value ?? "")
+    ),
+  };
+  for (const prompt of PROMPTS) {
+    server.registerPrompt(prompt.name, {
+      title: prompt.title,
+      description: prompt.description,
+      argsSchema: prompt.peerFilters ? peerArgsSchema : argsSchema,
+    }, (args: { orgnr: string; lang: "sv" | "en" } & PeerFilters): GetPromptResult => ({
+      description: prompt.description,
+      messages: [{
+        role: "user",
+        content: { type: "text", text: renderPrompt(prompt, args.orgnr, args.lang, args) },
+      }],
+    }));
+  }
+}
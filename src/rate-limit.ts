@@ -0,0 +1,189 @@
+/**
+ * Per-client rate limits and quotas for the HTTP transport
+ *
+ * Budgets are keyed on the authenticated client (customer ID, or a hash of
+ * the API key when the backend did not return one) and sized by tier.
+ * MCP messages, tool calls and expensive tool calls are counted separately,
+ * plus a daily tool call quota. Windows are fixed and aligned to the epoch,
+ * so every replica sharing a store agrees on when a window resets.
+ */
+import type express from "express";
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import { tierFromAuth, type Tier } from "./tiers.js";
+import { metrics } from "./metrics.js";
+import { logger, errorFields } from "./logger.js";
+import { callerId } from "./auth.js";
+
+/** Counter storage; implement this over e.g. Redis to share limits between replicas */
+export interface RateLimitStore {
+  /**
+   * Add amount to the counter for key in the window containing now and
+   * return the new count. A negative amount undoes an earlier increment.
+   */
+  increment(key: string, windowMs: number, now: number, amount?: number): Promise<{ count: number; resetAt: number }>;
+}
+
+/** In-process store; limits are per replica */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private counters = new Map<string, { count: number; resetAt: number }>();
+
+  constructor(private readonly maxKeys = 100000) {}
+
+  async increment(key: string, windowMs: number, now: number, amount = 1): Promise<{ count: number; resetAt: number }> {
+    const resetAt = (Math.floor(now / windowMs) + 1) * windowMs;
+    const storeKey = `${key}:${String(resetAt)}`;
+    const counter = this.counters.get(storeKey) ?? { count: 0, resetAt };
+    counter.count += amount;
+    this.counters.set(storeKey, counter);
+
+    if (this.counters.size > this.maxKeys) this.prune(now);
+    return Promise.resolve({ ...counter });
+  }
+
+  /** Drop counters of windows that have ended */
+  private prune(now: number): void {
+    for (const [key, counter] of this.counters) {
+      if (counter.resetAt <= now) this.counters.delete(key);
+    }
+  }
+}
+
+interface Limit {
+  /** Name reported to clients */
+  scope: "requests" | "tool_calls" | "expensive_tool_calls" | "daily_tool_calls";
+  windowMs: number;
+  max: Record<Tier, number>;
+  /** Which messages count against this limit */
+  applies: (message: JsonRpcMessage) => boolean;
+}
+
+interface JsonRpcMessage {
+  id?: string | number | null;
+  method?: string;
+  params?: { name?: unknown };
+}
+
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/** Tools that fan out to several or costly upstream calls */
+export const EXPENSIVE_TOOLS = new Set([
+  "analyze_company_financials",
+  "check_watchlist",
+  "compare_companies",
+  "get_compliance_data",
+  "lookup_companies_batch",
+]);
+
+const isToolCall = (m: JsonRpcMessage): boolean => m.method === "tools/call";
+
+const LIMITS: Limit[] = [
+  {
+    scope: "requests",
+    windowMs: MINUTE_MS,
+    max: { free: 120, pro: 600, enterprise: 3000 },
+    applies: () => true,
+  },
+  {
+    scope: "tool_calls",
+    windowMs: MINUTE_MS,
+    max: { free: 30, pro: 120, enterprise: 600 },
+    applies: isToolCall,
+  },
+  {
+    scope: "expensive_tool_calls",
+    windowMs: MINUTE_MS,
+    max: { free: 5, pro: 30, enterprise: 150 },
+    applies: (m) => isToolCall(m) && typeof m.params?.name === "string" && EXPENSIVE_TOOLS.has(m.params.name),
+  },
+  {
+    scope: "daily_tool_calls",
+    windowMs: DAY_MS,
+    max: { free: 500, pro: 10000, enterprise: 100000 },
+    applies: isToolCall,
+  },
+];
+
+/** JSON-RPC messages in a request body (single or batch) */
+function messagesOf(body: unknown): JsonRpcMessage[] {
+  const items: unknown[] = Array.isArray(body) ? body : [body];
+  return items.filter((m): m is JsonRpcMessage => typeof m === "object" && m !== null);
+}
+
+/**
+ * Express middleware enforcing per-client limits. Must run after API key
+ * authentication; requests without auth info are passed through.
+ */
+export function rateLimitByClient(store: RateLimitStore): express.RequestHandler {
+  return (req, res, next) => {
+    const authInfo = req.auth;
+    if (!authInfo) {
+      next();
+      return;
+    }
+
+    const tier = tierFromAuth(authInfo) ?? "free";
+    const key = callerId(authInfo);
+    const messages = messagesOf(req.body);
+    const now = Date.now();
+
+    // Count the request against every limit, and undo all of it when one
+    // is exceeded, so a rejected request uses up none of the budgets
+    const check = async (): Promise<void> => {
+      const counted = await Promise.all(
+        LIMITS.map(async (limit) => {
+          // GET and DELETE carry no body but still count as requests
+          const hits = limit.scope === "requests" ? 1 : messages.filter(limit.applies).length;
+          if (hits === 0) return undefined;
+          const { count, resetAt } = await store.increment(`${key}:${limit.scope}`, limit.windowMs, now, hits);
+          return { limit, hits, count, resetAt };
+        })
+      );
+      const exceeded = counted.find((c) => c !== undefined && c.count > c.limit.max[tier]);
+      if (!exceeded) {
+        next();
+        return;
+      }
+      await Promise.all(
+        counted.map((c) => c && store.increment(`${key}:${c.limit.scope}`, c.limit.windowMs, now, -c.hits))
+      );
+      sendRateLimited(res, exceeded.limit, tier, exceeded.resetAt, messages);
+    };
+
+    check().catch((error: unknown) => {
+      // A failing store must not take the service down
+      logger.error("Rate limit store error", errorFields(error));
+      next();
+    });
+  };
+}
+
+/** Reject a request with a JSON-RPC error carrying the reset time */
+function sendRateLimited(
+  res: express.Response,
+  limit: Limit,
+  tier: Tier,
+  resetAt: number,
+  messages: JsonRpcMessage[]
+): void {
+  const retryAfter = Math.max(1, Math.ceil((resetAt - Date.now()) / 1000));
+  const resetIso = new Date(resetAt).toISOString();
+  const label = limit.scope.replace(/_/g, " ");
+  metrics.rateLimited.inc({ scope: limit.scope, tier });
+  res.set("Retry-After", String(retryAfter));
+  res.status(429).json({
+    jsonrpc: "2.0",
+    error: {
+      code: -32000,
+      message: `Rate limit exceeded: ${String(limit.max[tier])} ${label} per ${limit.windowMs === DAY_MS ? "day" : "minute"} on the ${tier} plan. Resets at ${resetIso}.`,
+      data: {
+        scope: limit.scope,
+        limit: limit.max[tier],
+        tier,
+        reset_at: resetIso,
+        retry_after_seconds: retryAfter,
+      },
+    },
+    id: messages.find((m) => m.id !== undefined)?.id ?? null,
+  });
+}
@@ -0,0 +1,120 @@
+/**
+ * MCP resources backed by the BolagsAPI client
+ *
+ * Exposes company profiles, financials, timelines, annual reports and
+ * industry statistics as resource templates, so clients can attach them as
+ * context without a tool call. Each resource is returned both as JSON and
+ * as the same markdown the corresponding tool produces. Template variables
+ * complete through the server's completers.
+ */
+import {
+  ResourceTemplate,
+  type McpServer,
+} from "@modelcontextprotocol/sdk/server/mcp.js";
+import { McpError, ErrorCode } from "@modelcontextprotocol/sdk/types.js";
+import type { ReadResourceResult } from "@modelcontextprotocol/sdk/types.js";
+import type { Variables } from "@modelcontextprotocol/sdk/shared/uriTemplate.js";
+import { z } from "zod";
+import { OrgnrSchema, GetIndustryStatsInputSchema } from "./schemas.js";
+import {
+  getCompany,
+  getFinancials,
+  getTimeline,
+  getReports,
+  getIndustryStats,
+  requestContext,
+} from "./api-client.js";
+import { formatCompanyResponse, formatTimelineResponse } from "./tools/company.js";
+import { formatFinancialsResponse, formatReportsResponse } from "./tools/financials.js";
+import { formatIndustryResponse } from "./tools/compliance.js";
+import { DEFAULT_LANG } from "./i18n.js";
+import type { Completers } from "./completions.js";
+
+/** Read and validate a single URI template variable */
+function readVariable(variables: Variables, name: string, schema: z.ZodType<string>): string {
+  const raw = variables[name];
+  const value = Array.isArray(raw) ? raw[0] : raw;
+  const result = schema.safeParse(value === undefined ? undefined : decodeURIComponent(value));
+  if (!result.success) {
+    const message = result.error.issues[0]?.message ?? "Invalid value";
+    throw new McpError(ErrorCode.InvalidParams, `Invalid ${name}: ${message}`);
+  }
+  return result.data;
+}
+
+/** Build a resource result with JSON and markdown representations */
+function toContents(uri: URL, data: unknown, markdown: string): ReadResourceResult {
+  return {
+    contents: [
+      { uri: uri.href, mimeType: "application/json", text: JSON.stringify(data, null, 2) },
+      { uri: uri.href, mimeType: "text/markdown", text: markdown },
+    ],
+  };
+}
+
+/** Register company resource templates */
+function registerCompanyResources(server: McpServer, completers: Completers): void {
+  const template = { list: undefined, complete: { orgnr: completers.orgnr } };
+
+  server.registerResource("company", new ResourceTemplate("bolagsapi://company/{orgnr}", template), {
+    title: "Company profile",
+    description: "Basic company information for a Swedish organization number",
+    mimeType: "application/json",
+  }, async (uri, variables, extra) => {
+    const orgnr = readVariable(variables, "orgnr", OrgnrSchema);
+    const data = await getCompany(orgnr, {}, requestContext(extra));
+    return toContents(uri, data, formatCompanyResponse(data, DEFAULT_LANG));
+  });
+
+  server.registerResource("company-financials", new ResourceTemplate("bolagsapi://company/{orgnr}/financials", template), {
+    title: "Company financials",
+    description: "Multi-year financial data from annual reports",
+    mimeType: "application/json",
+  }, async (uri, variables, extra) => {
+    const orgnr = readVariable(variables, "orgnr", OrgnrSchema);
+    const data = await getFinancials(orgnr, requestContext(extra));
+    return toContents(uri, data, formatFinancialsResponse(data, DEFAULT_LANG));
+  });
+
+  server.registerResource("company-timeline", new ResourceTemplate("bolagsapi://company/{orgnr}/timeline", template), {
+    title: "Company timeline",
+    description: "Historical events for a company",
+    mimeType: "application/json",
+  }, async (uri, variables, extra) => {
+    const orgnr = readVariable(variables, "orgnr", OrgnrSchema);
+    const data = await getTimeline(orgnr, undefined, requestContext(extra));
+    return toContents(uri, data, formatTimelineResponse(data, DEFAULT_LANG));
+  });
+
+  server.registerResource("company-reports", new ResourceTemplate("bolagsapi://company/{orgnr}/reports", template), {
+    title: "Annual reports",
+    description: "Available annual reports for a company",
+    mimeType: "application/json",
+  }, async (uri, variables, extra) => {
+    const orgnr = readVariable(variables, "orgnr", OrgnrSchema);
+    const data = await getReports(orgnr, {}, requestContext(extra));
+    return toContents(uri, data, formatReportsResponse(data, DEFAULT_LANG));
+  });
+}
+
+/** Register industry resource templates */
+function registerIndustryResources(server: McpServer, completers: Completers): void {
+  server.registerResource("industry", new ResourceTemplate("bolagsapi://industry/{sni}", {
+    list: undefined,
+    complete: { sni: completers.sni },
+  }), {
+    title: "Industry statistics",
+    description: "Industry statistics and benchmarks by SNI code",
+    mimeType: "application/json",
+  }, async (uri, variables, extra) => {
+    const sni = readVariable(variables, "sni", GetIndustryStatsInputSchema.shape.sni_code);
+    const data = await getIndustryStats(sni, undefined, requestContext(extra));
+    return toContents(uri, data, formatIndustryResponse(data, DEFAULT_LANG));
+  });
+}
+
+/** Register all resource templates with the MCP server */
+export function registerResources(server: McpServer, completers: Completers): void {
+  registerCompanyResources(server, completers);
+  registerIndustryResources(server, completers);
+}
@@ -0,0 +1,59 @@
+/**
+ * In-memory LRU cache for BolagsAPI responses
+ *
+ * Bounded by the approximate size of the cached response bodies. Expired
+ * entries are kept until evicted so they can be revalidated with their ETag.
+ */
+
+export interface CacheEntry {
+  data: unknown;
+  etag?: string;
+  /** Epoch millis after which the entry must be revalidated */
+  expiresAt: number;
+  /** Approximate size in bytes (length of the response body) */
+  size: number;
+}
+
+export class ResponseCache {
+  private entries = new Map<string, CacheEntry>();
+  private totalSize = 0;
+
+  constructor(private readonly maxBytes: number) {}
+
+  /** Get an entry (fresh or stale) and mark it as recently used */
+  get(key: string): CacheEntry | undefined {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.entries.set(key, entry);
+    }
+    return entry;
+  }
+
+  /** Store an entry, evicting least recently used entries beyond the bound */
+  set(key: string, entry: CacheEntry): void {
+    this.delete(key);
+    if (entry.size > this.maxBytes) return;
+
+    this.entries.set(key, entry);
+    this.totalSize += entry.size;
+
+    for (const oldest of this.entries.keys()) {
+      if (this.totalSize <= this.maxBytes) break;
+      this.delete(oldest);
+    }
+  }
+
+  /** Remove an entry */
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (!entry) return;
+    this.entries.delete(key);
+    this.totalSize -= entry.size;
+  }
+
+  /** Total approximate size of cached bodies in bytes */
+  get size(): number {
+    return this.totalSize;
+  }
+}
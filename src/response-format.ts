@@ -0,0 +1,119 @@
+/**
+ * Response formats and token budgets for tool output
+ *
+ * Every tool accepts `response_format` (markdown, compact or json) and an
+ * optional `max_tokens` budget for its text content. A tool describes its
+ * output as a view that can be rendered with fewer list items (fiscal years,
+ * events, rows); when the full rendering exceeds the budget, the largest
+ * number of items that fits is shown instead. structuredContent is never
+ * reduced.
+ */
+import type { z } from "zod";
+import type { ResponseFormatSchema } from "./schemas.js";
+
+export type ResponseFormat = z.infer<typeof ResponseFormatSchema>;
+
+/** Output options shared by every tool */
+export interface OutputOptions {
+  response_format: ResponseFormat;
+  max_tokens?: number;
+}
+
+/** A tool result that can be rendered with fewer list items */
+export interface OutputView {
+  /** Number of items that may be left out to fit the budget */
+  items: number;
+  /** Markdown showing `shown` of the items */
+  markdown: (shown: number) => string;
+  /** JSON value showing `shown` of the items */
+  json: (shown: number) => unknown;
+}
+
+/** Approximate characters per token for budget estimates */
+const CHARS_PER_TOKEN = 4;
+
+/** Rough token count of a text */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+/** A view whose output cannot be reduced item by item */
+export function fixedView(markdown: string, data: unknown): OutputView {
+  return { items: 0, markdown: () => markdown, json: () => data };
+}
+
+/** The last `shown` items of an oldest-first list */
+export function keepLast<T>(items: T[], shown: number): T[] {
+  return shown >= items.length ? items : items.slice(items.length - shown);
+}
+
+/** Replace a list in a JSON result with its shown part, recording how many items were left out */
+export function truncatedJson<T extends object>(data: T, field: keyof T & string, kept: unknown[], omitted: number): unknown {
+  return omitted > 0 ? { ...data, [field]: kept, truncated: { field, omitted } } : { ...data, [field]: kept };
+}
+
+/**
+ * Strip markdown decoration for the compact format: headings, emphasis,
+ * table borders and blank lines
+ */
+export function compactText(markdown: string): string {
+  const lines: string[] = [];
+  for (const raw of markdown.split("\n")) {
+    let line = raw.trim();
+    if (line === "" || /^\|[\s|:-]+\|$/.test(line)) continue;
+    line = line
+      .replace(/^#{1,6}\s+/, "")
+      .replace(/\*\*(.+?)\*\*/g, "$1")
+      .replace(/^\*(.+)\*$/, "$1");
+    if (line.startsWith("|") && line.endsWith("|")) {
+      line = line.slice(1, -1).split("|").map((cell) => cell.trim()).join(" | ");
+    }
+    lines.push(line);
+  }
+  return lines.join("\n");
+}
+
+/** Render a view with the given number of items in the requested format */
+function renderView(view: OutputView, shown: number, format: ResponseFormat): string {
+  switch (format) {
+    case "json":
+      return JSON.stringify(view.json(shown));
+    case "compact":
+      return compactText(view.markdown(shown));
+    default:
+      return view.markdown(shown);
+  }
+}
+
+/**
+ * Render a tool result as text in the requested format, within max_tokens.
+ * Markdown and compact output that still exceeds the budget with no items
+ * left is cut off; JSON is never cut, so it always parses.
+ */
+export function renderOutput(options: OutputOptions, view: OutputView): string {
+  const format = options.response_format;
+  const full = renderView(view, view.items, format);
+  const budget = options.max_tokens;
+  if (budget === undefined || estimateTokens(full) <= budget) return full;
+
+  // Largest number of items that fits; output grows with the item count
+  let low = 0;
+  let high = view.items - 1;
+  let best: string | undefined;
+  while (low <= high) {
+    const mid = Math.floor((low + high) / 2);
+    const text = renderView(view, mid, format);
+    if (estimateTokens(text) <= budget) {
+      best = text;
+      low = mid + 1;
+    } else {
+      high = mid - 1;
+    }
+  }
+  if (best !== undefined) return best;
+
+  const smallest = renderView(view, 0, format);
+  if (format === "json" || estimateTokens(smallest) <= budget) return smallest;
+  const marker = "\n…";
+  return smallest.slice(0, Math.max(0, budget * CHARS_PER_TOKEN - marker.length)) + marker;
+}
@@ -2,25 +2,54 @@
  * Zod schemas for MCP tool input validation
  */
 import { z } from "zod";
+import { normalizeOrgnr } from "./orgnr.js";
 
-// Swedish organization number: 10 digits, with or without dash
-// Formats: 5566778899, 556677-8899, 16XXXXXXXXXX (for personnummer-based)
+// Swedish organization number, validated with the Luhn check digit and
+// normalized to NNNNNN-NNNN. See orgnr.ts for the accepted formats.
 export const OrgnrSchema = z
   .string()
-  .regex(
-    /^(\d{6}-?\d{4}|\d{10}|\d{12})$/,
-    "Organization number must be 10-12 digits, optionally with dash"
-  )
+  .transform((value, ctx) => {
+    const result = normalizeOrgnr(value);
+    if (!result.ok) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: result.message });
+      return z.NEVER;
+    }
+    return result.orgnr;
+  })
   .describe(
-    "Swedish organization number (organisationsnummer). Examples: 5566778899, 556677-8899"
+    "Swedish organization number (organisationsnummer). Examples: 5566778899, 556677-8899, 16556677-8899, SE556677889901"
   );
 
+// SNI 2007 industry code at any level. Codes missing from the bundled
+// catalogue are still accepted and flagged in the tool result (see tools/sni.ts)
+export const SniCodeSchema = z
+  .string()
+  .regex(/^\d{2,5}$/, "SNI code must be 2-5 digits");
+
 // Common optional parameters
 export const LangSchema = z
   .enum(["sv", "en"])
   .default("sv")
   .describe("Response language: 'sv' for Swedish (default), 'en' for English");
 
+// Output options shared by every tool (see response-format.ts)
+export const ResponseFormatSchema = z
+  .enum(["markdown", "compact", "json"])
+  .default("markdown")
+  .describe(
+    "Output format: 'markdown' (default), 'compact' for terse plain text, or 'json' for the raw data as JSON"
+  );
+
+export const MaxTokensSchema = z
+  .number()
+  .int()
+  .min(100)
+  .max(100000)
+  .optional()
+  .describe(
+    "Approximate token budget for the text output. Larger results are shortened: oldest years and events first, summaries are kept"
+  );
+
 export const LimitSchema = z
   .number()
   .int()
@@ -29,9 +58,38 @@ export const LimitSchema = z
   .default(10)
   .describe("Maximum number of results (1-100, default 10)");
 
+// Pagination parameters
+export const CursorSchema = z
+  .string()
+  .optional()
+  .describe("Continuation token (next_cursor) from a previous response, to fetch the next page");
+
+export const OffsetSchema = z
+  .number()
+  .int()
+  .min(0)
+  .optional()
+  .describe("Number of results to skip (ignored when cursor is given)");
+
+export const MaxResultsSchema = z
+  .number()
+  .int()
+  .min(1)
+  .max(1000)
+  .optional()
+  .describe("Fetch all pages internally until this many results are collected (1-1000)");
+
 // Tool-specific schemas
 export const LookupCompanyInputSchema = z.object({
-  orgnr: OrgnrSchema,
+  orgnr: OrgnrSchema.optional(),
+  name: z
+    .string()
+    .min(3)
+    .max(100)
+    .optional()
+    .describe(
+      "Company name to look up instead of orgnr (minimum 3 characters). A single strong match is used directly; otherwise the user is asked to pick one"
+    ),
   include_financials: z
     .boolean()
     .default(false)
@@ -41,6 +99,25 @@ export const LookupCompanyInputSchema = z.object({
     .default(false)
     .describe("Include Finansinspektionen regulatory data"),
   lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
+});
+
+export const LookupCompaniesBatchInputSchema = z.object({
+  orgnrs: z
+    .array(z.string())
+    .min(1)
+    .max(500)
+    .describe(
+      "Organization numbers to look up (1-500). Invalid numbers are reported per row instead of failing the batch"
+    ),
+  include_health: z
+    .boolean()
+    .default(false)
+    .describe("Also fetch the health score for each company"),
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
 });
 
 export const SearchCompaniesInputSchema = z.object({
@@ -50,11 +127,7 @@ export const SearchCompaniesInputSchema = z.object({
     .max(100)
     .describe("Search term (company name, minimum 3 characters)"),
   city: z.string().optional().describe("Filter by city name"),
-  sni: z
-    .string()
-    .regex(/^\d{2,5}$/)
-    .optional()
-    .describe("Filter by SNI code (2-5 digits)"),
+  sni: SniCodeSchema.optional().describe("Filter by SNI code (2-5 digits)"),
   org_form: z
     .string()
     .optional()
@@ -64,6 +137,12 @@ export const SearchCompaniesInputSchema = z.object({
     .default(true)
     .describe("Only show active companies (default true)"),
   limit: LimitSchema,
+  cursor: CursorSchema,
+  offset: OffsetSchema,
+  max_results: MaxResultsSchema,
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
 });
 
 export const AnalyzeFinancialsInputSchema = z.object({
@@ -73,15 +152,36 @@ export const AnalyzeFinancialsInputSchema = z.object({
     .default(true)
     .describe("Include AI-generated analysis"),
   lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
+});
+
+export const CompareCompaniesInputSchema = z.object({
+  orgnrs: z
+    .array(OrgnrSchema)
+    .min(2)
+    .max(10)
+    // The same company given in two formats is compared once
+    .transform((orgnrs) => [...new Set(orgnrs)])
+    .refine((orgnrs) => orgnrs.length >= 2, "Give at least 2 different organization numbers")
+    .describe("Organization numbers of the companies to compare (2-10)"),
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
 });
 
 export const AssessFinancialHealthInputSchema = z.object({
   orgnr: OrgnrSchema,
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
 });
 
 export const GetTimelineInputSchema = z.object({
   orgnr: OrgnrSchema,
   lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
 });
 
 export const GetSimilarInputSchema = z.object({
@@ -91,33 +191,118 @@ export const GetSimilarInputSchema = z.object({
     .boolean()
     .default(true)
     .describe("Prefer companies in the same city"),
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
 });
 
 export const GetReportsInputSchema = z.object({
   orgnr: OrgnrSchema,
+  limit: LimitSchema,
+  cursor: CursorSchema,
+  offset: OffsetSchema,
+  max_results: MaxResultsSchema,
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
 });
 
 export const GetComplianceInputSchema = z.object({
   orgnr: OrgnrSchema,
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
+});
+
+export const WatchlistOrgnrsInputSchema = z.object({
+  orgnrs: z
+    .array(OrgnrSchema)
+    .min(1)
+    .max(500)
+    .describe("Organization numbers to add to or remove from the watchlist (1-500)"),
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
+});
+
+export const CheckWatchlistInputSchema = z.object({
+  include_screening: z
+    .boolean()
+    .default(false)
+    .describe("Also re-run sanctions/PEP screening to detect risk level changes (recorded in the audit trail)"),
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
+});
+
+// Calendar date, e.g. for audit export ranges
+export const DateSchema = z
+  .string()
+  .regex(/^\d{4}-\d{2}-\d{2}$/, "Date must be YYYY-MM-DD")
+  .refine((value) => {
+    // Date normalises overflow (2026-02-31 becomes 2026-03-03), so require a round trip
+    const date = new Date(`${value}T00:00:00Z`);
+    return !Number.isNaN(date.getTime()) && date.toISOString().slice(0, 10) === value;
+  }, "Invalid date");
+
+export const ExportScreeningAuditInputSchema = z.object({
+  from: DateSchema.describe("First day to include (YYYY-MM-DD, UTC)"),
+  to: DateSchema.describe("Last day to include (YYYY-MM-DD, UTC)"),
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
 });
 
 export const GetIndustryStatsInputSchema = z.object({
-  sni_code: z
+  sni_code: SniCodeSchema.describe("SNI industry code (2-5 digits)"),
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
+});
+
+export const FindSniCodeInputSchema = z.object({
+  query: z
     .string()
-    .regex(/^\d{2,5}$/, "SNI code must be 2-5 digits")
-    .describe("SNI industry code (2-5 digits)"),
+    .min(2)
+    .max(200)
+    .describe("Industry description in Swedish or English (e.g. 'restaurants', 'redovisning'), or a code prefix"),
+  limit: LimitSchema,
+  lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
+});
+
+export const BrowseSniCodesInputSchema = z.object({
+  code: z
+    .string()
+    .regex(/^([A-Ua-u]|\d{2,5})$/, "Code must be a section letter (A-U) or 2-5 digits")
+    .optional()
+    .describe("Section letter (A-U) or SNI code to show with its parents and children; omit to list the sections"),
   lang: LangSchema,
+  response_format: ResponseFormatSchema,
+  max_tokens: MaxTokensSchema,
 });
 
 // Export types
 export type LookupCompanyInput = z.infer<typeof LookupCompanyInputSchema>;
+export type LookupCompaniesBatchInput = z.infer<
+  typeof LookupCompaniesBatchInputSchema
+>;
 export type SearchCompaniesInput = z.infer<typeof SearchCompaniesInputSchema>;
 export type AnalyzeFinancialsInput = z.infer<
   typeof AnalyzeFinancialsInputSchema
 >;
+export type CompareCompaniesInput = z.infer<typeof CompareCompaniesInputSchema>;
 export type AssessCreditInput = z.infer<typeof AssessFinancialHealthInputSchema>;
 export type GetTimelineInput = z.infer<typeof GetTimelineInputSchema>;
 export type GetSimilarInput = z.infer<typeof GetSimilarInputSchema>;
 export type GetReportsInput = z.infer<typeof GetReportsInputSchema>;
 export type GetComplianceInput = z.infer<typeof GetComplianceInputSchema>;
 export type GetIndustryStatsInput = z.infer<typeof GetIndustryStatsInputSchema>;
+export type FindSniCodeInput = z.infer<typeof FindSniCodeInputSchema>;
+export type BrowseSniCodesInput = z.infer<typeof BrowseSniCodesInputSchema>;
+export type WatchlistOrgnrsInput = z.infer<typeof WatchlistOrgnrsInputSchema>;
+export type CheckWatchlistInput = z.infer<typeof CheckWatchlistInputSchema>;
+export type ExportScreeningAuditInput = z.infer<
+  typeof ExportScreeningAuditInputSchema
+>;
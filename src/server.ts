@@ -1,19 +1,34 @@
 /**
  * Shared MCP server factory
  *
- * Creates a configured McpServer with all tools registered.
+ * Creates a configured McpServer with all tools, resources and prompts registered.
  * Used by both stdio and HTTP transports.
  */
 import { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import { registerCompanyTools } from "./tools/company.js";
 import { registerFinancialTools } from "./tools/financials.js";
 import { registerComplianceTools } from "./tools/compliance.js";
+import { registerComparisonTools } from "./tools/comparison.js";
+import { registerWatchlistTools } from "./tools/watchlist.js";
+import { registerSniTools } from "./tools/sni.js";
+import { registerResources } from "./resources.js";
+import { registerPrompts } from "./prompts.js";
+import { createCompleters } from "./completions.js";
 
 export const SERVER_NAME = "bolagsapi";
 export const SERVER_VERSION = "0.1.0";
 
-/** Create a configured MCP server with all tools */
-export function createServer(): McpServer {
+/** Options for a server instance */
+export interface ServerOptions {
+  /**
+   * API key of the caller the server acts for. Used by argument completion,
+   * which receives no auth info; defaults to BOLAGSAPI_KEY.
+   */
+  apiKey?: string;
+}
+
+/** Create a configured MCP server with all tools, resources and prompts */
+export function createServer(options: ServerOptions = {}): McpServer {
   const server = new McpServer({
     name: SERVER_NAME,
     version: SERVER_VERSION,
@@ -23,6 +38,18 @@ export function createServer(): McpServer {
   registerCompanyTools(server);
   registerFinancialTools(server);
   registerComplianceTools(server);
+  registerComparisonTools(server);
+  registerWatchlistTools(server);
+  registerSniTools(server);
+
+  // Completers for prompt arguments and resource template variables
+  const completers = createCompleters({ apiKey: options.apiKey });
+
+  // Register resource templates
+  registerResources(server, completers);
+
+  // Register prompts
+  registerPrompts(server, completers);
 
   return server;
 }
@@ -0,0 +1,110 @@
+/**
+ * Session store for stateful Streamable HTTP mode
+ *
+ * Each session owns an McpServer and its transport, and is bound to the API
+ * key that initialized it. Sessions without requests for longer than the
+ * idle timeout are closed by a periodic sweep; a session with an open
+ * request (such as a GET SSE stream) is never considered idle.
+ */
+import { createHash } from "node:crypto";
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { StreamableHTTPServerTransport } from "@modelcontextprotocol/sdk/server/streamableHttp.js";
+import { logger, errorFields } from "./logger.js";
+
+export interface Session {
+  server: McpServer;
+  transport: StreamableHTTPServerTransport;
+  /** Hash of the API key that initialized the session */
+  owner: string;
+  /** Epoch millis of the last request on this session */
+  lastSeen: number;
+  /** Requests currently being served on this session */
+  openRequests: number;
+}
+
+/** Hash an API key so sessions never hold the raw key */
+export function sessionOwner(apiKey: string): string {
+  return createHash("sha256").update(apiKey).digest("hex");
+}
+
+export class SessionStore {
+  private sessions = new Map<string, Session>();
+  private sweepTimer: NodeJS.Timeout | undefined;
+
+  constructor(
+    private readonly idleMs: number,
+    private readonly maxSessions: number
+  ) {}
+
+  /** Number of live sessions */
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  /** Whether another session can be created */
+  hasCapacity(): boolean {
+    return this.sessions.size < this.maxSessions;
+  }
+
+  /** Get a session if it exists and belongs to the given owner */
+  get(sessionId: string, owner: string): Session | undefined {
+    const session = this.sessions.get(sessionId);
+    return session?.owner === owner ? session : undefined;
+  }
+
+  /** Register a newly initialized session */
+  add(sessionId: string, session: Session): void {
+    this.sessions.set(sessionId, session);
+  }
+
+  /** Forget a session without closing it (used once its transport has closed) */
+  remove(sessionId: string): void {
+    this.sessions.delete(sessionId);
+  }
+
+  /** Mark the start of a request; returns a callback marking its end */
+  track(session: Session): () => void {
+    session.openRequests++;
+    session.lastSeen = Date.now();
+    let done = false;
+    return () => {
+      if (done) return;
+      done = true;
+      session.openRequests--;
+      session.lastSeen = Date.now();
+    };
+  }
+
+  /** Close a session and its transport */
+  async close(sessionId: string): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session) return;
+    this.sessions.delete(sessionId);
+    await session.server.close();
+  }
+
+  /** Close every session that has been idle longer than the timeout */
+  async sweep(now = Date.now()): Promise<void> {
+    const expired = [...this.sessions]
+      .filter(([, s]) => s.openRequests === 0 && now - s.lastSeen > this.idleMs)
+      .map(([id]) => id);
+    await Promise.all(expired.map((id) => this.close(id)));
+  }
+
+  /** Start the periodic idle sweep */
+  startSweeping(intervalMs = Math.min(this.idleMs, 60 * 1000)): void {
+    this.stopSweeping();
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch((error: unknown) => {
+        logger.error("Error expiring MCP sessions", errorFields(error));
+      });
+    }, intervalMs);
+    this.sweepTimer.unref();
+  }
+
+  /** Stop the periodic idle sweep */
+  stopSweeping(): void {
+    if (this.sweepTimer) clearInterval(this.sweepTimer);
+    this.sweepTimer = undefined;
+  }
+}
@@ -0,0 +1,206 @@
+/**
+ * Offline SNI 2007 catalogue
+ *
+ * Swedish Standard Industrial Classification (SNI 2007, based on NACE Rev. 2)
+ * with Swedish and English names, bundled so industry codes can be found,
+ * browsed, completed and validated without an API call. The hierarchy runs
+ * section (letter) → division (2 digits) → group (3) → class (4) → detailed
+ * code (5); companies are registered with detailed codes.
+ */
+import type { Lang } from "./i18n.js";
+import { SNI_CODE_ROWS } from "./sni-codes.js";
+
+export type SniLevel = "section" | "division" | "group" | "class" | "detailed";
+
+/** An SNI section or code with its names and place in the hierarchy */
+export interface SniEntry {
+  code: string;
+  level: SniLevel;
+  /** Code of the parent entry; sections have none */
+  parent?: string;
+  section: string;
+  name_sv: string;
+  name_en: string;
+}
+
+/** A section with the range of divisions it groups */
+interface SectionRow {
+  code: string;
+  divisions: [string, string];
+  name_sv: string;
+  name_en: string;
+}
+
+const SECTIONS: SectionRow[] = [
+  { code: "A", divisions: ["01", "03"], name_sv: "Jordbruk, skogsbruk och fiske", name_en: "Agriculture, forestry and fishing" },
+  { code: "B", divisions: ["05", "09"], name_sv: "Utvinning av mineral", name_en: "Mining and quarrying" },
+  { code: "C", divisions: ["10", "33"], name_sv: "Tillverkning", name_en: "Manufacturing" },
+  { code: "D", divisions: ["35", "35"], name_sv: "Försörjning av el, gas, värme och kyla", name_en: "Electricity, gas, steam and air conditioning supply" },
+  { code: "E", divisions: ["36", "39"], name_sv: "Vattenförsörjning; avloppsrening, avfallshantering och sanering", name_en: "Water supply; sewerage, waste management and remediation activities" },
+  { code: "F", divisions: ["41", "43"], name_sv: "Byggverksamhet", name_en: "Construction" },
+  { code: "G", divisions: ["45", "47"], name_sv: "Handel; reparation av motorfordon och motorcyklar", name_en: "Wholesale and retail trade; repair of motor vehicles and motorcycles" },
+  { code: "H", divisions: ["49", "53"], name_sv: "Transport och magasinering", name_en: "Transportation and storage" },
+  { code: "I", divisions: ["55", "56"], name_sv: "Hotell- och restaurangverksamhet", name_en: "Accommodation and food service activities" },
+  { code: "J", divisions: ["58", "63"], name_sv: "Informations- och kommunikationsverksamhet", name_en: "Information and communication" },
+  { code: "K", divisions: ["64", "66"], name_sv: "Finans- och försäkringsverksamhet", name_en: "Financial and insurance activities" },
+  { code: "L", divisions: ["68", "68"], name_sv: "Fastighetsverksamhet", name_en: "Real estate activities" },
+  { code: "M", divisions: ["69", "75"], name_sv: "Verksamhet inom juridik, ekonomi, vetenskap och teknik", name_en: "Professional, scientific and technical activities" },
+  { code: "N", divisions: ["77", "82"], name_sv: "Uthyrning, fastighetsservice, resetjänster och andra stödtjänster", name_en: "Administrative and support service activities" },
+  { code: "O", divisions: ["84", "84"], name_sv: "Offentlig förvaltning och försvar; obligatorisk socialförsäkring", name_en: "Public administration and defence; compulsory social security" },
+  { code: "P", divisions: ["85", "85"], name_sv: "Utbildning", name_en: "Education" },
+  { code: "Q", divisions: ["86", "88"], name_sv: "Vård och omsorg; sociala tjänster", name_en: "Human health and social work activities" },
+  { code: "R", divisions: ["90", "93"], name_sv: "Kultur, nöje och fritid", name_en: "Arts, entertainment and recreation" },
+  { code: "S", divisions: ["94", "96"], name_sv: "Annan serviceverksamhet", name_en: "Other service activities" },
+  { code: "T", divisions: ["97", "98"], name_sv: "Förvärvsarbete i hushåll; hushållens produktion av diverse varor och tjänster för eget bruk", name_en: "Activities of households as employers; undifferentiated goods- and services-producing activities of households for own use" },
+  { code: "U", divisions: ["99", "99"], name_sv: "Verksamhet vid internationella organisationer, utländska ambassader o.d.", name_en: "Activities of extraterritorial organisations and bodies" },
+];
+/** Levels of the numeric codes, by code length */
+const LEVELS: Record<number, SniLevel> = { 2: "division", 3: "group", 4: "class", 5: "detailed" };
+
+/** Search terms shorter than this are ignored */
+const MIN_TERM_LENGTH = 3;
+
+function sectionOf(division: string): string {
+  const section = SECTIONS.find((s) => division >= s.divisions[0] && division <= s.divisions[1]);
+  if (!section) throw new Error(`SNI division ${division} has no section`);
+  return section.code;
+}
+
+/**
+ * Build the numeric entries from the code table, adding the detailed code
+ * of every class that SNI does not subdivide
+ */
+function buildCodes(): SniEntry[] {
+  const codes = new Set(SNI_CODE_ROWS.map(([code]) => code));
+  const entries: SniEntry[] = [];
+  for (const [code, name_sv, name_en] of SNI_CODE_ROWS) {
+    const section = sectionOf(code.slice(0, 2));
+    const parent = code.length === 2 ? section : code.slice(0, -1);
+    entries.push({ code, level: LEVELS[code.length], parent, section, name_sv, name_en });
+    if (code.length === 4 && !codes.has(`${code}1`) && !codes.has(`${code}0`)) {
+      entries.push({ code: `${code}0`, level: "detailed", parent: code, section, name_sv, name_en });
+    }
+  }
+  return entries;
+}
+
+/** SNI sections A-U */
+export const SNI_SECTIONS: SniEntry[] = SECTIONS.map((s) => ({
+  code: s.code,
+  level: "section",
+  section: s.code,
+  name_sv: s.name_sv,
+  name_en: s.name_en,
+}));
+
+/** Every SNI 2007 code from division to detailed code, in code order */
+export const SNI_CODES: SniEntry[] = buildCodes();
+
+const byCode = new Map<string, SniEntry>([...SNI_SECTIONS, ...SNI_CODES].map((e) => [e.code, e]));
+
+const children = new Map<string, SniEntry[]>();
+for (const entry of SNI_CODES) {
+  const siblings = children.get(entry.parent!) ?? [];
+  siblings.push(entry);
+  children.set(entry.parent!, siblings);
+}
+
+/** Name of an SNI code or section in the given language */
+export function sniName(entry: SniEntry, lang: Lang): string {
+  return lang === "sv" ? entry.name_sv : entry.name_en;
+}
+
+/** The section or code entry, if it exists; section letters are case-insensitive */
+export function sniEntry(code: string): SniEntry | undefined {
+  return byCode.get(code.trim().toUpperCase());
+}
+
+/** Whether a code is a numeric SNI 2007 code at any level */
+export function isSniCode(code: string): boolean {
+  return /^\d{2,5}$/.test(code) && byCode.has(code);
+}
+
+/** Child entries of a section or code, or the sections when no code is given */
+export function sniChildren(code?: string): SniEntry[] {
+  if (code === undefined) return SNI_SECTIONS;
+  const entry = sniEntry(code);
+  return entry ? children.get(entry.code) ?? [] : [];
+}
+
+/** The entry's ancestors from its section down, followed by the entry itself */
+export function sniPath(entry: SniEntry): SniEntry[] {
+  const path = [entry];
+  for (let current = entry; current.parent !== undefined; ) {
+    current = byCode.get(current.parent)!;
+    path.unshift(current);
+  }
+  return path;
+}
+
+/**
+ * Search terms of a free-text query. Endings are cut from longer words so
+ * that plural and inflected forms match ("restaurants", "restauranger").
+ */
+function searchTerms(query: string): string[] {
+  return query
+    .toLocaleLowerCase("sv")
+    .split(/[^\p{L}\p{N}]+/u)
+    .filter((word) => word.length >= MIN_TERM_LENGTH)
+    .map((word) => word.slice(0, Math.max(4, word.length - 2)));
+}
+
+/** Earliest position of a term in either name, or -1 */
+function termPosition(entry: SniEntry, term: string): number {
+  const positions = [entry.name_sv, entry.name_en]
+    .map((name) => name.toLocaleLowerCase("sv").indexOf(term))
+    .filter((position) => position >= 0);
+  return positions.length > 0 ? Math.min(...positions) : -1;
+}
+
+/**
+ * Codes whose Swedish or English name matches a free-text query, best
+ * first: most terms matched, then terms found earliest in the name, then
+ * the most detailed code. A code named like one of its matching children
+ * is left out in favour of the child. A query of digits matches
+ * codes by prefix instead.
+ */
+export function searchSni(query: string): SniEntry[] {
+  const value = query.trim();
+  if (/^\d+$/.test(value)) {
+    return SNI_CODES.filter((entry) => entry.code.startsWith(value));
+  }
+
+  const terms = searchTerms(value);
+  if (terms.length === 0) return [];
+  const scored = SNI_CODES.flatMap((entry) => {
+    const positions = terms.map((term) => termPosition(entry, term)).filter((position) => position >= 0);
+    if (positions.length === 0) return [];
+    return [{ entry, matched: positions.length, position: positions.reduce((sum, p) => sum + p, 0) }];
+  });
+
+  const matched = new Set(scored.map((s) => s.entry.code));
+  return scored
+    .filter(({ entry }) => !(children.get(entry.code) ?? []).some(
+      (child) => matched.has(child.code) && child.name_sv === entry.name_sv
+    ))
+    .sort((a, b) =>
+      b.matched - a.matched ||
+      a.position - b.position ||
+      b.entry.code.length - a.entry.code.length ||
+      a.entry.code.localeCompare(b.entry.code)
+    )
+    .map((s) => s.entry);
+}
+
+/**
+ * SNI codes for argument completion: for digits, codes starting with them
+ * down to one level below what has been typed; otherwise a name search
+ */
+export function matchSniCodes(input: string): SniEntry[] {
+  const value = input.trim();
+  if (/^\d*$/.test(value)) {
+    const maxLength = Math.max(2, value.length + 1);
+    return SNI_CODES.filter((entry) => entry.code.startsWith(value) && entry.code.length <= maxLength);
+  }
+  return searchSni(value);
+}
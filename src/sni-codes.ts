@@ -0,0 +1,1234 @@
+/**
+ * SNI 2007 code table: divisions, groups, classes and detailed codes
+ *
+ * Rows are [code, Swedish name, English name] in code order. Detailed
+ * (five-digit) codes are listed only for classes that SNI subdivides; every
+ * other class has the single detailed code formed by appending 0, with the
+ * class name (for example 5610 and 56100).
+ */
+export const SNI_CODE_ROWS: Array<[string, string, string]> = [
+  // A - Jordbruk, skogsbruk och fiske
+  ["01", "Växt- och djurproduktion, jakt och service i anslutning härtill", "Crop and animal production, hunting and related service activities"],
+  ["011", "Odling av ettåriga växter", "Growing of non-perennial crops"],
+  ["0111", "Odling av spannmål (utom ris), baljväxter och oljeväxter", "Growing of cereals (except rice), leguminous crops and oil seeds"],
+  ["0112", "Odling av ris", "Growing of rice"],
+  ["0113", "Odling av grönsaker, meloner, rotfrukter och stamknölar", "Growing of vegetables and melons, roots and tubers"],
+  ["01131", "Odling av potatis", "Growing of potatoes"],
+  ["01132", "Odling av sockerbetor", "Growing of sugar beet"],
+  ["01133", "Odling av grönsaker på friland", "Growing of vegetables in the open"],
+  ["01134", "Odling av grönsaker i växthus", "Growing of vegetables under glass"],
+  ["01135", "Odling av svamp m.m.", "Growing of mushrooms and similar crops"],
+  ["0114", "Odling av sockerrör", "Growing of sugar cane"],
+  ["0115", "Odling av tobak", "Growing of tobacco"],
+  ["0116", "Odling av fiberväxter", "Growing of fibre crops"],
+  ["0119", "Odling av andra ettåriga växter", "Growing of other non-perennial crops"],
+  ["01191", "Odling av prydnadsväxter i växthus", "Growing of ornamental plants under glass"],
+  ["01199", "Odling av övriga ettåriga växter", "Growing of other non-perennial crops n.e.c."],
+  ["012", "Odling av fleråriga växter", "Growing of perennial crops"],
+  ["0121", "Odling av druvor", "Growing of grapes"],
+  ["0122", "Odling av tropiska och subtropiska frukter", "Growing of tropical and subtropical fruits"],
+  ["0123", "Odling av citrusfrukter", "Growing of citrus fruits"],
+  ["0124", "Odling av kärnfrukter och stenfrukter", "Growing of pome fruits and stone fruits"],
+  ["0125", "Odling av andra frukter och bär samt nötter", "Growing of other tree and bush fruits and nuts"],
+  ["0126", "Odling av oljehaltiga frukter", "Growing of oleaginous fruits"],
+  ["0127", "Odling av växter för dryckesframställning", "Growing of beverage crops"],
+  ["0128", "Odling av kryddväxter, växter för läkemedelsframställning o.d.", "Growing of spices, aromatic, drug and pharmaceutical crops"],
+  ["0129", "Odling av andra fleråriga växter", "Growing of other perennial crops"],
+  ["013", "Plantskoleverksamhet", "Plant propagation"],
+  ["0130", "Plantskoleverksamhet", "Plant propagation"],
+  ["01301", "Plantskoleverksamhet m.m. i växthus", "Plant propagation under glass"],
+  ["01302", "Plantskoleverksamhet m.m. på friland", "Plant propagation in the open"],
+  ["014", "Djurhållning", "Animal production"],
+  ["0141", "Mjölkproduktion och uppfödning av nötkreatur av mjölkras", "Raising of dairy cattle"],
+  ["0142", "Uppfödning av andra nötkreatur och bufflar", "Raising of other cattle and buffaloes"],
+  ["0143", "Uppfödning av hästar och andra hästdjur", "Raising of horses and other equines"],
+  ["0144", "Uppfödning av kameler och kameldjur", "Raising of camels and camelids"],
+  ["0145", "Uppfödning av får och getter", "Raising of sheep and goats"],
+  ["0146", "Uppfödning av svin", "Raising of swine/pigs"],
+  ["01461", "Uppfödning av smågrisar", "Raising of piglets"],
+  ["01462", "Uppfödning av slaktsvin", "Raising of pigs for slaughter"],
+  ["01463", "Blandad uppfödning av smågrisar och slaktsvin", "Mixed raising of piglets and pigs for slaughter"],
+  ["0147", "Uppfödning av fjäderfä", "Raising of poultry"],
+  ["01471", "Äggproduktion", "Egg production"],
+  ["01472", "Uppfödning av unghöns", "Raising of pullets"],
+  ["01473", "Uppfödning av slaktkycklingar", "Raising of broilers"],
+  ["01479", "Övrig fjäderfäuppfödning", "Raising of other poultry"],
+  ["0149", "Uppfödning av andra djur", "Raising of other animals"],
+  ["01491", "Uppfödning av sällskapsdjur", "Raising of pets"],
+  ["01492", "Uppfödning av pälsdjur", "Raising of fur animals"],
+  ["01493", "Renskötsel", "Reindeer husbandry"],
+  ["01499", "Övrig djuruppfödning", "Raising of other animals n.e.c."],
+  ["015", "Blandat jordbruk", "Mixed farming"],
+  ["0150", "Blandat jordbruk", "Mixed farming"],
+  ["016", "Service till jordbruk och bearbetning efter skörd", "Support activities to agriculture and post-harvest crop activities"],
+  ["0161", "Service till växtodling", "Support activities for crop production"],
+  ["0162", "Service till husdjursskötsel", "Support activities for animal production"],
+  ["0163", "Bearbetning efter skörd", "Post-harvest crop activities"],
+  ["0164", "Bearbetning av utsäde", "Seed processing for propagation"],
+  ["017", "Jakt och service i anslutning härtill", "Hunting, trapping and related service activities"],
+  ["0170", "Jakt och service i anslutning härtill", "Hunting, trapping and related service activities"],
+  ["02", "Skogsbruk", "Forestry and logging"],
+  ["021", "Skogsförvaltning", "Silviculture and other forestry activities"],
+  ["0210", "Skogsförvaltning", "Silviculture and other forestry activities"],
+  ["02101", "Skogsförvaltning", "Forest management"],
+  ["02102", "Skogsskötsel", "Silviculture"],
+  ["02109", "Övrig skoglig verksamhet", "Other forestry activities"],
+  ["022", "Drivning", "Logging"],
+  ["0220", "Drivning", "Logging"],
+  ["023", "Insamling av vilt växande produkter från skogen utom virke", "Gathering of wild growing non-wood products"],
+  ["0230", "Insamling av vilt växande produkter från skogen utom virke", "Gathering of wild growing non-wood products"],
+  ["024", "Service till skogsbruk", "Support services to forestry"],
+  ["0240", "Service till skogsbruk", "Support services to forestry"],
+  ["03", "Fiske och vattenbruk", "Fishing and aquaculture"],
+  ["031", "Fiske", "Fishing"],
+  ["0311", "Saltvattensfiske", "Marine fishing"],
+  ["0312", "Sötvattensfiske", "Freshwater fishing"],
+  ["032", "Vattenbruk", "Aquaculture"],
+  ["0321", "Fiskodling i saltvatten", "Marine aquaculture"],
+  ["0322", "Fiskodling i sötvatten", "Freshwater aquaculture"],
+
+  // B - Utvinning av mineral
+  ["05", "Kolutvinning", "Mining of coal and lignite"],
+  ["051", "Stenkolsutvinning", "Mining of hard coal"],
+  ["0510", "Stenkolsutvinning", "Mining of hard coal"],
+  ["052", "Brunkolsutvinning", "Mining of lignite"],
+  ["0520", "Brunkolsutvinning", "Mining of lignite"],
+  ["06", "Utvinning av råpetroleum och naturgas", "Extraction of crude petroleum and natural gas"],
+  ["061", "Utvinning av råpetroleum", "Extraction of crude petroleum"],
+  ["0610", "Utvinning av råpetroleum", "Extraction of crude petroleum"],
+  ["062", "Utvinning av naturgas", "Extraction of natural gas"],
+  ["0620", "Utvinning av naturgas", "Extraction of natural gas"],
+  ["07", "Utvinning av metallmalmer", "Mining of metal ores"],
+  ["071", "Järnmalmsutvinning", "Mining of iron ores"],
+  ["0710", "Järnmalmsutvinning", "Mining of iron ores"],
+  ["072", "Utvinning av andra metallmalmer än järnmalm", "Mining of non-ferrous metal ores"],
+  ["0721", "Utvinning av uran- och toriummalm", "Mining of uranium and thorium ores"],
+  ["0729", "Utvinning av andra metallmalmer", "Mining of other non-ferrous metal ores"],
+  ["08", "Annan utvinning av mineral", "Other mining and quarrying"],
+  ["081", "Brytning av sten, utvinning av sand och lera", "Quarrying of stone, sand and clay"],
+  ["0811", "Brytning av natursten, kalksten, gips, krita och skiffer", "Quarrying of ornamental and building stone, limestone, gypsum, chalk and slate"],
+  ["0812", "Utvinning av grus, sand, lera och kaolin", "Operation of gravel and sand pits; mining of clays and kaolin"],
+  ["089", "Gruvdrift och utvinning av mineral utan annan indelning", "Mining and quarrying n.e.c."],
+  ["0891", "Utvinning av kemiska mineraler och gödselmineraler", "Mining of chemical and fertiliser minerals"],
+  ["0892", "Torvutvinning", "Extraction of peat"],
+  ["0893", "Saltutvinning", "Extraction of salt"],
+  ["0899", "Utvinning av diverse andra mineral", "Other mining and quarrying n.e.c."],
+  ["09", "Service till utvinning", "Mining support service activities"],
+  ["091", "Stödtjänster till utvinning av råpetroleum och naturgas", "Support activities for petroleum and natural gas extraction"],
+  ["0910", "Stödtjänster till utvinning av råpetroleum och naturgas", "Support activities for petroleum and natural gas extraction"],
+  ["099", "Stödtjänster till annan utvinning", "Support activities for other mining and quarrying"],
+  ["0990", "Stödtjänster till annan utvinning", "Support activities for other mining and quarrying"],
+
+  // C - Tillverkning
+  ["10", "Livsmedelsframställning", "Manufacture of food products"],
+  ["101", "Beredning och hållbarhetsbehandling av kött och köttprodukter", "Processing and preserving of meat and production of meat products"],
+  ["1011", "Slakt och hållbarhetsbehandling av kött", "Processing and preserving of meat"],
+  ["1012", "Slakt och hållbarhetsbehandling av fjäderfäkött", "Processing and preserving of poultry meat"],
+  ["1013", "Charkuteri- och andra köttvarutillverkning", "Production of meat and poultry meat products"],
+  ["102", "Beredning och hållbarhetsbehandling av fisk samt kräft- och blötdjur", "Processing and preserving of fish, crustaceans and molluscs"],
+  ["1020", "Beredning och hållbarhetsbehandling av fisk samt kräft- och blötdjur", "Processing and preserving of fish, crustaceans and molluscs"],
+  ["103", "Beredning och hållbarhetsbehandling av frukt, bär och grönsaker", "Processing and preserving of fruit and vegetables"],
+  ["1031", "Beredning och hållbarhetsbehandling av potatis", "Processing and preserving of potatoes"],
+  ["1032", "Framställning av juice av frukt, bär och grönsaker", "Manufacture of fruit and vegetable juice"],
+  ["1039", "Annan beredning och hållbarhetsbehandling av frukt, bär och grönsaker", "Other processing and preserving of fruit and vegetables"],
+  ["104", "Framställning av vegetabiliska och animaliska oljor och fetter", "Manufacture of vegetable and animal oils and fats"],
+  ["1041", "Framställning av oljor och fetter", "Manufacture of oils and fats"],
+  ["1042", "Framställning av margarin och liknande ätbara fetter", "Manufacture of margarine and similar edible fats"],
+  ["105", "Mejerivarutillverkning", "Manufacture of dairy products"],
+  ["1051", "Mejerivarutillverkning", "Operation of dairies and cheese making"],
+  ["10511", "Produktion av konsumtionsmjölk och grädde", "Production of drinking milk and cream"],
+  ["10512", "Smörtillverkning", "Manufacture of butter"],
+  ["10513", "Osttillverkning", "Manufacture of cheese"],
+  ["10519", "Annan mejerivarutillverkning", "Manufacture of other dairy products"],
+  ["1052", "Glasstillverkning", "Manufacture of ice cream"],
+  ["106", "Tillverkning av kvarnprodukter och stärkelse", "Manufacture of grain mill products, starches and starch products"],
+  ["1061", "Tillverkning av kvarnprodukter", "Manufacture of grain mill products"],
+  ["10611", "Framställning av mjöl", "Manufacture of flour"],
+  ["10612", "Framställning av frukostflingor, mixer och andra livsmedel av kvarnprodukter", "Manufacture of breakfast cereals, mixes and other foods from grain mill products"],
+  ["1062", "Tillverkning av stärkelse och stärkelseprodukter", "Manufacture of starches and starch products"],
+  ["107", "Tillverkning av bageri- och mjölprodukter", "Manufacture of bakery and farinaceous products"],
+  ["1071", "Tillverkning av mjukt matbröd och färska bakverk", "Manufacture of bread; manufacture of fresh pastry goods and cakes"],
+  ["1072", "Tillverkning av knäckebröd, kex och konserverade bakverk", "Manufacture of rusks and biscuits; manufacture of preserved pastry goods and cakes"],
+  ["10721", "Tillverkning av knäckebröd", "Manufacture of crispbread"],
+  ["10722", "Tillverkning av kex och konserverade bakverk", "Manufacture of biscuits and preserved pastry goods and cakes"],
+  ["1073", "Tillverkning av makaroner, nudlar, couscous m.m.", "Manufacture of macaroni, noodles, couscous and similar farinaceous products"],
+  ["108", "Tillverkning av andra livsmedel", "Manufacture of other food products"],
+  ["1081", "Sockertillverkning", "Manufacture of sugar"],
+  ["1082", "Tillverkning av kakao, choklad och konfektyrer", "Manufacture of cocoa, chocolate and sugar confectionery"],
+  ["1083", "Rostning av kaffe och framställning av te", "Processing of tea and coffee"],
+  ["1084", "Tillverkning av kryddor och smaktillsatser", "Manufacture of condiments and seasonings"],
+  ["1085", "Tillverkning av lagade maträtter", "Manufacture of prepared meals and dishes"],
+  ["1086", "Tillverkning av homogeniserade livsmedelspreparat inklusive dietmat", "Manufacture of homogenised food preparations and dietetic food"],
+  ["1089", "Framställning av andra livsmedel", "Manufacture of other food products n.e.c."],
+  ["109", "Framställning av foder", "Manufacture of prepared animal feeds"],
+  ["1091", "Framställning av foder till lantbruksdjur", "Manufacture of prepared feeds for farm animals"],
+  ["1092", "Framställning av foder till sällskapsdjur", "Manufacture of prepared pet foods"],
+  ["11", "Framställning av drycker", "Manufacture of beverages"],
+  ["110", "Framställning av drycker", "Manufacture of beverages"],
+  ["1101", "Destillering, rening och tillblandning av spritdrycker", "Distilling, rectifying and blending of spirits"],
+  ["1102", "Framställning av vin från druvor", "Manufacture of wine from grape"],
+  ["1103", "Framställning av cider och andra fruktviner", "Manufacture of cider and other fruit wines"],
+  ["1104", "Framställning av andra icke-destillerade jästa drycker", "Manufacture of other non-distilled fermented beverages"],
+  ["1105", "Framställning av maltdrycker", "Manufacture of beer"],
+  ["1106", "Framställning av malt", "Manufacture of malt"],
+  ["1107", "Framställning av läskedrycker och mineralvatten", "Manufacture of soft drinks; production of mineral waters and other bottled waters"],
+  ["11071", "Framställning av läskedrycker", "Manufacture of soft drinks"],
+  ["11072", "Framställning av mineralvatten", "Production of mineral waters and other bottled waters"],
+  ["12", "Tobaksvarutillverkning", "Manufacture of tobacco products"],
+  ["120", "Tobaksvarutillverkning", "Manufacture of tobacco products"],
+  ["1200", "Tobaksvarutillverkning", "Manufacture of tobacco products"],
+  ["13", "Textilvarutillverkning", "Manufacture of textiles"],
+  ["131", "Garntillverkning", "Preparation and spinning of textile fibres"],
+  ["1310", "Garntillverkning", "Preparation and spinning of textile fibres"],
+  ["132", "Vävning av textilier", "Weaving of textiles"],
+  ["1320", "Vävning av textilier", "Weaving of textiles"],
+  ["133", "Blekning, färgning och annan textilberedning", "Finishing of textiles"],
+  ["1330", "Blekning, färgning och annan textilberedning", "Finishing of textiles"],
+  ["139", "Annan textilietillverkning", "Manufacture of other textiles"],
+  ["1391", "Tillverkning av trikåväv", "Manufacture of knitted and crocheted fabrics"],
+  ["1392", "Tillverkning av konfektionerade textilvaror utom kläder", "Manufacture of made-up textile articles, except apparel"],
+  ["1393", "Tillverkning av mattor", "Manufacture of carpets and rugs"],
+  ["1394", "Tillverkning av tågvirke, linor, rep och nät", "Manufacture of cordage, rope, twine and netting"],
+  ["1395", "Tillverkning av bondad duk och varor av bondad duk utom kläder", "Manufacture of non-wovens and articles made from non-wovens, except apparel"],
+  ["1396", "Tillverkning av andra tekniska textilier och industritextilier", "Manufacture of other technical and industrial textiles"],
+  ["1399", "Tillverkning av övriga textilier", "Manufacture of other textiles n.e.c."],
+  ["14", "Tillverkning av kläder", "Manufacture of wearing apparel"],
+  ["141", "Tillverkning av kläder utom pälsplagg", "Manufacture of wearing apparel, except fur apparel"],
+  ["1411", "Tillverkning av läderkläder", "Manufacture of leather clothes"],
+  ["1412", "Tillverkning av arbetskläder", "Manufacture of workwear"],
+  ["1413", "Tillverkning av andra ytterkläder", "Manufacture of other outerwear"],
+  ["1414", "Tillverkning av underkläder", "Manufacture of underwear"],
+  ["1419", "Tillverkning av andra kläder och tillbehör", "Manufacture of other wearing apparel and accessories"],
+  ["142", "Tillverkning av pälsvaror", "Manufacture of articles of fur"],
+  ["1420", "Tillverkning av pälsvaror", "Manufacture of articles of fur"],
+  ["143", "Tillverkning av stickade och virkade kläder", "Manufacture of knitted and crocheted apparel"],
+  ["1431", "Tillverkning av strumpor", "Manufacture of knitted and crocheted hosiery"],
+  ["1439", "Tillverkning av andra stickade och virkade kläder", "Manufacture of other knitted and crocheted apparel"],
+  ["15", "Tillverkning av läder, läder- och skinnvaror m.m.", "Manufacture of leather and related products"],
+  ["151", "Garvning och annan beredning av läder; tillverkning av reseffekter, handväskor, sadelmakerivaror; pälsberedning", "Tanning and dressing of leather; manufacture of luggage, handbags, saddlery and harness; dressing and dyeing of fur"],
+  ["1511", "Garvning och annan beredning av läder; pälsberedning", "Tanning and dressing of leather; dressing and dyeing of fur"],
+  ["1512", "Tillverkning av reseffekter, handväskor o.d. samt sadelmakerivaror", "Manufacture of luggage, handbags and the like, saddlery and harness"],
+  ["152", "Tillverkning av skodon", "Manufacture of footwear"],
+  ["1520", "Tillverkning av skodon", "Manufacture of footwear"],
+  ["16", "Tillverkning av trä och varor av trä, kork, rotting o.d. utom möbler", "Manufacture of wood and of products of wood and cork, except furniture"],
+  ["161", "Sågning, hyvling och impregnering av trä", "Sawmilling and planing of wood"],
+  ["1610", "Sågning, hyvling och impregnering av trä", "Sawmilling and planing of wood"],
+  ["16101", "Sågning av trä", "Sawmilling of wood"],
+  ["16102", "Hyvling av trä", "Planing of wood"],
+  ["16103", "Impregnering av trä", "Impregnation of wood"],
+  ["162", "Tillverkning av varor av trä, kork, rotting o.d.", "Manufacture of products of wood, cork, straw and plaiting materials"],
+  ["1621", "Tillverkning av fanér och träbaserade skivor", "Manufacture of veneer sheets and wood-based panels"],
+  ["1622", "Tillverkning av sammansatta parkettgolv", "Manufacture of assembled parquet floors"],
+  ["1623", "Tillverkning av andra byggnads- och inredningssnickerier", "Manufacture of other builders' carpentry and joinery"],
+  ["16231", "Tillverkning av monteringsfärdiga trähus", "Manufacture of prefabricated wooden buildings"],
+  ["16232", "Tillverkning av dörrar av trä", "Manufacture of wooden doors"],
+  ["16233", "Tillverkning av fönster av trä", "Manufacture of wooden windows"],
+  ["16239", "Tillverkning av övriga byggnads- och inredningssnickerier", "Manufacture of other builders' carpentry and joinery n.e.c."],
+  ["1624", "Tillverkning av träförpackningar", "Manufacture of wooden containers"],
+  ["1629", "Tillverkning av andra trävaror; tillverkning av varor av kork, halm, rotting o.d.", "Manufacture of other products of wood; manufacture of articles of cork, straw and plaiting materials"],
+  ["17", "Pappers- och pappersvarutillverkning", "Manufacture of paper and paper products"],
+  ["171", "Tillverkning av pappersmassa, papper och papp", "Manufacture of pulp, paper and paperboard"],
+  ["1711", "Massatillverkning", "Manufacture of pulp"],
+  ["1712", "Tillverkning av papper och papp", "Manufacture of paper and paperboard"],
+  ["17121", "Tillverkning av tidningspapper", "Manufacture of newsprint"],
+  ["17122", "Tillverkning av annat grafiskt papper", "Manufacture of other graphic paper"],
+  ["17123", "Tillverkning av kraftpapper och kraftpapp", "Manufacture of kraft paper and paperboard"],
+  ["17129", "Tillverkning av annat papper och annan papp", "Manufacture of other paper and paperboard"],
+  ["172", "Tillverkning av pappers- och pappvaror", "Manufacture of articles of paper and paperboard"],
+  ["1721", "Tillverkning av wellpapp och av förpackningar av papper och papp", "Manufacture of corrugated paper and paperboard and of containers of paper and paperboard"],
+  ["1722", "Tillverkning av hushålls- och hygienartiklar av papper", "Manufacture of household and sanitary goods and of toilet requisites"],
+  ["1723", "Tillverkning av skrivpapper, kuvert o.d.", "Manufacture of paper stationery"],
+  ["1724", "Tillverkning av tapeter", "Manufacture of wallpaper"],
+  ["1729", "Tillverkning av andra pappers- och pappvaror", "Manufacture of other articles of paper and paperboard"],
+  ["18", "Grafisk produktion och reproduktion av inspelningar", "Printing and reproduction of recorded media"],
+  ["181", "Grafisk produktion och tjänster i anslutning till grafisk produktion", "Printing and service activities related to printing"],
+  ["1811", "Tryckning av dagstidningar", "Printing of newspapers"],
+  ["1812", "Annan tryckning", "Other printing"],
+  ["1813", "Tjänster före tryckning", "Pre-press and pre-media services"],
+  ["1814", "Bokbinderier och andra tjänster i samband med tryckning", "Binding and related services"],
+  ["182", "Reproduktion av inspelningar", "Reproduction of recorded media"],
+  ["1820", "Reproduktion av inspelningar", "Reproduction of recorded media"],
+  ["19", "Tillverkning av stenkolsprodukter och raffinerade petroleumprodukter", "Manufacture of coke and refined petroleum products"],
+  ["191", "Tillverkning av stenkolsprodukter", "Manufacture of coke oven products"],
+  ["1910", "Tillverkning av stenkolsprodukter", "Manufacture of coke oven products"],
+  ["192", "Tillverkning av raffinerade petroleumprodukter", "Manufacture of refined petroleum products"],
+  ["1920", "Tillverkning av raffinerade petroleumprodukter", "Manufacture of refined petroleum products"],
+  ["20", "Tillverkning av kemikalier och kemiska produkter", "Manufacture of chemicals and chemical products"],
+  ["201", "Tillverkning av baskemikalier, gödselmedel och kväveföreningar, basplaster och syntetgummi", "Manufacture of basic chemicals, fertilisers and nitrogen compounds, plastics and synthetic rubber in primary forms"],
+  ["2011", "Tillverkning av industrigaser", "Manufacture of industrial gases"],
+  ["2012", "Tillverkning av färgämnen", "Manufacture of dyes and pigments"],
+  ["2013", "Tillverkning av andra oorganiska baskemikalier", "Manufacture of other inorganic basic chemicals"],
+  ["2014", "Tillverkning av andra organiska baskemikalier", "Manufacture of other organic basic chemicals"],
+  ["2015", "Tillverkning av gödselmedel och kväveföreningar", "Manufacture of fertilisers and nitrogen compounds"],
+  ["2016", "Tillverkning av basplaster", "Manufacture of plastics in primary forms"],
+  ["2017", "Tillverkning av syntetgummi", "Manufacture of synthetic rubber in primary forms"],
+  ["202", "Tillverkning av bekämpningsmedel och andra lantbrukskemikalier", "Manufacture of pesticides and other agrochemical products"],
+  ["2020", "Tillverkning av bekämpningsmedel och andra lantbrukskemikalier", "Manufacture of pesticides and other agrochemical products"],
+  ["203", "Tillverkning av färg, lack, tryckfärg m.m.", "Manufacture of paints, varnishes and similar coatings, printing ink and mastics"],
+  ["2030", "Tillverkning av färg, lack, tryckfärg m.m.", "Manufacture of paints, varnishes and similar coatings, printing ink and mastics"],
+  ["204", "Tillverkning av rengöringsmedel, parfymer och toalettartiklar", "Manufacture of soap and detergents, cleaning and polishing preparations, perfumes and toilet preparations"],
+  ["2041", "Tillverkning av tvål, såpa, tvättmedel och polermedel", "Manufacture of soap and detergents, cleaning and polishing preparations"],
+  ["2042", "Tillverkning av parfymer och toalettartiklar", "Manufacture of perfumes and toilet preparations"],
+  ["205", "Tillverkning av andra kemiska produkter", "Manufacture of other chemical products"],
+  ["2051", "Tillverkning av sprängämnen", "Manufacture of explosives"],
+  ["2052", "Tillverkning av lim", "Manufacture of glues"],
+  ["2053", "Tillverkning av eteriska oljor", "Manufacture of essential oils"],
+  ["2059", "Tillverkning av övriga kemiska produkter", "Manufacture of other chemical products n.e.c."],
+  ["206", "Tillverkning av konstfibrer", "Manufacture of man-made fibres"],
+  ["2060", "Tillverkning av konstfibrer", "Manufacture of man-made fibres"],
+  ["21", "Tillverkning av farmaceutiska basprodukter och läkemedel", "Manufacture of basic pharmaceutical products and pharmaceutical preparations"],
+  ["211", "Tillverkning av farmaceutiska basprodukter", "Manufacture of basic pharmaceutical products"],
+  ["2110", "Tillverkning av farmaceutiska basprodukter", "Manufacture of basic pharmaceutical products"],
+  ["212", "Tillverkning av läkemedel", "Manufacture of pharmaceutical preparations"],
+  ["2120", "Tillverkning av läkemedel", "Manufacture of pharmaceutical preparations"],
+  ["22", "Tillverkning av gummi- och plastvaror", "Manufacture of rubber and plastic products"],
+  ["221", "Tillverkning av gummivaror", "Manufacture of rubber products"],
+  ["2211", "Tillverkning av däck och slangar; regummering", "Manufacture of rubber tyres and tubes; retreading and rebuilding of rubber tyres"],
+  ["2219", "Tillverkning av andra gummivaror", "Manufacture of other rubber products"],
+  ["222", "Tillverkning av plastvaror", "Manufacture of plastic products"],
+  ["2221", "Tillverkning av plastplattor, plastfolier, plaströr och plastprofiler", "Manufacture of plastic plates, sheets, tubes and profiles"],
+  ["2222", "Tillverkning av plastförpackningar", "Manufacture of plastic packing goods"],
+  ["2223", "Tillverkning av byggvaror av plast", "Manufacture of builders' ware of plastic"],
+  ["2229", "Tillverkning av andra plastvaror", "Manufacture of other plastic products"],
+  ["23", "Tillverkning av andra icke-metalliska mineraliska produkter", "Manufacture of other non-metallic mineral products"],
+  ["231", "Tillverkning av glas och glasvaror", "Manufacture of glass and glass products"],
+  ["2311", "Tillverkning av planglas", "Manufacture of flat glass"],
+  ["2312", "Bearbetning av planglas", "Shaping and processing of flat glass"],
+  ["2313", "Tillverkning av buteljer, glasförpackningar och hushållsartiklar av glas", "Manufacture of hollow glass"],
+  ["2314", "Tillverkning av glasfiber", "Manufacture of glass fibres"],
+  ["2319", "Tillverkning av andra glasvaror inklusive tekniska glasvaror", "Manufacture and processing of other glass, including technical glassware"],
+  ["232", "Tillverkning av eldfasta produkter", "Manufacture of refractory products"],
+  ["2320", "Tillverkning av eldfasta produkter", "Manufacture of refractory products"],
+  ["233", "Tillverkning av byggnadsmaterial av lergods", "Manufacture of clay building materials"],
+  ["2331", "Tillverkning av keramiska golv- och väggplattor", "Manufacture of ceramic tiles and flags"],
+  ["2332", "Tillverkning av murtegel, takpannor och andra byggvaror av tegel", "Manufacture of bricks, tiles and construction products, in baked clay"],
+  ["234", "Tillverkning av andra porslinsprodukter och keramiska produkter", "Manufacture of other porcelain and ceramic products"],
+  ["2341", "Tillverkning av keramiska hushålls- och prydnadsartiklar", "Manufacture of ceramic household and ornamental articles"],
+  ["2342", "Tillverkning av sanitetsgods av porslin och keramik", "Manufacture of ceramic sanitary fixtures"],
+  ["2343", "Tillverkning av isolatorer och isoleringsdetaljer av keramiskt material", "Manufacture of ceramic insulators and insulating fittings"],
+  ["2344", "Tillverkning av andra tekniska keramiska produkter", "Manufacture of other technical ceramic products"],
+  ["2349", "Tillverkning av andra keramiska produkter", "Manufacture of other ceramic products"],
+  ["235", "Tillverkning av cement, kalk och gips", "Manufacture of cement, lime and plaster"],
+  ["2351", "Tillverkning av cement", "Manufacture of cement"],
+  ["2352", "Tillverkning av kalk och gips", "Manufacture of lime and plaster"],
+  ["236", "Tillverkning av varor av betong, cement och gips", "Manufacture of articles of concrete, cement and plaster"],
+  ["2361", "Tillverkning av betongprodukter för byggändamål", "Manufacture of concrete products for construction purposes"],
+  ["2362", "Tillverkning av gipsprodukter för byggändamål", "Manufacture of plaster products for construction purposes"],
+  ["2363", "Tillverkning av fabriksblandad betong", "Manufacture of ready-mixed concrete"],
+  ["2364", "Tillverkning av murbruk", "Manufacture of mortars"],
+  ["2365", "Tillverkning av fibercementvaror", "Manufacture of fibre cement"],
+  ["2369", "Tillverkning av andra varor av betong, cement och gips", "Manufacture of other articles of concrete, plaster and cement"],
+  ["237", "Huggning, formning och slutlig bearbetning av sten", "Cutting, shaping and finishing of stone"],
+  ["2370", "Huggning, formning och slutlig bearbetning av sten", "Cutting, shaping and finishing of stone"],
+  ["239", "Tillverkning av slipmedel och mineraliska produkter som inte klassificeras någon annanstans", "Manufacture of abrasive products and non-metallic mineral products n.e.c."],
+  ["2391", "Tillverkning av slipmedel", "Manufacture of abrasive products"],
+  ["2399", "Tillverkning av övriga icke-metalliska mineraliska produkter", "Manufacture of other non-metallic mineral products n.e.c."],
+  ["24", "Stål- och metallframställning", "Manufacture of basic metals"],
+  ["241", "Framställning av järn och stål samt ferrolegeringar", "Manufacture of basic iron and steel and of ferro-alloys"],
+  ["2410", "Framställning av järn och stål samt ferrolegeringar", "Manufacture of basic iron and steel and of ferro-alloys"],
+  ["242", "Tillverkning av rör, ledningar, ihåliga profiler och tillbehör av stål", "Manufacture of tubes, pipes, hollow profiles and related fittings, of steel"],
+  ["2420", "Tillverkning av rör, ledningar, ihåliga profiler och tillbehör av stål", "Manufacture of tubes, pipes, hollow profiles and related fittings, of steel"],
+  ["243", "Annan primärbearbetning av stål", "Manufacture of other products of first processing of steel"],
+  ["2431", "Kalldragning av stång", "Cold drawing of bars"],
+  ["2432", "Kallvalsning av bandstål", "Cold rolling of narrow strip"],
+  ["2433", "Kallformning av profiler", "Cold forming or folding"],
+  ["2434", "Tillverkning av kalldragen tråd", "Cold drawing of wire"],
+  ["244", "Framställning av andra metaller än järn", "Manufacture of basic precious and other non-ferrous metals"],
+  ["2441", "Framställning av ädla metaller", "Precious metals production"],
+  ["2442", "Framställning av aluminium", "Aluminium production"],
+  ["2443", "Framställning av bly, zink och tenn", "Lead, zinc and tin production"],
+  ["2444", "Framställning av koppar", "Copper production"],
+  ["2445", "Framställning av andra metaller än järn", "Other non-ferrous metal production"],
+  ["2446", "Upparbetning av kärnbränsle", "Processing of nuclear fuel"],
+  ["245", "Gjutning av metaller", "Casting of metals"],
+  ["2451", "Gjutning av järn", "Casting of iron"],
+  ["2452", "Gjutning av stål", "Casting of steel"],
+  ["2453", "Gjutning av lättmetall", "Casting of light metals"],
+  ["2454", "Gjutning av andra metaller än järn", "Casting of other non-ferrous metals"],
+  ["25", "Tillverkning av metallvaror utom maskiner och apparater", "Manufacture of fabricated metal products, except machinery and equipment"],
+  ["251", "Tillverkning av byggnadsmetallvaror", "Manufacture of structural metal products"],
+  ["2511", "Tillverkning av metallstommar och delar därav", "Manufacture of metal structures and parts of structures"],
+  ["2512", "Tillverkning av dörrar och fönster av metall", "Manufacture of doors and windows of metal"],
+  ["252", "Tillverkning av cisterner, tankar, radiatorer och behållare av metall", "Manufacture of tanks, reservoirs and containers of metal"],
+  ["2521", "Tillverkning av radiatorer och pannor för centralvärme", "Manufacture of central heating radiators and boilers"],
+  ["2529", "Tillverkning av andra cisterner, tankar och behållare av metall", "Manufacture of other tanks, reservoirs and containers of metal"],
+  ["253", "Tillverkning av ånggeneratorer utom varmvattenpannor för centralvärme", "Manufacture of steam generators, except central heating hot water boilers"],
+  ["2530", "Tillverkning av ånggeneratorer utom varmvattenpannor för centralvärme", "Manufacture of steam generators, except central heating hot water boilers"],
+  ["254", "Tillverkning av vapen och ammunition", "Manufacture of weapons and ammunition"],
+  ["2540", "Tillverkning av vapen och ammunition", "Manufacture of weapons and ammunition"],
+  ["255", "Smidning, pressning, prägling och valsning av metall; pulvermetallurgi", "Forging, pressing, stamping and roll-forming of metal; powder metallurgy"],
+  ["2550", "Smidning, pressning, prägling och valsning av metall; pulvermetallurgi", "Forging, pressing, stamping and roll-forming of metal; powder metallurgy"],
+  ["256", "Beläggning och överdragning av metall; metallegoarbeten", "Treatment and coating of metals; machining"],
+  ["2561", "Beläggning och överdragning av metall", "Treatment and coating of metals"],
+  ["2562", "Metallegoarbeten", "Machining"],
+  ["257", "Tillverkning av bestick, verktyg och andra järnhandelsvaror", "Manufacture of cutlery, tools and general hardware"],
+  ["2571", "Tillverkning av bestick", "Manufacture of cutlery"],
+  ["2572", "Tillverkning av lås och gångjärn", "Manufacture of locks and hinges"],
+  ["2573", "Tillverkning av verktyg och redskap", "Manufacture of tools"],
+  ["259", "Tillverkning av andra metallvaror", "Manufacture of other fabricated metal products"],
+  ["2591", "Tillverkning av stålfat och liknande behållare", "Manufacture of steel drums and similar containers"],
+  ["2592", "Tillverkning av lättmetallförpackningar", "Manufacture of light metal packaging"],
+  ["2593", "Tillverkning av metalltrådsvaror, kedjor och fjädrar", "Manufacture of wire products, chain and springs"],
+  ["2594", "Tillverkning av fästelement och skruvmaskinprodukter", "Manufacture of fasteners and screw machine products"],
+  ["2599", "Tillverkning av övriga metallvaror", "Manufacture of other fabricated metal products n.e.c."],
+  ["26", "Tillverkning av datorer, elektronikvaror och optik", "Manufacture of computer, electronic and optical products"],
+  ["261", "Tillverkning av elektroniska komponenter och kretskort", "Manufacture of electronic components and boards"],
+  ["2611", "Tillverkning av elektroniska komponenter", "Manufacture of electronic components"],
+  ["2612", "Tillverkning av kretskort", "Manufacture of loaded electronic boards"],
+  ["262", "Tillverkning av datorer och kringutrustning", "Manufacture of computers and peripheral equipment"],
+  ["2620", "Tillverkning av datorer och kringutrustning", "Manufacture of computers and peripheral equipment"],
+  ["263", "Tillverkning av kommunikationsutrustning", "Manufacture of communication equipment"],
+  ["2630", "Tillverkning av kommunikationsutrustning", "Manufacture of communication equipment"],
+  ["264", "Tillverkning av hemelektronik", "Manufacture of consumer electronics"],
+  ["2640", "Tillverkning av hemelektronik", "Manufacture of consumer electronics"],
+  ["265", "Tillverkning av instrument och apparater för mätning, provning och navigering; tillverkning av ur", "Manufacture of instruments and appliances for measuring, testing and navigation; watches and clocks"],
+  ["2651", "Tillverkning av instrument och apparater för mätning, provning och navigering", "Manufacture of instruments and appliances for measuring, testing and navigation"],
+  ["2652", "Tillverkning av ur", "Manufacture of watches and clocks"],
+  ["266", "Tillverkning av strålningsutrustning samt elektromedicinsk och elektroterapeutisk utrustning", "Manufacture of irradiation, electromedical and electrotherapeutic equipment"],
+  ["2660", "Tillverkning av strålningsutrustning samt elektromedicinsk och elektroterapeutisk utrustning", "Manufacture of irradiation, electromedical and electrotherapeutic equipment"],
+  ["267", "Tillverkning av optiska instrument och fotoutrustning", "Manufacture of optical instruments and photographic equipment"],
+  ["2670", "Tillverkning av optiska instrument och fotoutrustning", "Manufacture of optical instruments and photographic equipment"],
+  ["268", "Tillverkning av magnetiska och optiska media", "Manufacture of magnetic and optical media"],
+  ["2680", "Tillverkning av magnetiska och optiska media", "Manufacture of magnetic and optical media"],
+  ["27", "Tillverkning av elapparatur", "Manufacture of electrical equipment"],
+  ["271", "Tillverkning av elmotorer, generatorer, transformatorer samt elkopplings- och eldistributionsapparater", "Manufacture of electric motors, generators, transformers and electricity distribution and control apparatus"],
+  ["2711", "Tillverkning av elmotorer, generatorer och transformatorer", "Manufacture of electric motors, generators and transformers"],
+  ["2712", "Tillverkning av elkopplings- och eldistributionsapparater", "Manufacture of electricity distribution and control apparatus"],
+  ["272", "Tillverkning av batterier och ackumulatorer", "Manufacture of batteries and accumulators"],
+  ["2720", "Tillverkning av batterier och ackumulatorer", "Manufacture of batteries and accumulators"],
+  ["273", "Tillverkning av kablar och kabeltillbehör", "Manufacture of wiring and wiring devices"],
+  ["2731", "Tillverkning av optiska fiberkablar", "Manufacture of fibre optic cables"],
+  ["2732", "Tillverkning av andra elektroniska och elektriska ledningar och kablar", "Manufacture of other electronic and electric wires and cables"],
+  ["2733", "Tillverkning av kabeltillbehör", "Manufacture of wiring devices"],
+  ["274", "Tillverkning av belysningsarmatur", "Manufacture of electric lighting equipment"],
+  ["2740", "Tillverkning av belysningsarmatur", "Manufacture of electric lighting equipment"],
+  ["275", "Tillverkning av hushållsapparater", "Manufacture of domestic appliances"],
+  ["2751", "Tillverkning av elektriska hushållsmaskiner och hushållsapparater", "Manufacture of electric domestic appliances"],
+  ["2752", "Tillverkning av icke-elektriska hushållsmaskiner och hushållsapparater", "Manufacture of non-electric domestic appliances"],
+  ["279", "Tillverkning av annan elapparatur", "Manufacture of other electrical equipment"],
+  ["2790", "Tillverkning av annan elapparatur", "Manufacture of other electrical equipment"],
+  ["28", "Tillverkning av övriga maskiner", "Manufacture of machinery and equipment n.e.c."],
+  ["281", "Tillverkning av maskiner för allmänt ändamål", "Manufacture of general-purpose machinery"],
+  ["2811", "Tillverkning av motorer och turbiner utom för luftfartyg och fordon", "Manufacture of engines and turbines, except aircraft, vehicle and cycle engines"],
+  ["2812", "Tillverkning av fluidteknisk utrustning", "Manufacture of fluid power equipment"],
+  ["2813", "Tillverkning av andra pumpar och kompressorer", "Manufacture of other pumps and compressors"],
+  ["2814", "Tillverkning av andra kranar och ventiler", "Manufacture of other taps and valves"],
+  ["2815", "Tillverkning av lager, kugghjul och andra delar för kraftöverföring", "Manufacture of bearings, gears, gearing and driving elements"],
+  ["282", "Tillverkning av andra maskiner för allmänt ändamål", "Manufacture of other general-purpose machinery"],
+  ["2821", "Tillverkning av industriugnar, smältugnar och ugnsbrännare", "Manufacture of ovens, furnaces and furnace burners"],
+  ["2822", "Tillverkning av lyft- och godshanteringsanordningar", "Manufacture of lifting and handling equipment"],
+  ["2823", "Tillverkning av kontorsmaskiner och kontorsutrustning utom datorer och kringutrustning", "Manufacture of office machinery and equipment (except computers and peripheral equipment)"],
+  ["2824", "Tillverkning av motordrivna handverktyg", "Manufacture of power-driven hand tools"],
+  ["2825", "Tillverkning av kyl- och ventilationsanläggningar utom för hushållsbruk", "Manufacture of non-domestic cooling and ventilation equipment"],
+  ["2829", "Tillverkning av övriga maskiner för allmänt ändamål", "Manufacture of other general-purpose machinery n.e.c."],
+  ["283", "Tillverkning av jord- och skogsbruksmaskiner", "Manufacture of agricultural and forestry machinery"],
+  ["2830", "Tillverkning av jord- och skogsbruksmaskiner", "Manufacture of agricultural and forestry machinery"],
+  ["284", "Tillverkning av maskiner för metallbearbetning och andra verktygsmaskiner", "Manufacture of metal forming machinery and machine tools"],
+  ["2841", "Tillverkning av maskiner för metallbearbetning", "Manufacture of metal forming machinery"],
+  ["2849", "Tillverkning av andra verktygsmaskiner", "Manufacture of other machine tools"],
+  ["289", "Tillverkning av andra specialmaskiner", "Manufacture of other special-purpose machinery"],
+  ["2891", "Tillverkning av maskiner för metallurgi", "Manufacture of machinery for metallurgy"],
+  ["2892", "Tillverkning av gruv-, bygg- och anläggningsmaskiner", "Manufacture of machinery for mining, quarrying and construction"],
+  ["2893", "Tillverkning av maskiner för livsmedels-, dryckesvaru- och tobaksframställning", "Manufacture of machinery for food, beverage and tobacco processing"],
+  ["2894", "Tillverkning av maskiner för textil-, konfektions- och läderindustri", "Manufacture of machinery for textile, apparel and leather production"],
+  ["2895", "Tillverkning av maskiner för massa-, pappers- och pappindustri", "Manufacture of machinery for paper and paperboard production"],
+  ["2896", "Tillverkning av maskiner för gummi- och plastindustri", "Manufacture of plastics and rubber machinery"],
+  ["2899", "Tillverkning av övriga specialmaskiner", "Manufacture of other special-purpose machinery n.e.c."],
+  ["29", "Tillverkning av motorfordon, släpfordon och påhängsvagnar", "Manufacture of motor vehicles, trailers and semi-trailers"],
+  ["291", "Tillverkning av motorfordon", "Manufacture of motor vehicles"],
+  ["2910", "Tillverkning av motorfordon", "Manufacture of motor vehicles"],
+  ["292", "Tillverkning av karosserier för motorfordon; tillverkning av släpfordon och påhängsvagnar", "Manufacture of bodies (coachwork) for motor vehicles; manufacture of trailers and semi-trailers"],
+  ["2920", "Tillverkning av karosserier för motorfordon; tillverkning av släpfordon och påhängsvagnar", "Manufacture of bodies (coachwork) for motor vehicles; manufacture of trailers and semi-trailers"],
+  ["293", "Tillverkning av delar och tillbehör till motorfordon", "Manufacture of parts and accessories for motor vehicles"],
+  ["2931", "Tillverkning av elektrisk och elektronisk utrustning för motorfordon", "Manufacture of electrical and electronic equipment for motor vehicles"],
+  ["2932", "Tillverkning av andra delar och tillbehör till motorfordon", "Manufacture of other parts and accessories for motor vehicles"],
+  ["30", "Tillverkning av andra transportmedel", "Manufacture of other transport equipment"],
+  ["301", "Byggande av fartyg och båtar", "Building of ships and boats"],
+  ["3011", "Byggande av fartyg och flytande materiel", "Building of ships and floating structures"],
+  ["3012", "Byggande av fritidsbåtar", "Building of pleasure and sporting boats"],
+  ["302", "Tillverkning av rälsfordon", "Manufacture of railway locomotives and rolling stock"],
+  ["3020", "Tillverkning av rälsfordon", "Manufacture of railway locomotives and rolling stock"],
+  ["303", "Tillverkning av luftfartyg, rymdfarkoster o.d.", "Manufacture of air and spacecraft and related machinery"],
+  ["3030", "Tillverkning av luftfartyg, rymdfarkoster o.d.", "Manufacture of air and spacecraft and related machinery"],
+  ["304", "Tillverkning av militära stridsfordon", "Manufacture of military fighting vehicles"],
+  ["3040", "Tillverkning av militära stridsfordon", "Manufacture of military fighting vehicles"],
+  ["309", "Tillverkning av övriga transportmedel", "Manufacture of transport equipment n.e.c."],
+  ["3091", "Tillverkning av motorcyklar", "Manufacture of motorcycles"],
+  ["3092", "Tillverkning av cyklar och invalidfordon", "Manufacture of bicycles and invalid carriages"],
+  ["3099", "Tillverkning av övriga transportmedel", "Manufacture of other transport equipment n.e.c."],
+  ["31", "Tillverkning av möbler", "Manufacture of furniture"],
+  ["310", "Tillverkning av möbler", "Manufacture of furniture"],
+  ["3101", "Tillverkning av kontors- och butiksmöbler", "Manufacture of office and shop furniture"],
+  ["31011", "Tillverkning av kontorsmöbler", "Manufacture of office furniture"],
+  ["31012", "Tillverkning av butiksmöbler", "Manufacture of shop furniture"],
+  ["3102", "Tillverkning av köksmöbler", "Manufacture of kitchen furniture"],
+  ["3103", "Tillverkning av madrasser", "Manufacture of mattresses"],
+  ["3109", "Tillverkning av andra möbler", "Manufacture of other furniture"],
+  ["32", "Annan tillverkning", "Other manufacturing"],
+  ["321", "Tillverkning av smycken, bijouterier och liknande produkter", "Manufacture of jewellery, bijouterie and related articles"],
+  ["3211", "Prägling av mynt", "Striking of coins"],
+  ["3212", "Tillverkning av smycken, guld- och silversmedsvaror", "Manufacture of jewellery and related articles"],
+  ["3213", "Tillverkning av bijouterier", "Manufacture of imitation jewellery and related articles"],
+  ["322", "Tillverkning av musikinstrument", "Manufacture of musical instruments"],
+  ["3220", "Tillverkning av musikinstrument", "Manufacture of musical instruments"],
+  ["323", "Tillverkning av sportartiklar", "Manufacture of sports goods"],
+  ["3230", "Tillverkning av sportartiklar", "Manufacture of sports goods"],
+  ["324", "Tillverkning av spel och leksaker", "Manufacture of games and toys"],
+  ["3240", "Tillverkning av spel och leksaker", "Manufacture of games and toys"],
+  ["325", "Tillverkning av medicinska och dentala instrument och tillbehör", "Manufacture of medical and dental instruments and supplies"],
+  ["3250", "Tillverkning av medicinska och dentala instrument och tillbehör", "Manufacture of medical and dental instruments and supplies"],
+  ["329", "Tillverkning av övriga varor", "Manufacturing n.e.c."],
+  ["3291", "Tillverkning av borstbinderiarbeten", "Manufacture of brooms and brushes"],
+  ["3299", "Diverse övrig tillverkning", "Other manufacturing n.e.c."],
+  ["33", "Reparation och installation av maskiner och apparater", "Repair and installation of machinery and equipment"],
+  ["331", "Reparation av metallvaror, maskiner och apparater", "Repair of fabricated metal products, machinery and equipment"],
+  ["3311", "Reparation av metallvaror", "Repair of fabricated metal products"],
+  ["3312", "Reparation av maskiner", "Repair of machinery"],
+  ["3313", "Reparation av elektronisk och optisk utrustning", "Repair of electronic and optical equipment"],
+  ["3314", "Reparation av elapparatur", "Repair of electrical equipment"],
+  ["3315", "Reparation och underhåll av fartyg och båtar", "Repair and maintenance of ships and boats"],
+  ["3316", "Reparation och underhåll av luftfartyg och rymdfarkoster", "Repair and maintenance of aircraft and spacecraft"],
+  ["3317", "Reparation och underhåll av andra transportmedel", "Repair and maintenance of other transport equipment"],
+  ["3319", "Reparation av övrig utrustning", "Repair of other equipment"],
+  ["332", "Installation av industrimaskiner och -utrustning", "Installation of industrial machinery and equipment"],
+  ["3320", "Installation av industrimaskiner och -utrustning", "Installation of industrial machinery and equipment"],
+
+  // D - Försörjning av el, gas, värme och kyla
+  ["35", "Försörjning av el, gas, värme och kyla", "Electricity, gas, steam and air conditioning supply"],
+  ["351", "Generering, överföring och distribution av elektricitet", "Electric power generation, transmission and distribution"],
+  ["3511", "Generering av elektricitet", "Production of electricity"],
+  ["3512", "Överföring av elektricitet", "Transmission of electricity"],
+  ["3513", "Distribution av elektricitet", "Distribution of electricity"],
+  ["3514", "Handel med elektricitet", "Trade of electricity"],
+  ["352", "Framställning av gas; distribution av gasformiga bränslen via rörnät", "Manufacture of gas; distribution of gaseous fuels through mains"],
+  ["3521", "Framställning av gas", "Manufacture of gas"],
+  ["3522", "Distribution av gasformiga bränslen via rörnät", "Distribution of gaseous fuels through mains"],
+  ["3523", "Handel med gas via rörnät", "Trade of gas through mains"],
+  ["353", "Försörjning av värme och kyla", "Steam and air conditioning supply"],
+  ["3530", "Försörjning av värme och kyla", "Steam and air conditioning supply"],
+
+  // E - Vattenförsörjning; avloppsrening, avfallshantering och sanering
+  ["36", "Vattenförsörjning", "Water collection, treatment and supply"],
+  ["360", "Vattenförsörjning", "Water collection, treatment and supply"],
+  ["3600", "Vattenförsörjning", "Water collection, treatment and supply"],
+  ["37", "Avloppsrening", "Sewerage"],
+  ["370", "Avloppsrening", "Sewerage"],
+  ["3700", "Avloppsrening", "Sewerage"],
+  ["38", "Avfallshantering; återvinning", "Waste collection, treatment and disposal activities; materials recovery"],
+  ["381", "Insamling av avfall", "Waste collection"],
+  ["3811", "Insamling av icke-farligt avfall", "Collection of non-hazardous waste"],
+  ["3812", "Insamling av farligt avfall", "Collection of hazardous waste"],
+  ["382", "Behandling och bortskaffande av avfall", "Waste treatment and disposal"],
+  ["3821", "Behandling och bortskaffande av icke-farligt avfall", "Treatment and disposal of non-hazardous waste"],
+  ["3822", "Behandling och bortskaffande av farligt avfall", "Treatment and disposal of hazardous waste"],
+  ["383", "Återvinning", "Materials recovery"],
+  ["3831", "Demontering av uttjänta produkter", "Dismantling of wrecks"],
+  ["3832", "Återvinning av sorterat material", "Recovery of sorted materials"],
+  ["39", "Sanering, efterbehandling av jord och vatten samt annan verksamhet för föroreningsbekämpning", "Remediation activities and other waste management services"],
+  ["390", "Sanering, efterbehandling av jord och vatten samt annan verksamhet för föroreningsbekämpning", "Remediation activities and other waste management services"],
+  ["3900", "Sanering, efterbehandling av jord och vatten samt annan verksamhet för föroreningsbekämpning", "Remediation activities and other waste management services"],
+
+  // F - Byggverksamhet
+  ["41", "Byggande av hus", "Construction of buildings"],
+  ["411", "Byggprojektering", "Development of building projects"],
+  ["4110", "Byggprojektering", "Development of building projects"],
+  ["412", "Byggande av bostadshus och andra byggnader", "Construction of residential and non-residential buildings"],
+  ["4120", "Byggande av bostadshus och andra byggnader", "Construction of residential and non-residential buildings"],
+  ["42", "Anläggningsarbeten", "Civil engineering"],
+  ["421", "Anläggning av vägar och järnvägar", "Construction of roads and railways"],
+  ["4211", "Anläggning av vägar och motorvägar", "Construction of roads and motorways"],
+  ["4212", "Anläggning av järnvägar och tunnelbanor", "Construction of railways and underground railways"],
+  ["4213", "Byggande av broar och tunnlar", "Construction of bridges and tunnels"],
+  ["422", "Allmännyttiga anläggningsarbeten", "Construction of utility projects"],
+  ["4221", "Allmännyttiga anläggningsarbeten för vätska", "Construction of utility projects for fluids"],
+  ["4222", "Allmännyttiga anläggningsarbeten för el och telekommunikation", "Construction of utility projects for electricity and telecommunications"],
+  ["429", "Andra anläggningsarbeten", "Construction of other civil engineering projects"],
+  ["4291", "Vattenbyggnad", "Construction of water projects"],
+  ["4299", "Övriga anläggningsarbeten", "Construction of other civil engineering projects n.e.c."],
+  ["43", "Specialiserad bygg- och anläggningsverksamhet", "Specialised construction activities"],
+  ["431", "Rivning av hus och byggnader samt markundersökning", "Demolition and site preparation"],
+  ["4311", "Rivning av hus och byggnader", "Demolition"],
+  ["4312", "Mark- och grundarbeten", "Site preparation"],
+  ["4313", "Markundersökning", "Test drilling and boring"],
+  ["432", "El-, VVS- och annan bygginstallation", "Electrical, plumbing and other construction installation activities"],
+  ["4321", "Elinstallationer", "Electrical installation"],
+  ["4322", "VVS-arbeten", "Plumbing, heat and air-conditioning installation"],
+  ["43221", "Värme- och sanitetsarbeten", "Heating and sanitation work"],
+  ["43222", "Ventilationsarbeten", "Ventilation work"],
+  ["43223", "Kyl- och frysinstallationsarbeten", "Refrigeration installation work"],
+  ["43229", "Övriga VVS-arbeten", "Other plumbing, heat and air-conditioning installation"],
+  ["4329", "Andra bygginstallationer", "Other construction installation"],
+  ["43291", "Isoleringsarbeten", "Insulation work"],
+  ["43299", "Övriga bygginstallationer", "Other construction installation n.e.c."],
+  ["433", "Slutbehandling av byggnader", "Building completion and finishing"],
+  ["4331", "Puts-, fasad- och stuckatörsarbeten", "Plastering"],
+  ["4332", "Byggnadssnickeriarbeten", "Joinery installation"],
+  ["4333", "Golv- och väggbeläggningsarbeten", "Floor and wall covering"],
+  ["4334", "Måleri- och glasmästeriarbeten", "Painting and glazing"],
+  ["43341", "Måleriarbeten", "Painting"],
+  ["43342", "Glasmästeriarbeten", "Glazing"],
+  ["4339", "Annan slutbehandling av byggnader", "Other building completion and finishing"],
+  ["439", "Annan specialiserad bygg- och anläggningsverksamhet", "Other specialised construction activities"],
+  ["4391", "Takarbeten", "Roofing activities"],
+  ["4399", "Annan specialiserad bygg- och anläggningsverksamhet", "Other specialised construction activities n.e.c."],
+  ["43991", "Uthyrning av bygg- och anläggningsmaskiner med förare", "Rental of construction machinery with operator"],
+  ["43999", "Diverse övrig specialiserad bygg- och anläggningsverksamhet", "Other specialised construction activities, miscellaneous"],
+
+  // G - Handel; reparation av motorfordon och motorcyklar
+  ["45", "Handel samt reparation av motorfordon och motorcyklar", "Wholesale and retail trade and repair of motor vehicles and motorcycles"],
+  ["451", "Handel med motorfordon utom motorcyklar", "Sale of motor vehicles"],
+  ["4511", "Handel med personbilar och lätta motorfordon", "Sale of cars and light motor vehicles"],
+  ["4519", "Handel med andra motorfordon", "Sale of other motor vehicles"],
+  ["452", "Underhåll och reparation av motorfordon utom motorcyklar", "Maintenance and repair of motor vehicles"],
+  ["4520", "Underhåll och reparation av motorfordon utom motorcyklar", "Maintenance and repair of motor vehicles"],
+  ["45201", "Allmän service och reparationer av motorfordon utom motorcyklar", "General maintenance and repair of motor vehicles"],
+  ["45202", "Plåt- och lackreparationer på motorfordon utom motorcyklar", "Body and paint repair of motor vehicles"],
+  ["45203", "Installationer och reparationer av elsystem i motorfordon utom motorcyklar", "Installation and repair of electrical systems in motor vehicles"],
+  ["45204", "Däckservice", "Tyre service"],
+  ["453", "Handel med reservdelar och tillbehör till motorfordon utom motorcyklar", "Sale of motor vehicle parts and accessories"],
+  ["4531", "Parti- och provisionshandel med reservdelar och tillbehör till motorfordon utom motorcyklar", "Wholesale trade of motor vehicle parts and accessories"],
+  ["4532", "Detaljhandel med reservdelar och tillbehör till motorfordon utom motorcyklar", "Retail trade of motor vehicle parts and accessories"],
+  ["454", "Handel med samt service och reparation av motorcyklar, reservdelar och tillbehör", "Sale, maintenance and repair of motorcycles and related parts and accessories"],
+  ["4540", "Handel med samt service och reparation av motorcyklar, reservdelar och tillbehör", "Sale, maintenance and repair of motorcycles and related parts and accessories"],
+  ["46", "Parti- och provisionshandel utom med motorfordon", "Wholesale trade, except of motor vehicles and motorcycles"],
+  ["461", "Provisionshandel utom med motorfordon", "Wholesale on a fee or contract basis"],
+  ["4611", "Provisionshandel med jordbruksråvaror, levande djur, textilråvaror och textilhalvfabrikat", "Agents involved in the sale of agricultural raw materials, live animals, textile raw materials and semi-finished goods"],
+  ["4612", "Provisionshandel med bränslen, malm, metaller och industrikemikalier", "Agents involved in the sale of fuels, ores, metals and industrial chemicals"],
+  ["4613", "Provisionshandel med virke och byggmaterial", "Agents involved in the sale of timber and building materials"],
+  ["4614", "Provisionshandel med maskiner, industriell utrustning, fartyg och luftfartyg", "Agents involved in the sale of machinery, industrial equipment, ships and aircraft"],
+  ["4615", "Provisionshandel med möbler, hushålls- och järnhandelsvaror", "Agents involved in the sale of furniture, household goods, hardware and ironmongery"],
+  ["4616", "Provisionshandel med textilier, kläder, skodon och lädervaror", "Agents involved in the sale of textiles, clothing, fur, footwear and leather goods"],
+  ["4617", "Provisionshandel med livsmedel, drycker och tobak", "Agents involved in the sale of food, beverages and tobacco"],
+  ["4618", "Provisionshandel med annat specialsortiment", "Agents specialised in the sale of other particular products"],
+  ["4619", "Provisionshandel med blandat sortiment", "Agents involved in the sale of a variety of goods"],
+  ["462", "Partihandel med jordbruksråvaror och levande djur", "Wholesale of agricultural raw materials and live animals"],
+  ["4621", "Partihandel med spannmål, råtobak, utsäde och djurfoder", "Wholesale of grain, unmanufactured tobacco, seeds and animal feeds"],
+  ["4622", "Partihandel med blommor och växter", "Wholesale of flowers and plants"],
+  ["4623", "Partihandel med levande djur", "Wholesale of live animals"],
+  ["4624", "Partihandel med hudar, skinn och läder", "Wholesale of hides, skins and leather"],
+  ["463", "Partihandel med livsmedel, drycker och tobak", "Wholesale of food, beverages and tobacco"],
+  ["4631", "Partihandel med frukt och grönsaker", "Wholesale of fruit and vegetables"],
+  ["4632", "Partihandel med kött och köttvaror", "Wholesale of meat and meat products"],
+  ["4633", "Partihandel med mejeriprodukter, ägg, matolja och matfett", "Wholesale of dairy products, eggs and edible oils and fats"],
+  ["4634", "Partihandel med drycker", "Wholesale of beverages"],
+  ["4635", "Partihandel med tobak", "Wholesale of tobacco products"],
+  ["4636", "Partihandel med socker, choklad och sockerkonfektyrer", "Wholesale of sugar and chocolate and sugar confectionery"],
+  ["4637", "Partihandel med kaffe, te, kakao och kryddor", "Wholesale of coffee, tea, cocoa and spices"],
+  ["4638", "Partihandel med andra livsmedel, inklusive fisk samt kräft- och blötdjur", "Wholesale of other food, including fish, crustaceans and molluscs"],
+  ["4639", "Icke-specialiserad partihandel med livsmedel, drycker och tobak", "Non-specialised wholesale of food, beverages and tobacco"],
+  ["464", "Partihandel med hushållsvaror", "Wholesale of household goods"],
+  ["4641", "Partihandel med textilier", "Wholesale of textiles"],
+  ["4642", "Partihandel med kläder och skodon", "Wholesale of clothing and footwear"],
+  ["4643", "Partihandel med hushållsapparater och hemelektronik", "Wholesale of electrical household appliances"],
+  ["4644", "Partihandel med glas, porslin och rengöringsmedel", "Wholesale of china and glassware and cleaning materials"],
+  ["4645", "Partihandel med parfym och kosmetika", "Wholesale of perfume and cosmetics"],
+  ["4646", "Partihandel med medicinsk utrustning och apoteksvaror", "Wholesale of pharmaceutical goods"],
+  ["4647", "Partihandel med möbler, mattor och belysningsartiklar", "Wholesale of furniture, carpets and lighting equipment"],
+  ["4648", "Partihandel med ur och smycken", "Wholesale of watches and jewellery"],
+  ["4649", "Partihandel med andra hushållsvaror", "Wholesale of other household goods"],
+  ["465", "Partihandel med informations- och kommunikationsutrustning", "Wholesale of information and communication equipment"],
+  ["4651", "Partihandel med datorer och kringutrustning samt programvara", "Wholesale of computers, computer peripheral equipment and software"],
+  ["4652", "Partihandel med elektronik- och telekommunikationsutrustning samt delar", "Wholesale of electronic and telecommunications equipment and parts"],
+  ["466", "Partihandel med andra maskiner, apparater och tillbehör", "Wholesale of other machinery, equipment and supplies"],
+  ["4661", "Partihandel med jordbruksmaskiner och -utrustning", "Wholesale of agricultural machinery, equipment and supplies"],
+  ["4662", "Partihandel med verktygsmaskiner", "Wholesale of machine tools"],
+  ["4663", "Partihandel med gruv-, bygg- och anläggningsmaskiner", "Wholesale of mining, construction and civil engineering machinery"],
+  ["4664", "Partihandel med maskiner för textil-, sy- och stickindustrin", "Wholesale of machinery for the textile industry and of sewing and knitting machines"],
+  ["4665", "Partihandel med kontorsmöbler", "Wholesale of office furniture"],
+  ["4666", "Partihandel med andra kontorsmaskiner och kontorsutrustning", "Wholesale of other office machinery and equipment"],
+  ["4669", "Partihandel med andra maskiner och annan utrustning", "Wholesale of other machinery and equipment"],
+  ["467", "Annan specialiserad partihandel", "Other specialised wholesale"],
+  ["4671", "Partihandel med fasta, flytande och gasformiga bränslen", "Wholesale of solid, liquid and gaseous fuels and related products"],
+  ["4672", "Partihandel med metaller och metallmalmer", "Wholesale of metals and metal ores"],
+  ["4673", "Partihandel med virke, andra byggmaterial och sanitetsgods", "Wholesale of wood, construction materials and sanitary equipment"],
+  ["46731", "Partihandel med virke och andra byggmaterial", "Wholesale of wood and other construction materials"],
+  ["46732", "Partihandel med sanitetsgods", "Wholesale of sanitary equipment"],
+  ["4674", "Partihandel med järnhandelsvaror, VVS-artiklar och värmeutrustning", "Wholesale of hardware, plumbing and heating equipment and supplies"],
+  ["46741", "Partihandel med järnhandelsvaror", "Wholesale of hardware"],
+  ["46742", "Partihandel med VVS-varor", "Wholesale of plumbing and heating equipment and supplies"],
+  ["4675", "Partihandel med kemiska produkter", "Wholesale of chemical products"],
+  ["4676", "Partihandel med andra insatsvaror", "Wholesale of other intermediate products"],
+  ["4677", "Partihandel med avfallsprodukter och skrot", "Wholesale of waste and scrap"],
+  ["469", "Icke-specialiserad partihandel", "Non-specialised wholesale trade"],
+  ["4690", "Icke-specialiserad partihandel", "Non-specialised wholesale trade"],
+  ["47", "Detaljhandel utom med motorfordon och motorcyklar", "Retail trade, except of motor vehicles and motorcycles"],
+  ["471", "Detaljhandel med brett sortiment", "Retail sale in non-specialised stores"],
+  ["4711", "Detaljhandel med brett sortiment, huvudsakligen livsmedel, drycker och tobak", "Retail sale in non-specialised stores with food, beverages or tobacco predominating"],
+  ["47111", "Varuhus- och stormarknadshandel, huvudsakligen livsmedel, drycker och tobak", "Department store and supermarket trade, mainly food"],
+  ["47112", "Livsmedelshandel med brett sortiment", "Grocery stores with a broad range"],
+  ["4719", "Annan detaljhandel med brett sortiment", "Other retail sale in non-specialised stores"],
+  ["47191", "Annan varuhus- och stormarknadshandel", "Other department store and supermarket trade"],
+  ["47199", "Övrig detaljhandel med brett sortiment", "Other retail sale with a broad range"],
+  ["472", "Specialiserad butikshandel med livsmedel, drycker och tobak", "Retail sale of food, beverages and tobacco in specialised stores"],
+  ["4721", "Specialiserad butikshandel med frukt och grönsaker", "Retail sale of fruit and vegetables in specialised stores"],
+  ["4722", "Specialiserad butikshandel med kött och charkuterier", "Retail sale of meat and meat products in specialised stores"],
+  ["4723", "Specialiserad butikshandel med fisk, skaldjur och andra blötdjur", "Retail sale of fish, crustaceans and molluscs in specialised stores"],
+  ["4724", "Specialiserad butikshandel med bröd, konditorivaror och konfektyrer", "Retail sale of bread, cakes, flour confectionery and sugar confectionery in specialised stores"],
+  ["47241", "Specialiserad butikshandel med bröd och konditorivaror", "Retail sale of bread and cakes in specialised stores"],
+  ["47242", "Specialiserad butikshandel med konfektyrer", "Retail sale of sugar confectionery in specialised stores"],
+  ["4725", "Specialiserad butikshandel med drycker", "Retail sale of beverages in specialised stores"],
+  ["4726", "Specialiserad butikshandel med tobaksvaror", "Retail sale of tobacco products in specialised stores"],
+  ["4729", "Annan specialiserad butikshandel med livsmedel", "Other retail sale of food in specialised stores"],
+  ["47291", "Specialiserad butikshandel med hälsokost", "Retail sale of health food in specialised stores"],
+  ["47299", "Övrig specialiserad butikshandel med livsmedel", "Other retail sale of food in specialised stores n.e.c."],
+  ["473", "Detaljhandel med drivmedel", "Retail sale of automotive fuel in specialised stores"],
+  ["4730", "Detaljhandel med drivmedel", "Retail sale of automotive fuel in specialised stores"],
+  ["474", "Specialiserad butikshandel med informations- och kommunikationsutrustning", "Retail sale of information and communication equipment in specialised stores"],
+  ["4741", "Specialiserad butikshandel med datorer, programvara och kringutrustning", "Retail sale of computers, peripheral units and software in specialised stores"],
+  ["4742", "Specialiserad butikshandel med telekommunikationsutrustning", "Retail sale of telecommunications equipment in specialised stores"],
+  ["4743", "Specialiserad butikshandel med ljud- och bildanläggningar samt video", "Retail sale of audio and video equipment in specialised stores"],
+  ["475", "Specialiserad butikshandel med andra hushållsvaror", "Retail sale of other household equipment in specialised stores"],
+  ["4751", "Specialiserad butikshandel med textilier", "Retail sale of textiles in specialised stores"],
+  ["4752", "Specialiserad butikshandel med järn- och byggvaror", "Retail sale of hardware, paints and glass in specialised stores"],
+  ["4753", "Specialiserad butikshandel med mattor, tapeter och golvbeläggningar", "Retail sale of carpets, rugs, wall and floor coverings in specialised stores"],
+  ["4754", "Specialiserad butikshandel med elektriska hushållsmaskiner och hushållsapparater", "Retail sale of electrical household appliances in specialised stores"],
+  ["4759", "Specialiserad butikshandel med möbler, belysningsartiklar och andra hushållsartiklar", "Retail sale of furniture, lighting equipment and other household articles in specialised stores"],
+  ["476", "Specialiserad butikshandel med kultur- och fritidsartiklar", "Retail sale of cultural and recreation goods in specialised stores"],
+  ["4761", "Specialiserad butikshandel med böcker", "Retail sale of books in specialised stores"],
+  ["4762", "Specialiserad butikshandel med tidningar och kontorsförbrukningsvaror", "Retail sale of newspapers and stationery in specialised stores"],
+  ["4763", "Specialiserad butikshandel med inspelade och oinspelade band och skivor för musik och video", "Retail sale of music and video recordings in specialised stores"],
+  ["4764", "Specialiserad butikshandel med sportartiklar", "Retail sale of sporting equipment in specialised stores"],
+  ["47641", "Specialiserad butikshandel med sport- och fritidsartiklar utom cyklar och båtar", "Retail sale of sports and leisure goods except bicycles and boats in specialised stores"],
+  ["47642", "Specialiserad butikshandel med båtar och båttillbehör", "Retail sale of boats and boat accessories in specialised stores"],
+  ["47643", "Specialiserad butikshandel med cyklar", "Retail sale of bicycles in specialised stores"],
+  ["4765", "Specialiserad butikshandel med spel och leksaker", "Retail sale of games and toys in specialised stores"],
+  ["477", "Specialiserad butikshandel med andra varor", "Retail sale of other goods in specialised stores"],
+  ["4771", "Specialiserad butikshandel med kläder", "Retail sale of clothing in specialised stores"],
+  ["47711", "Specialiserad butikshandel med herr-, dam- och barnkläder, blandat", "Retail sale of men's, women's and children's clothing, mixed"],
+  ["47712", "Specialiserad butikshandel med herrkläder", "Retail sale of men's clothing"],
+  ["47713", "Specialiserad butikshandel med damkläder", "Retail sale of women's clothing"],
+  ["47714", "Specialiserad butikshandel med barnkläder", "Retail sale of children's clothing"],
+  ["47715", "Specialiserad butikshandel med pälsar", "Retail sale of furs"],
+  ["4772", "Specialiserad butikshandel med skor och lädervaror", "Retail sale of footwear and leather goods in specialised stores"],
+  ["47721", "Specialiserad butikshandel med skor", "Retail sale of footwear"],
+  ["47722", "Specialiserad butikshandel med väskor, reseffekter och lädervaror", "Retail sale of bags, travel goods and leather goods"],
+  ["4773", "Apoteksvaruhandel", "Dispensing chemist in specialised stores"],
+  ["4774", "Specialiserad butikshandel med sjukvårdsartiklar", "Retail sale of medical and orthopaedic goods in specialised stores"],
+  ["4775", "Specialiserad butikshandel med kosmetika och hygienartiklar", "Retail sale of cosmetic and toilet articles in specialised stores"],
+  ["4776", "Specialiserad butikshandel med blommor och andra växter, frön, gödselmedel, små sällskapsdjur och djurfoder", "Retail sale of flowers, plants, seeds, fertilisers, pet animals and pet food in specialised stores"],
+  ["47761", "Specialiserad butikshandel med blommor och andra växter, frön och gödselmedel", "Retail sale of flowers, plants, seeds and fertilisers"],
+  ["47762", "Specialiserad butikshandel med små sällskapsdjur", "Retail sale of pet animals and pet food"],
+  ["4777", "Specialiserad butikshandel med ur, guldsmedsvaror och smycken", "Retail sale of watches and jewellery in specialised stores"],
+  ["4778", "Annan specialiserad butikshandel med nya varor", "Other retail sale of new goods in specialised stores"],
+  ["47781", "Specialiserad butikshandel med glasögon och andra optiska artiklar", "Retail sale of spectacles and other optical goods"],
+  ["47782", "Specialiserad butikshandel med fotoutrustning", "Retail sale of photographic equipment"],
+  ["47783", "Specialiserad butikshandel med konst samt galleriverksamhet", "Retail sale of art and art gallery activities"],
+  ["47784", "Specialiserad butikshandel med mynt och frimärken", "Retail sale of coins and stamps"],
+  ["47789", "Övrig specialiserad butikshandel med nya varor", "Other retail sale of new goods n.e.c."],
+  ["4779", "Specialiserad butikshandel med begagnade varor", "Retail sale of second-hand goods in stores"],
+  ["47791", "Specialiserad butikshandel med antikviteter och begagnade böcker", "Retail sale of antiques and second-hand books"],
+  ["47792", "Specialiserad butikshandel med andra begagnade varor", "Retail sale of other second-hand goods"],
+  ["47793", "Auktioner i butik", "Auctions in stores"],
+  ["478", "Torghandel", "Retail sale via stalls and markets"],
+  ["4781", "Torghandel med livsmedel, drycker och tobak", "Retail sale via stalls and markets of food, beverages and tobacco products"],
+  ["4782", "Torghandel med textilier, kläder och skor", "Retail sale via stalls and markets of textiles, clothing and footwear"],
+  ["4789", "Torghandel med andra varor", "Retail sale via stalls and markets of other goods"],
+  ["479", "Detaljhandel ej i butik, stånd eller på torg", "Retail trade not in stores, stalls or markets"],
+  ["4791", "Postorderhandel och detaljhandel på Internet", "Retail sale via mail order houses or via Internet"],
+  ["47911", "Postorderhandel och detaljhandel på Internet med brett sortiment", "Mail order and Internet retail with a broad range"],
+  ["47912", "Postorderhandel och detaljhandel på Internet med beklädnadsvaror", "Mail order and Internet retail of clothing"],
+  ["47913", "Postorderhandel och detaljhandel på Internet med böcker och andra mediavaror", "Mail order and Internet retail of books and other media"],
+  ["47914", "Postorderhandel och detaljhandel på Internet med datorer och annan elektronisk utrustning", "Mail order and Internet retail of computers and other electronic equipment"],
+  ["47915", "Postorderhandel och detaljhandel på Internet med sport- och fritidsutrustning", "Mail order and Internet retail of sports and leisure equipment"],
+  ["47916", "Postorderhandel och detaljhandel på Internet med hushållsvaror", "Mail order and Internet retail of household goods"],
+  ["47917", "Auktioner på Internet", "Internet auctions"],
+  ["47919", "Postorderhandel och detaljhandel på Internet med övriga varor", "Mail order and Internet retail of other goods"],
+  ["4799", "Övrig detaljhandel ej i butik, stånd eller på torg", "Other retail sale not in stores, stalls or markets"],
+
+  // H - Transport och magasinering
+  ["49", "Landtransport; transport i rörsystem", "Land transport and transport via pipelines"],
+  ["491", "Järnvägstransport, passagerartrafik (interregional)", "Passenger rail transport, interurban"],
+  ["4910", "Järnvägstransport, passagerartrafik (interregional)", "Passenger rail transport, interurban"],
+  ["492", "Järnvägstransport, godstrafik", "Freight rail transport"],
+  ["4920", "Järnvägstransport, godstrafik", "Freight rail transport"],
+  ["493", "Annan landtransport, passagerartrafik", "Other passenger land transport"],
+  ["4931", "Kollektivtrafik", "Urban and suburban passenger land transport"],
+  ["49311", "Linjebussverksamhet", "Scheduled bus services"],
+  ["49312", "Tunnelbane- och spårvägstrafik", "Underground and tramway services"],
+  ["4932", "Taxitrafik", "Taxi operation"],
+  ["4939", "Annan landtransport av passagerare", "Other passenger land transport n.e.c."],
+  ["494", "Vägtransport, godstrafik, och flyttjänster", "Freight transport by road and removal services"],
+  ["4941", "Vägtransport, godstrafik", "Freight transport by road"],
+  ["4942", "Flyttjänster", "Removal services"],
+  ["495", "Transporter i rörsystem", "Transport via pipeline"],
+  ["4950", "Transporter i rörsystem", "Transport via pipeline"],
+  ["50", "Sjötransport", "Water transport"],
+  ["501", "Havs- och kustsjöfart, passagerartrafik", "Sea and coastal passenger water transport"],
+  ["5010", "Havs- och kustsjöfart, passagerartrafik", "Sea and coastal passenger water transport"],
+  ["502", "Havs- och kustsjöfart, godstrafik", "Sea and coastal freight water transport"],
+  ["5020", "Havs- och kustsjöfart, godstrafik", "Sea and coastal freight water transport"],
+  ["503", "Sjötransport på inre vattenvägar, passagerartrafik", "Inland passenger water transport"],
+  ["5030", "Sjötransport på inre vattenvägar, passagerartrafik", "Inland passenger water transport"],
+  ["504", "Sjötransport på inre vattenvägar, godstrafik", "Inland freight water transport"],
+  ["5040", "Sjötransport på inre vattenvägar, godstrafik", "Inland freight water transport"],
+  ["51", "Luftfart", "Air transport"],
+  ["511", "Lufttransport, passagerartrafik", "Passenger air transport"],
+  ["5110", "Lufttransport, passagerartrafik", "Passenger air transport"],
+  ["512", "Lufttransport, godstrafik, och rymdfart", "Freight air transport and space transport"],
+  ["5121", "Lufttransport, godstrafik", "Freight air transport"],
+  ["5122", "Rymdfart", "Space transport"],
+  ["52", "Magasinering och stödtjänster till transport", "Warehousing and support activities for transportation"],
+  ["521", "Magasinering och varulagring", "Warehousing and storage"],
+  ["5210", "Magasinering och varulagring", "Warehousing and storage"],
+  ["522", "Stödtjänster till transport", "Support activities for transportation"],
+  ["5221", "Stödtjänster till landtransport", "Service activities incidental to land transportation"],
+  ["5222", "Stödtjänster till sjötransport", "Service activities incidental to water transportation"],
+  ["5223", "Stödtjänster till luftfart", "Service activities incidental to air transportation"],
+  ["5224", "Godshantering", "Cargo handling"],
+  ["52241", "Hamngodshantering", "Cargo handling in ports"],
+  ["52249", "Övrig godshantering", "Other cargo handling"],
+  ["5229", "Övriga stödtjänster till transport", "Other transportation support activities"],
+  ["53", "Post- och kurirverksamhet", "Postal and courier activities"],
+  ["531", "Postbefordran via nationella posten", "Postal activities under universal service obligation"],
+  ["5310", "Postbefordran via nationella posten", "Postal activities under universal service obligation"],
+  ["532", "Annan postbefordran samt kurirverksamhet", "Other postal and courier activities"],
+  ["5320", "Annan postbefordran samt kurirverksamhet", "Other postal and courier activities"],
+
+  // I - Hotell- och restaurangverksamhet
+  ["55", "Hotell- och logiverksamhet", "Accommodation"],
+  ["551", "Hotellverksamhet", "Hotels and similar accommodation"],
+  ["5510", "Hotellverksamhet", "Hotels and similar accommodation"],
+  ["55101", "Hotellverksamhet med restaurangrörelse", "Hotels with restaurant"],
+  ["55102", "Drift av konferensanläggningar", "Conference centres with lodging"],
+  ["55103", "Hotellverksamhet utan restaurangrörelse", "Hotels without restaurant"],
+  ["552", "Semesterbostäder och annan korttidsinkvartering", "Holiday and other short-stay accommodation"],
+  ["5520", "Semesterbostäder och annan korttidsinkvartering", "Holiday and other short-stay accommodation"],
+  ["55201", "Vandrarhemsverksamhet", "Youth hostels"],
+  ["55202", "Stugbyverksamhet m.m.", "Holiday villages and similar"],
+  ["553", "Campingplatsverksamhet", "Camping grounds, recreational vehicle parks and trailer parks"],
+  ["5530", "Campingplatsverksamhet", "Camping grounds, recreational vehicle parks and trailer parks"],
+  ["559", "Annan logiverksamhet", "Other accommodation"],
+  ["5590", "Annan logiverksamhet", "Other accommodation"],
+  ["56", "Restaurang-, catering- och barverksamhet", "Food and beverage service activities"],
+  ["561", "Restaurangverksamhet", "Restaurants and mobile food service activities"],
+  ["5610", "Restaurangverksamhet", "Restaurants and mobile food service activities"],
+  ["562", "Cateringverksamhet och andra måltidstjänster", "Event catering and other food service activities"],
+  ["5621", "Cateringverksamhet vid enskilda evenemang", "Event catering activities"],
+  ["5629", "Andra måltidstjänster", "Other food service activities"],
+  ["56291", "Drift av personalmatsalar", "Operation of staff canteens"],
+  ["56292", "Centralköksverksamhet för sjukhus, skolor, omsorgsinrättningar o.d.", "Central kitchens for hospitals, schools, care institutions and similar"],
+  ["56293", "Cateringverksamhet för transportsektorn", "Catering for the transport sector"],
+  ["563", "Barverksamhet", "Beverage serving activities"],
+  ["5630", "Barverksamhet", "Beverage serving activities"],
+
+  // J - Informations- och kommunikationsverksamhet
+  ["58", "Förlagsverksamhet", "Publishing activities"],
+  ["581", "Utgivning av böcker och tidskrifter och annan förlagsverksamhet", "Publishing of books, periodicals and other publishing activities"],
+  ["5811", "Bokutgivning", "Book publishing"],
+  ["5812", "Utgivning av kataloger och sändlistor", "Publishing of directories and mailing lists"],
+  ["5813", "Dagstidningsutgivning", "Publishing of newspapers"],
+  ["58131", "Utgivning av dagstidningar", "Publishing of daily newspapers"],
+  ["58132", "Utgivning av annonstidningar", "Publishing of free advertising newspapers"],
+  ["5814", "Utgivning av tidskrifter", "Publishing of journals and periodicals"],
+  ["58141", "Utgivning av facktidskrifter", "Publishing of trade journals"],
+  ["58142", "Utgivning av andra tidskrifter", "Publishing of other periodicals"],
+  ["5819", "Annan förlagsverksamhet", "Other publishing activities"],
+  ["582", "Utgivning av programvara", "Software publishing"],
+  ["5821", "Utgivning av dataspel", "Publishing of computer games"],
+  ["5829", "Utgivning av annan programvara", "Other software publishing"],
+  ["59", "Film-, video- och tv-programverksamhet, ljudinspelningar och fonogramutgivning", "Motion picture, video and television programme production, sound recording and music publishing activities"],
+  ["591", "Film-, video- och tv-programverksamhet", "Motion picture, video and television programme activities"],
+  ["5911", "Produktion av film, video och TV-program", "Motion picture, video and television programme production activities"],
+  ["5912", "Efterproduktion av film, video och TV-program", "Motion picture, video and television programme post-production activities"],
+  ["5913", "Film-, video- och TV-programdistribution", "Motion picture, video and television programme distribution activities"],
+  ["5914", "Filmvisning", "Motion picture projection activities"],
+  ["592", "Ljudinspelning och fonogramutgivning", "Sound recording and music publishing activities"],
+  ["5920", "Ljudinspelning och fonogramutgivning", "Sound recording and music publishing activities"],
+  ["60", "Planering och sändning av program", "Programming and broadcasting activities"],
+  ["601", "Sändning av radioprogram", "Radio broadcasting"],
+  ["6010", "Sändning av radioprogram", "Radio broadcasting"],
+  ["602", "Planering av program och sändning av TV-program", "Television programming and broadcasting activities"],
+  ["6020", "Planering av program och sändning av TV-program", "Television programming and broadcasting activities"],
+  ["61", "Telekommunikation", "Telecommunications"],
+  ["611", "Trådbunden telekommunikation", "Wired telecommunications activities"],
+  ["6110", "Trådbunden telekommunikation", "Wired telecommunications activities"],
+  ["612", "Trådlös telekommunikation", "Wireless telecommunications activities"],
+  ["6120", "Trådlös telekommunikation", "Wireless telecommunications activities"],
+  ["613", "Telekommunikation via satellit", "Satellite telecommunications activities"],
+  ["6130", "Telekommunikation via satellit", "Satellite telecommunications activities"],
+  ["619", "Annan telekommunikation", "Other telecommunications activities"],
+  ["6190", "Annan telekommunikation", "Other telecommunications activities"],
+  ["62", "Dataprogrammering, datakonsultverksamhet o.d.", "Computer programming, consultancy and related activities"],
+  ["620", "Dataprogrammering, datakonsultverksamhet o.d.", "Computer programming, consultancy and related activities"],
+  ["6201", "Dataprogrammering", "Computer programming activities"],
+  ["6202", "Datakonsultverksamhet", "Computer consultancy activities"],
+  ["6203", "Datordrifttjänster", "Computer facilities management activities"],
+  ["6209", "Andra it- och datatjänster", "Other information technology and computer service activities"],
+  ["63", "Informationstjänster", "Information service activities"],
+  ["631", "Databehandling, hosting o.d.; webbportaler", "Data processing, hosting and related activities; web portals"],
+  ["6311", "Databehandling, hosting o.d.", "Data processing, hosting and related activities"],
+  ["6312", "Webbportaler", "Web portals"],
+  ["639", "Andra informationstjänster", "Other information service activities"],
+  ["6391", "Nyhetsbyråverksamhet", "News agency activities"],
+  ["6399", "Övriga informationstjänster", "Other information service activities n.e.c."],
+
+  // K - Finans- och försäkringsverksamhet
+  ["64", "Finansiella tjänster utom försäkring och pensionsfondsverksamhet", "Financial service activities, except insurance and pension funding"],
+  ["641", "Monetär finansförmedling", "Monetary intermediation"],
+  ["6411", "Centralbanksverksamhet", "Central banking"],
+  ["6419", "Annan monetär finansförmedling", "Other monetary intermediation"],
+  ["642", "Holdingverksamhet", "Activities of holding companies"],
+  ["6420", "Holdingverksamhet", "Activities of holding companies"],
+  ["64201", "Holdingverksamhet i finansiella koncerner", "Holding activities in financial groups"],
+  ["64202", "Holdingverksamhet i icke-finansiella koncerner", "Holding activities in non-financial groups"],
+  ["643", "Investmentfonder och liknande finansiella enheter", "Trusts, funds and similar financial entities"],
+  ["6430", "Investmentfonder och liknande finansiella enheter", "Trusts, funds and similar financial entities"],
+  ["649", "Andra finansiella tjänster utom försäkring och pensionsfondsverksamhet", "Other financial service activities, except insurance and pension funding"],
+  ["6491", "Finansiell leasing", "Financial leasing"],
+  ["6492", "Annan kreditgivning", "Other credit granting"],
+  ["6499", "Övriga finansiella tjänster utom försäkring och pensionsfondsverksamhet", "Other financial service activities, except insurance and pension funding n.e.c."],
+  ["65", "Försäkring, återförsäkring och pensionsfondsverksamhet utom obligatorisk socialförsäkring", "Insurance, reinsurance and pension funding, except compulsory social security"],
+  ["651", "Försäkring", "Insurance"],
+  ["6511", "Livförsäkring", "Life insurance"],
+  ["6512", "Skadeförsäkring", "Non-life insurance"],
+  ["652", "Återförsäkring", "Reinsurance"],
+  ["6520", "Återförsäkring", "Reinsurance"],
+  ["653", "Pensionsfondsverksamhet", "Pension funding"],
+  ["6530", "Pensionsfondsverksamhet", "Pension funding"],
+  ["66", "Stödtjänster till finansiella tjänster och försäkring", "Activities auxiliary to financial services and insurance activities"],
+  ["661", "Stödtjänster till finansiella tjänster utom försäkring och pensionsfondsverksamhet", "Activities auxiliary to financial services, except insurance and pension funding"],
+  ["6611", "Administrativa tjänster till finansiella marknader", "Administration of financial markets"],
+  ["6612", "Värdepappers- och varuhandel", "Security and commodity contracts brokerage"],
+  ["6619", "Andra stödtjänster till finansiella tjänster utom försäkring och pensionsfondsverksamhet", "Other activities auxiliary to financial services, except insurance and pension funding"],
+  ["662", "Stödtjänster till försäkring och pensionsfondsverksamhet", "Activities auxiliary to insurance and pension funding"],
+  ["6621", "Risk- och skadebedömning", "Risk and damage evaluation"],
+  ["6622", "Verksamhet utförd av försäkringsombud och försäkringsmäklare", "Activities of insurance agents and brokers"],
+  ["6629", "Andra stödtjänster till försäkring och pensionsfondsverksamhet", "Other activities auxiliary to insurance and pension funding"],
+  ["663", "Fondförvaltning", "Fund management activities"],
+  ["6630", "Fondförvaltning", "Fund management activities"],
+
+  // L - Fastighetsverksamhet
+  ["68", "Fastighetsverksamhet", "Real estate activities"],
+  ["681", "Handel med egna fastigheter", "Buying and selling of own real estate"],
+  ["6810", "Handel med egna fastigheter", "Buying and selling of own real estate"],
+  ["682", "Uthyrning och förvaltning av egna eller arrenderade fastigheter", "Renting and operating of own or leased real estate"],
+  ["6820", "Uthyrning och förvaltning av egna eller arrenderade fastigheter", "Renting and operating of own or leased real estate"],
+  ["68201", "Uthyrning och förvaltning av egna eller arrenderade bostäder", "Renting and operating of own or leased dwellings"],
+  ["68202", "Upplåtelse av bostadsrätter genom bostadsrättsföreningar", "Tenant-owned housing associations"],
+  ["68203", "Uthyrning och förvaltning av egna eller arrenderade, andra lokaler", "Renting and operating of own or leased premises other than dwellings"],
+  ["68204", "Förvaltning i och uthyrning av industrilokaler", "Renting and operating of industrial premises"],
+  ["68209", "Övrig förvaltning och uthyrning av egna eller arrenderade fastigheter", "Other renting and operating of own or leased real estate"],
+  ["683", "Fastighetsverksamhet på uppdrag", "Real estate activities on a fee or contract basis"],
+  ["6831", "Fastighetsförmedling", "Real estate agencies"],
+  ["6832", "Fastighetsförvaltning på uppdrag", "Management of real estate on a fee or contract basis"],
+
+  // M - Verksamhet inom juridik, ekonomi, vetenskap och teknik
+  ["69", "Juridisk och ekonomisk konsultverksamhet", "Legal and accounting activities"],
+  ["691", "Juridisk verksamhet", "Legal activities"],
+  ["6910", "Juridisk verksamhet", "Legal activities"],
+  ["69101", "Advokatbyråverksamhet", "Law firm activities"],
+  ["69102", "Juridiska byråers verksamhet m.m.", "Other legal offices"],
+  ["69103", "Patentbyråverksamhet m.m.", "Patent agency activities"],
+  ["692", "Redovisning och bokföring; skatterådgivning", "Accounting, bookkeeping and auditing activities; tax consultancy"],
+  ["6920", "Redovisning och bokföring; skatterådgivning", "Accounting, bookkeeping and auditing activities; tax consultancy"],
+  ["69201", "Redovisning och bokföring", "Accounting and bookkeeping"],
+  ["69202", "Revision", "Auditing"],
+  ["69203", "Skatterådgivning", "Tax consultancy"],
+  ["70", "Verksamheter som utövas av huvudkontor; konsulttjänster till företag", "Activities of head offices; management consultancy activities"],
+  ["701", "Verksamheter som utövas av huvudkontor", "Activities of head offices"],
+  ["7010", "Verksamheter som utövas av huvudkontor", "Activities of head offices"],
+  ["70101", "Verksamheter som utövas av huvudkontor i finansiella koncerner", "Head office activities in financial groups"],
+  ["70102", "Verksamheter som utövas av huvudkontor i icke-finansiella koncerner", "Head office activities in non-financial groups"],
+  ["702", "Konsulttjänster till företag", "Management consultancy activities"],
+  ["7021", "PR och kommunikation", "Public relations and communication activities"],
+  ["7022", "Konsultverksamhet avseende företags organisation", "Business and other management consultancy activities"],
+  ["71", "Arkitekt- och teknisk konsultverksamhet; teknisk provning och analys", "Architectural and engineering activities; technical testing and analysis"],
+  ["711", "Arkitekt- och teknisk konsultverksamhet o.d.", "Architectural and engineering activities and related technical consultancy"],
+  ["7111", "Arkitektverksamhet", "Architectural activities"],
+  ["7112", "Teknisk konsultverksamhet", "Engineering activities and related technical consultancy"],
+  ["71121", "Teknisk konsultverksamhet inom bygg- och anläggningsteknik", "Civil engineering consultancy"],
+  ["71122", "Teknisk konsultverksamhet inom industriteknik", "Industrial engineering consultancy"],
+  ["71123", "Teknisk konsultverksamhet inom elteknik", "Electrical engineering consultancy"],
+  ["71124", "Teknisk konsultverksamhet inom energi-, miljö- och VVS-teknik", "Energy, environmental and HVAC engineering consultancy"],
+  ["71129", "Övrig teknisk konsultverksamhet", "Other engineering consultancy"],
+  ["712", "Teknisk provning och analys", "Technical testing and analysis"],
+  ["7120", "Teknisk provning och analys", "Technical testing and analysis"],
+  ["72", "Vetenskaplig forskning och utveckling", "Scientific research and development"],
+  ["721", "Forskning och utveckling avseende naturvetenskap och teknik", "Research and experimental development on natural sciences and engineering"],
+  ["7211", "Bioteknisk forskning och utveckling", "Research and experimental development on biotechnology"],
+  ["7219", "Annan forskning och utveckling avseende naturvetenskap och teknik", "Other research and experimental development on natural sciences and engineering"],
+  ["722", "Forskning och utveckling avseende samhällsvetenskap och humaniora", "Research and experimental development on social sciences and humanities"],
+  ["7220", "Forskning och utveckling avseende samhällsvetenskap och humaniora", "Research and experimental development on social sciences and humanities"],
+  ["73", "Reklam och marknadsundersökning", "Advertising and market research"],
+  ["731", "Reklamverksamhet", "Advertising"],
+  ["7311", "Reklambyråverksamhet", "Advertising agencies"],
+  ["73111", "Reklambyråverksamhet", "Advertising agency activities"],
+  ["73112", "Direktreklamverksamhet", "Direct advertising activities"],
+  ["73119", "Övrig reklamverksamhet", "Other advertising activities"],
+  ["7312", "Mediebyråverksamhet och annonsförsäljning", "Media representation"],
+  ["73121", "Mediebyråverksamhet", "Media agency activities"],
+  ["73122", "Annonsförsäljning", "Sale of advertising space"],
+  ["732", "Marknads- och opinionsundersökning", "Market research and public opinion polling"],
+  ["7320", "Marknads- och opinionsundersökning", "Market research and public opinion polling"],
+  ["74", "Annan verksamhet inom juridik, ekonomi, vetenskap och teknik", "Other professional, scientific and technical activities"],
+  ["741", "Specialiserad designverksamhet", "Specialised design activities"],
+  ["7410", "Specialiserad designverksamhet", "Specialised design activities"],
+  ["74101", "Industri-, produkt- och modedesign", "Industrial, product and fashion design"],
+  ["74102", "Grafisk designverksamhet", "Graphic design activities"],
+  ["74103", "Inredningsarkitektverksamhet", "Interior design activities"],
+  ["742", "Fotoverksamhet", "Photographic activities"],
+  ["7420", "Fotoverksamhet", "Photographic activities"],
+  ["74201", "Porträttfotoverksamhet", "Portrait photography"],
+  ["74202", "Reklamfotoverksamhet", "Advertising photography"],
+  ["74203", "Press- och övrig fotografverksamhet", "Press and other photography"],
+  ["74204", "Fotolaboratorieverksamhet", "Photographic laboratory activities"],
+  ["743", "Översättning och tolkning", "Translation and interpretation activities"],
+  ["7430", "Översättning och tolkning", "Translation and interpretation activities"],
+  ["749", "Övrig verksamhet inom juridik, ekonomi, vetenskap och teknik", "Other professional, scientific and technical activities n.e.c."],
+  ["7490", "Övrig verksamhet inom juridik, ekonomi, vetenskap och teknik", "Other professional, scientific and technical activities n.e.c."],
+  ["75", "Veterinärverksamhet", "Veterinary activities"],
+  ["750", "Veterinärverksamhet", "Veterinary activities"],
+  ["7500", "Veterinärverksamhet", "Veterinary activities"],
+
+  // N - Uthyrning, fastighetsservice, resetjänster och andra stödtjänster
+  ["77", "Uthyrning och leasing", "Rental and leasing activities"],
+  ["771", "Uthyrning och leasing av motorfordon", "Rental and leasing of motor vehicles"],
+  ["7711", "Uthyrning och leasing av personbilar och lätta motorfordon", "Rental and leasing of cars and light motor vehicles"],
+  ["7712", "Uthyrning och leasing av lastbilar och andra tunga motorfordon", "Rental and leasing of trucks"],
+  ["772", "Uthyrning och leasing av hushållsartiklar och varor för personligt bruk", "Rental and leasing of personal and household goods"],
+  ["7721", "Uthyrning och leasing av fritids- och sportutrustning", "Rental and leasing of recreational and sports goods"],
+  ["7722", "Uthyrning av videokassetter och dvd-skivor", "Rental of video tapes and disks"],
+  ["7729", "Uthyrning och leasing av andra hushållsartiklar och varor för personligt bruk", "Rental and leasing of other personal and household goods"],
+  ["773", "Uthyrning och leasing av andra maskiner, apparater och materiella tillgångar", "Rental and leasing of other machinery, equipment and tangible goods"],
+  ["7731", "Uthyrning och leasing av jordbruksmaskiner och jordbruksredskap", "Rental and leasing of agricultural machinery and equipment"],
+  ["7732", "Uthyrning och leasing av bygg- och anläggningsmaskiner", "Rental and leasing of construction and civil engineering machinery and equipment"],
+  ["7733", "Uthyrning och leasing av kontorsmaskiner och kontorsutrustning (inklusive datorer)", "Rental and leasing of office machinery and equipment (including computers)"],
+  ["7734", "Uthyrning och leasing av fartyg och båtar", "Rental and leasing of water transport equipment"],
+  ["7735", "Uthyrning och leasing av flygplan", "Rental and leasing of air transport equipment"],
+  ["7739", "Uthyrning och leasing av övriga maskiner, apparater och materiella tillgångar", "Rental and leasing of other machinery, equipment and tangible goods n.e.c."],
+  ["774", "Leasing av immateriell egendom och liknande produkter, med undantag för upphovsrättsskyddade verk", "Leasing of intellectual property and similar products, except copyrighted works"],
+  ["7740", "Leasing av immateriell egendom och liknande produkter, med undantag för upphovsrättsskyddade verk", "Leasing of intellectual property and similar products, except copyrighted works"],
+  ["78", "Arbetsförmedling, bemanning och andra personalrelaterade tjänster", "Employment activities"],
+  ["781", "Arbetsförmedling och rekrytering", "Activities of employment placement agencies"],
+  ["7810", "Arbetsförmedling och rekrytering", "Activities of employment placement agencies"],
+  ["782", "Personaluthyrning", "Temporary employment agency activities"],
+  ["7820", "Personaluthyrning", "Temporary employment agency activities"],
+  ["783", "Övrigt tillhandahållande av personalfunktioner", "Other human resources provision"],
+  ["7830", "Övrigt tillhandahållande av personalfunktioner", "Other human resources provision"],
+  ["79", "Resebyrå- och researrangörsverksamhet och andra resetjänster och relaterade tjänster", "Travel agency, tour operator reservation service and related activities"],
+  ["791", "Resebyrå- och researrangörsverksamhet", "Travel agency and tour operator activities"],
+  ["7911", "Resebyråverksamhet", "Travel agency activities"],
+  ["7912", "Researrangemang", "Tour operator activities"],
+  ["799", "Andra resetjänster och relaterade tjänster", "Other reservation service and related activities"],
+  ["7990", "Andra resetjänster och relaterade tjänster", "Other reservation service and related activities"],
+  ["80", "Säkerhets- och bevakningsverksamhet", "Security and investigation activities"],
+  ["801", "Säkerhetsverksamhet", "Private security activities"],
+  ["8010", "Säkerhetsverksamhet", "Private security activities"],
+  ["802", "Säkerhetssystemtjänster", "Security systems service activities"],
+  ["8020", "Säkerhetssystemtjänster", "Security systems service activities"],
+  ["803", "Spanings- och detektivverksamhet", "Investigation activities"],
+  ["8030", "Spanings- och detektivverksamhet", "Investigation activities"],
+  ["81", "Fastighetsservice samt skötsel och underhåll av grönytor", "Services to buildings and landscape activities"],
+  ["811", "Fastighetsrelaterade stödtjänster", "Combined facilities support activities"],
+  ["8110", "Fastighetsrelaterade stödtjänster", "Combined facilities support activities"],
+  ["812", "Rengöring och lokalvård", "Cleaning activities"],
+  ["8121", "Lokalvård", "General cleaning of buildings"],
+  ["8122", "Specialiserad rengöring av byggnader och industriell rengöring", "Other building and industrial cleaning activities"],
+  ["81221", "Fönsterputsning", "Window cleaning"],
+  ["81222", "Skorstensfejarverksamhet", "Chimney sweeping"],
+  ["81229", "Övrig rengöring av byggnader och industriell rengöring", "Other building and industrial cleaning"],
+  ["8129", "Annan rengöring", "Other cleaning activities"],
+  ["813", "Skötsel och underhåll av grönytor", "Landscape service activities"],
+  ["8130", "Skötsel och underhåll av grönytor", "Landscape service activities"],
+  ["82", "Kontorstjänster och andra företagstjänster", "Office administrative, office support and other business support activities"],
+  ["821", "Kontorstjänster", "Office administrative and support activities"],
+  ["8211", "Kombinerade kontorstjänster", "Combined office administrative service activities"],
+  ["8219", "Fotokopiering, dokumenthantering och andra specialiserade kontorstjänster", "Photocopying, document preparation and other specialised office support activities"],
+  ["822", "Callcenterverksamhet", "Activities of call centres"],
+  ["8220", "Callcenterverksamhet", "Activities of call centres"],
+  ["823", "Arrangemang av kongresser och mässor", "Organisation of conventions and trade shows"],
+  ["8230", "Arrangemang av kongresser och mässor", "Organisation of conventions and trade shows"],
+  ["829", "Andra företagstjänster", "Business support service activities n.e.c."],
+  ["8291", "Inkassoverksamhet och kreditupplysning", "Activities of collection agencies and credit bureaus"],
+  ["8292", "Förpackningsverksamhet", "Packaging activities"],
+  ["8299", "Övriga företagstjänster", "Other business support service activities n.e.c."],
+
+  // O - Offentlig förvaltning och försvar; obligatorisk socialförsäkring
+  ["84", "Offentlig förvaltning och försvar; obligatorisk socialförsäkring", "Public administration and defence; compulsory social security"],
+  ["841", "Offentlig förvaltning", "Administration of the State and the economic and social policy of the community"],
+  ["8411", "Övergripande offentlig förvaltning", "General public administration activities"],
+  ["84111", "Stats- och kommunledning, lagstiftning och övergripande planering", "Executive and legislative administration and general planning"],
+  ["84112", "Inspektion, kontroll, tillståndsgivning", "Inspection, control and licensing"],
+  ["84113", "Skatteförvaltning, indrivning", "Tax administration and collection"],
+  ["84114", "Samhällelig informationsförsörjning", "Public information services"],
+  ["84115", "Personalförvaltning och andra allmänna stödtjänster", "Personnel administration and other general support services"],
+  ["8412", "Offentlig administration av program för hälsovård, utbildning, kultur och andra sociala tjänster", "Regulation of the activities of providing health care, education, cultural services and other social services"],
+  ["84121", "Administration av grundskole- och gymnasieskoleutbildning", "Administration of primary and secondary education"],
+  ["84122", "Administration av universitets- och högskoleutbildning samt forskning", "Administration of higher education and research"],
+  ["84123", "Administration av hälso- och sjukvård", "Administration of health care"],
+  ["84124", "Administration av omsorg och socialtjänst", "Administration of social care and social services"],
+  ["84125", "Administration av program för kultur, miljö, boende m.m.", "Administration of programmes for culture, environment, housing and similar"],
+  ["8413", "Offentlig administration för främjande av näringslivet", "Regulation of and contribution to more efficient operation of businesses"],
+  ["84131", "Administration av infrastrukturprogram", "Administration of infrastructure programmes"],
+  ["84132", "Administration av program för jord- och skogsbruk, jakt och fiske", "Administration of programmes for agriculture, forestry, hunting and fishing"],
+  ["84133", "Administration av arbetsmarknadsprogram", "Administration of labour market programmes"],
+  ["84139", "Administration av andra näringslivsprogram", "Administration of other business programmes"],
+  ["842", "Offentliga tjänster för samhället som helhet", "Provision of services to the community as a whole"],
+  ["8421", "Utrikesförvaltning", "Foreign affairs"],
+  ["8422", "Försvarsverksamhet", "Defence activities"],
+  ["8423", "Rättskipning och åklagarverksamhet", "Justice and judicial activities"],
+  ["84231", "Åklagarverksamhet", "Public prosecution"],
+  ["84232", "Domstolsverksamhet", "Courts of law"],
+  ["84233", "Kriminalvård", "Prison and probation services"],
+  ["8424", "Polisverksamhet", "Public order and safety activities"],
+  ["8425", "Brand- och räddningsverksamhet", "Fire service activities"],
+  ["843", "Obligatorisk socialförsäkring", "Compulsory social security activities"],
+  ["8430", "Obligatorisk socialförsäkring", "Compulsory social security activities"],
+
+  // P - Utbildning
+  ["85", "Utbildning", "Education"],
+  ["851", "Förskoleutbildning", "Pre-primary education"],
+  ["8510", "Förskoleutbildning", "Pre-primary education"],
+  ["852", "Grundskoleutbildning och förskoleklass", "Primary education"],
+  ["8520", "Grundskoleutbildning och förskoleklass", "Primary education"],
+  ["85201", "Förskoleklassutbildning", "Preschool class education"],
+  ["85202", "Grundskoleutbildning", "Compulsory school education"],
+  ["85203", "Grundsärskoleutbildning", "Compulsory school education for pupils with learning disabilities"],
+  ["853", "Gymnasial utbildning", "Secondary education"],
+  ["8531", "Studieförberedande gymnasial utbildning", "General secondary education"],
+  ["8532", "Gymnasial yrkesutbildning, övrig gymnasial utbildning och personalutbildning", "Technical and vocational secondary education"],
+  ["854", "Eftergymnasial utbildning", "Higher education"],
+  ["8541", "Eftergymnasial utbildning vid annat än universitet och högskolor", "Post-secondary non-tertiary education"],
+  ["8542", "Universitets- och högskoleutbildning samt forskning", "Tertiary education"],
+  ["855", "Annan utbildning", "Other education"],
+  ["8551", "Sport- och fritidsutbildning", "Sports and recreation education"],
+  ["8552", "Musik-, dans- och övrig kulturell utbildning", "Cultural education"],
+  ["8553", "Trafikskoleverksamhet", "Driving school activities"],
+  ["8559", "Övrig utbildning", "Other education n.e.c."],
+  ["85591", "Arbetsmarknadsutbildning", "Labour market training"],
+  ["85592", "Folkhögskoleutbildning", "Folk high school education"],
+  ["85593", "Studieförbundens och intresseorganisationernas utbildning", "Education by study associations and interest organisations"],
+  ["85594", "Personalutbildning", "Staff training"],
+  ["85599", "Diverse övrig utbildning", "Other education, miscellaneous"],
+  ["856", "Stödverksamhet för utbildningsväsendet", "Educational support activities"],
+  ["8560", "Stödverksamhet för utbildningsväsendet", "Educational support activities"],
+
+  // Q - Vård och omsorg; sociala tjänster
+  ["86", "Hälso- och sjukvård", "Human health activities"],
+  ["861", "Sluten sjukvård", "Hospital activities"],
+  ["8610", "Sluten sjukvård", "Hospital activities"],
+  ["86101", "Sluten somatisk specialistsjukvård", "Inpatient somatic specialist care"],
+  ["86102", "Sluten psykiatrisk specialistsjukvård", "Inpatient psychiatric specialist care"],
+  ["862", "Öppen hälso- och sjukvård", "Medical and dental practice activities"],
+  ["8621", "Allmänpraktiserande läkarverksamhet", "General medical practice activities"],
+  ["86211", "Primärvårdsmottagningar med läkare m.m.", "Primary care with physicians"],
+  ["86212", "Annan allmän öppen hälso- och sjukvård, ej primärvård", "Other general outpatient health care, not primary care"],
+  ["8622", "Specialistläkarverksamhet", "Specialist medical practice activities"],
+  ["86221", "Specialistläkarverksamhet inom öppenvård, på sjukhus", "Specialist outpatient care in hospitals"],
+  ["86222", "Specialistläkarverksamhet inom öppenvård, ej på sjukhus", "Specialist outpatient care outside hospitals"],
+  ["8623", "Tandläkarverksamhet", "Dental practice activities"],
+  ["869", "Andra hälso- och sjukvårdstjänster", "Other human health activities"],
+  ["8690", "Andra hälso- och sjukvårdstjänster", "Other human health activities"],
+  ["86901", "Medicinska laboratorier m.m.", "Medical laboratories"],
+  ["86902", "Ambulanstransporter och ambulanssjukvård", "Ambulance transport and care"],
+  ["86903", "Primärvård, ej läkare", "Primary care, not by physicians"],
+  ["86904", "Tandhygienistverksamhet", "Dental hygienist activities"],
+  ["86905", "Fysioterapeutisk verksamhet", "Physiotherapy activities"],
+  ["86909", "Annan hälso- och sjukvård", "Other human health activities n.e.c."],
+  ["87", "Vård och omsorg med boende", "Residential care activities"],
+  ["871", "Boende med sjuksköterskevård", "Residential nursing care activities"],
+  ["8710", "Boende med sjuksköterskevård", "Residential nursing care activities"],
+  ["872", "Boende med särskild service för personer med utvecklingsstörning, psykiska funktionshinder eller missbruksproblem", "Residential care activities for mental retardation, mental health and substance abuse"],
+  ["8720", "Boende med särskild service för personer med utvecklingsstörning, psykiska funktionshinder eller missbruksproblem", "Residential care activities for mental retardation, mental health and substance abuse"],
+  ["87201", "Boende med särskild service för personer med utvecklingsstörning eller autism", "Residential care for persons with intellectual disabilities or autism"],
+  ["87202", "Boende med särskild service för personer med psykiska funktionshinder", "Residential care for persons with mental disabilities"],
+  ["87203", "Hem för vård eller boende för vuxna med missbruksproblem", "Residential care for adults with substance abuse problems"],
+  ["873", "Vård och omsorg i särskilda boendeformer för äldre och funktionshindrade personer", "Residential care activities for the elderly and disabled"],
+  ["8730", "Vård och omsorg i särskilda boendeformer för äldre och funktionshindrade personer", "Residential care activities for the elderly and disabled"],
+  ["87301", "Vård och omsorg i särskilda boendeformer för äldre personer", "Residential care for the elderly"],
+  ["87302", "Vård och omsorg i särskilda boendeformer för personer med funktionshinder", "Residential care for persons with disabilities"],
+  ["879", "Andra former av boende med vård eller omsorg", "Other residential care activities"],
+  ["8790", "Andra former av boende med vård eller omsorg", "Other residential care activities"],
+  ["88", "Öppna sociala insatser", "Social work activities without accommodation"],
+  ["881", "Öppna sociala insatser för äldre och funktionshindrade personer", "Social work activities without accommodation for the elderly and disabled"],
+  ["8810", "Öppna sociala insatser för äldre och funktionshindrade personer", "Social work activities without accommodation for the elderly and disabled"],
+  ["88101", "Öppna sociala insatser för äldre personer", "Social work activities without accommodation for the elderly"],
+  ["88102", "Öppna sociala insatser för personer med funktionshinder", "Social work activities without accommodation for persons with disabilities"],
+  ["889", "Andra öppna sociala insatser", "Other social work activities without accommodation"],
+  ["8891", "Barnomsorg", "Child day-care activities"],
+  ["8899", "Övriga öppna sociala insatser", "Other social work activities without accommodation n.e.c."],
+
+  // R - Kultur, nöje och fritid
+  ["90", "Konstnärlig och kulturell verksamhet samt underhållningsverksamhet", "Creative, arts and entertainment activities"],
+  ["900", "Konstnärlig och kulturell verksamhet samt underhållningsverksamhet", "Creative, arts and entertainment activities"],
+  ["9001", "Artistisk verksamhet", "Performing arts"],
+  ["9002", "Stödtjänster för artistisk verksamhet", "Support activities to performing arts"],
+  ["9003", "Konstnärligt och litterärt skapande", "Artistic creation"],
+  ["9004", "Drift av teatrar, konserthus o.d.", "Operation of arts facilities"],
+  ["91", "Biblioteks-, arkiv- och museiverksamhet m.m.", "Libraries, archives, museums and other cultural activities"],
+  ["910", "Biblioteks-, arkiv- och museiverksamhet m.m.", "Libraries, archives, museums and other cultural activities"],
+  ["9101", "Biblioteks- och arkivverksamhet", "Library and archives activities"],
+  ["91011", "Biblioteksverksamhet", "Library activities"],
+  ["91012", "Arkivverksamhet", "Archives activities"],
+  ["9102", "Museiverksamhet", "Museums activities"],
+  ["9103", "Vård av historiska minnesmärken och byggnader och liknande sevärdheter", "Operation of historical sites and buildings and similar visitor attractions"],
+  ["9104", "Drift av botaniska och zoologiska trädgårdar samt naturreservat", "Botanical and zoological gardens and nature reserves activities"],
+  ["92", "Spel- och vadhållningsverksamhet", "Gambling and betting activities"],
+  ["920", "Spel- och vadhållningsverksamhet", "Gambling and betting activities"],
+  ["9200", "Spel- och vadhållningsverksamhet", "Gambling and betting activities"],
+  ["93", "Sport-, fritids- och nöjesverksamhet", "Sports activities and amusement and recreation activities"],
+  ["931", "Sportverksamhet", "Sports activities"],
+  ["9311", "Drift av sportanläggningar", "Operation of sports facilities"],
+  ["93111", "Drift av skidsportanläggningar", "Operation of ski facilities"],
+  ["93112", "Drift av golfbanor", "Operation of golf courses"],
+  ["93113", "Drift av motorbanor", "Operation of motor racing tracks"],
+  ["93114", "Drift av trav- och galoppbanor", "Operation of horse racing tracks"],
+  ["93119", "Drift av sporthallar, idrottsplatser och andra sportanläggningar", "Operation of sports halls, stadiums and other sports facilities"],
+  ["9312", "Sportklubbars och idrottsföreningars verksamhet", "Activities of sport clubs"],
+  ["9313", "Drift av gym, fitness- och friskvårdscenter", "Fitness facilities"],
+  ["9319", "Annan sportverksamhet", "Other sports activities"],
+  ["932", "Fritids- och nöjesverksamhet", "Amusement and recreation activities"],
+  ["9321", "Nöjes- och temaparksverksamhet", "Activities of amusement parks and theme parks"],
+  ["9329", "Övrig fritids- och nöjesverksamhet", "Other amusement and recreation activities"],
+
+  // S - Annan serviceverksamhet
+  ["94", "Intressebevakning; religiös verksamhet", "Activities of membership organisations"],
+  ["941", "Verksamhet i näringslivsorganisationer, arbetsgivarorganisationer och yrkessammanslutningar", "Activities of business, employers and professional membership organisations"],
+  ["9411", "Verksamhet i näringslivsorganisationer och arbetsgivarorganisationer", "Activities of business and employers membership organisations"],
+  ["94111", "Verksamhet i näringslivsorganisationer", "Activities of business membership organisations"],
+  ["94112", "Verksamhet i arbetsgivarorganisationer", "Activities of employers membership organisations"],
+  ["9412", "Verksamhet i yrkessammanslutningar", "Activities of professional membership organisations"],
+  ["942", "Verksamhet i arbetstagarorganisationer", "Activities of trade unions"],
+  ["9420", "Verksamhet i arbetstagarorganisationer", "Activities of trade unions"],
+  ["949", "Verksamhet i andra intresseorganisationer", "Activities of other membership organisations"],
+  ["9491", "Verksamhet i religiösa samfund", "Activities of religious organisations"],
+  ["9492", "Verksamhet i politiska organisationer", "Activities of political organisations"],
+  ["9499", "Verksamhet i andra intresseorganisationer", "Activities of other membership organisations n.e.c."],
+  ["95", "Reparation av datorer, hushållsartiklar och personliga artiklar", "Repair of computers and personal and household goods"],
+  ["951", "Reparation av datorer och kommunikationsutrustning", "Repair of computers and communication equipment"],
+  ["9511", "Reparation av datorer och kringutrustning", "Repair of computers and peripheral equipment"],
+  ["9512", "Reparation av kommunikationsutrustning", "Repair of communication equipment"],
+  ["952", "Reparation av hushållsartiklar och personliga artiklar", "Repair of personal and household goods"],
+  ["9521", "Reparation av hemelektronik", "Repair of consumer electronics"],
+  ["9522", "Reparation av hushållsapparater samt av utrustning för hem och trädgård", "Repair of household appliances and home and garden equipment"],
+  ["9523", "Reparation av skodon och lädervaror", "Repair of footwear and leather goods"],
+  ["9524", "Reparation av möbler och heminredning", "Repair of furniture and home furnishings"],
+  ["9525", "Reparation av ur och guldsmedsvaror", "Repair of watches, clocks and jewellery"],
+  ["9529", "Reparation av andra hushållsartiklar och personliga artiklar", "Repair of other personal and household goods"],
+  ["96", "Andra konsumenttjänstföretag", "Other personal service activities"],
+  ["960", "Andra konsumenttjänstföretag", "Other personal service activities"],
+  ["9601", "Tvätteriverksamhet", "Washing and (dry-)cleaning of textile and fur products"],
+  ["96011", "Industri- och institutionstvätt", "Industrial and institutional laundry"],
+  ["96012", "Konsumenttvätt", "Consumer laundry"],
+  ["9602", "Hårvård och skönhetsvård", "Hairdressing and other beauty treatment"],
+  ["96021", "Hårvård", "Hairdressing"],
+  ["96022", "Skönhetsvård", "Beauty treatment"],
+  ["9603", "Begravningsverksamhet", "Funeral and related activities"],
+  ["9604", "Kroppsvård", "Physical well-being activities"],
+  ["9609", "Övriga konsumenttjänster", "Other personal service activities n.e.c."],
+
+  // T - Förvärvsarbete i hushåll; hushållens produktion av diverse varor och tjänster för eget bruk
+  ["97", "Förvärvsarbete i hushåll", "Activities of households as employers of domestic personnel"],
+  ["970", "Förvärvsarbete i hushåll", "Activities of households as employers of domestic personnel"],
+  ["9700", "Förvärvsarbete i hushåll", "Activities of households as employers of domestic personnel"],
+  ["98", "Hushållens produktion av diverse varor och tjänster för eget bruk", "Undifferentiated goods- and services-producing activities of private households for own use"],
+  ["981", "Hushållens produktion av diverse varor för eget bruk", "Undifferentiated goods-producing activities of private households for own use"],
+  ["9810", "Hushållens produktion av diverse varor för eget bruk", "Undifferentiated goods-producing activities of private households for own use"],
+  ["982", "Hushållens produktion av diverse tjänster för eget bruk", "Undifferentiated service-producing activities of private households for own use"],
+  ["9820", "Hushållens produktion av diverse tjänster för eget bruk", "Undifferentiated service-producing activities of private households for own use"],
+
+  // U - Verksamhet vid internationella organisationer, utländska ambassader o.d.
+  ["99", "Verksamhet vid internationella organisationer, utländska ambassader o.d.", "Activities of extraterritorial organisations and bodies"],
+  ["990", "Verksamhet vid internationella organisationer, utländska ambassader o.d.", "Activities of extraterritorial organisations and bodies"],
+  ["9900", "Verksamhet vid internationella organisationer, utländska ambassader o.d.", "Activities of extraterritorial organisations and bodies"],
+];
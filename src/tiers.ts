@@ -0,0 +1,115 @@
+/**
+ * Tier-based access rules for tools
+ *
+ * The verified API key's tier arrives in AuthInfo.scopes. Tools, parameters
+ * and batch sizes a tier does not include are refused before any upstream
+ * call, with a structured "upgrade required" error naming the tier needed.
+ * Without auth info (stdio mode) or with an unknown tier nothing is gated
+ * here; BolagsAPI still enforces the key's plan.
+ */
+import type { AuthInfo } from "@modelcontextprotocol/sdk/server/auth/types.js";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { messages, formatNumber, type Lang } from "./i18n.js";
+
+/** Tiers from lowest to highest */
+export const TIERS = ["free", "pro", "enterprise"] as const;
+
+export type Tier = (typeof TIERS)[number];
+
+interface ToolRule {
+  /** Lowest tier that may call the tool */
+  minTier?: Tier;
+  /** Parameters that need at least the given tier when enabled */
+  params?: Record<string, Tier>;
+  /** Array parameter whose length is capped by BATCH_LIMITS */
+  batchParam?: string;
+}
+
+/** Maximum items in one batch call per tier */
+export const BATCH_LIMITS: Record<Tier, number> = {
+  free: 25,
+  pro: 100,
+  enterprise: 500,
+};
+
+const TOOL_RULES: Record<string, ToolRule> = {
+  lookup_company: { params: { include_financials: "pro" } },
+  lookup_companies_batch: { batchParam: "orgnrs" },
+  analyze_company_financials: { minTier: "pro", params: { include_analysis: "pro" } },
+  compare_companies: { minTier: "pro" },
+  get_compliance_data: { minTier: "pro" },
+  check_watchlist: { params: { include_screening: "pro" } },
+};
+
+/** Tier of the verified API key, if known */
+export function tierFromAuth(authInfo?: AuthInfo): Tier | undefined {
+  return TIERS.find((tier) => authInfo?.scopes.includes(tier));
+}
+
+/** Whether a tier includes everything the required tier does */
+function includesTier(tier: Tier, required: Tier): boolean {
+  return TIERS.indexOf(tier) >= TIERS.indexOf(required);
+}
+
+/** Lowest tier whose batch limit fits the given size */
+function tierForBatchSize(size: number): Tier | undefined {
+  return TIERS.find((tier) => BATCH_LIMITS[tier] >= size);
+}
+
+/** Build the structured error returned for a call the tier does not cover */
+function upgradeRequired(toolName: string, current: Tier, required: Tier, reason: string, lang: Lang): CallToolResult {
+  const t = messages(lang).tiers;
+  const message = t.requiresPlan(reason, required, current);
+  return {
+    content: [{ type: "text", text: t.upgradeRequired(message) }],
+    structuredContent: {
+      error: "upgrade_required",
+      tool: toolName,
+      current_tier: current,
+      required_tier: required,
+      message,
+    },
+    isError: true,
+  };
+}
+
+/**
+ * Check a tool call against the caller's tier.
+ * Returns an "upgrade required" result in the call's language when the call
+ * is not allowed.
+ */
+export function checkTierAccess(
+  toolName: string,
+  params: Record<string, unknown> & { lang: Lang },
+  authInfo?: AuthInfo
+): CallToolResult | undefined {
+  const tier = tierFromAuth(authInfo);
+  const rule = TOOL_RULES[toolName];
+  if (!tier || !rule) return undefined;
+  const { lang } = params;
+  const t = messages(lang).tiers;
+
+  if (rule.minTier && !includesTier(tier, rule.minTier)) {
+    return upgradeRequired(toolName, tier, rule.minTier, t.tool(toolName), lang);
+  }
+
+  for (const [param, required] of Object.entries(rule.params ?? {})) {
+    if (params[param] && !includesTier(tier, required)) {
+      return upgradeRequired(toolName, tier, required, t.option(param), lang);
+    }
+  }
+
+  const batch = rule.batchParam ? params[rule.batchParam] : undefined;
+  if (Array.isArray(batch) && batch.length > BATCH_LIMITS[tier]) {
+    const required = tierForBatchSize(batch.length) ?? "enterprise";
+    return upgradeRequired(
+      toolName,
+      tier,
+      required,
+      t.batch(formatNumber(batch.length, lang), formatNumber(BATCH_LIMITS[tier], lang)),
+      lang
+    );
+  }
+
+  return undefined;
+}
@@ -4,41 +4,85 @@
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
 import {
   LookupCompanyInputSchema,
+  LookupCompaniesBatchInputSchema,
   SearchCompaniesInputSchema,
+  type SearchCompaniesInput,
   GetTimelineInputSchema,
   GetSimilarInputSchema,
 } from "../schemas.js";
+import {
+  LookupCompanyOutputSchema,
+  LookupCompaniesBatchOutputSchema,
+  SearchResultSchema,
+  TimelineDataSchema,
+  SimilarCompaniesSchema,
+} from "../output-schemas.js";
+import type { z } from "zod";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import { ElicitResultSchema, type ServerRequest, type ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import { normalizeOrgnr } from "../orgnr.js";
+import { mapWithConcurrency } from "../concurrency.js";
+import { sendProgress } from "../progress.js";
+import { collectPages, decodeCursor, encodeCursor, type PagePosition } from "../pagination.js";
+import { checkTierAccess } from "../tiers.js";
+import { sniCodeNotes } from "./sni.js";
+import { messages, formatNumber, formatDate, type Lang } from "../i18n.js";
+import { renderOutput, fixedView, keepLast, truncatedJson, type OutputView } from "../response-format.js";
+import { instrumented } from "../instrumentation.js";
 import {
   getCompany,
+  getHealthScore,
   searchCompanies,
   getTimeline,
   getSimilarCompanies,
+  requestContext,
   ApiError,
   type CompanyData,
   type SearchResult,
   type TimelineData,
   type SimilarCompanies,
+  type RequestContext,
 } from "../api-client.js";
 
+type BatchRow = z.infer<typeof LookupCompaniesBatchOutputSchema>["rows"][0];
+
+type SearchHit = SearchResult["results"][0];
+
+/** Maximum concurrent upstream lookups for one batch */
+const BATCH_CONCURRENCY = 5;
+
+/** Search score at or above which a name match is resolved without asking */
+const STRONG_MATCH_SCORE = 0.9;
+
+/** Search score at or above which a name match is offered as a candidate */
+const CANDIDATE_SCORE = 0.5;
+
+/** Maximum candidates offered when a name is ambiguous */
+const MAX_CANDIDATES = 10;
+
+/** How long the user has to pick a candidate */
+const ELICITATION_TIMEOUT_MS = 5 * 60 * 1000;
+
 /**
  * Format company basic info for markdown output
  */
-function formatBasicInfo(data: CompanyData): string[] {
+function formatBasicInfo(data: CompanyData, lang: Lang): string[] {
+  const { common, company: t } = messages(lang);
   const lines: string[] = [
     `# ${data.name}`,
-    `**Organization Number:** ${data.orgnr_formatted}`,
-    `**Form:** ${data.org_form.code} (${data.org_form.description})`,
-    `**Status:** ${data.status}`,
-    `**Registered:** ${data.registered_date}`,
+    `**${t.orgnr}:** ${data.orgnr_formatted}`,
+    `**${t.form}:** ${data.org_form.code} (${data.org_form.description})`,
+    `**${common.status}:** ${data.status}`,
+    `**${t.registered}:** ${formatDate(data.registered_date, lang)}`,
   ];
   if (data.vat_number) {
-    lines.push(`**VAT Number:** ${data.vat_number}`);
+    lines.push(`**${t.vatNumber}:** ${data.vat_number}`);
   }
   if (data.deregistered_date) {
-    lines.push(`**Deregistered:** ${data.deregistered_date}`);
+    lines.push(`**${t.deregistered}:** ${formatDate(data.deregistered_date, lang)}`);
   }
   if (data.website) {
-    lines.push(`**Website:** ${data.website}`);
+    lines.push(`**${t.website}:** ${data.website}`);
   }
   return lines;
 }
@@ -46,20 +90,21 @@ function formatBasicInfo(data: CompanyData): string[] {
 /**
  * Format company address and SNI codes
  */
-function formatAddressAndSni(data: CompanyData): string[] {
+function formatAddressAndSni(data: CompanyData, lang: Lang): string[] {
+  const t = messages(lang).company;
   const lines: string[] = [];
   if (data.address) {
     const addr = data.address;
     const parts = [addr.street, addr.postal_code, addr.city, addr.country].filter(Boolean);
-    if (parts.length > 0) lines.push(`**Address:** ${parts.join(", ")}`);
+    if (parts.length > 0) lines.push(`**${t.address}:** ${parts.join(", ")}`);
   }
   const sniCodes = data.business?.sni_codes;
   if (sniCodes && sniCodes.length > 0) {
-    lines.push("", "## Industry Codes (SNI)");
+    lines.push("", `## ${t.sniCodes}`);
     for (const sni of sniCodes) lines.push(`- ${sni.code}: ${sni.description}`);
   }
   if (data.business?.description) {
-    lines.push("", "## Business Description");
+    lines.push("", `## ${t.businessDescription}`);
     lines.push(data.business.description.replace(/\n/g, " ").substring(0, 500));
   }
   return lines;
@@ -68,14 +113,15 @@ function formatAddressAndSni(data: CompanyData): string[] {
 /**
  * Format financial health section
  */
-function formatFinancialHealthSection(data: CompanyData): string[] {
+function formatFinancialHealthSection(data: CompanyData, lang: Lang): string[] {
   if (!data.financial_health) return [];
+  const t = messages(lang).company;
   const fh = data.financial_health;
   const lines = [
-    "", "## Financial Health",
-    `**Stability Grade:** ${fh.stability_grade}`,
-    `**Volatility Index:** ${String(fh.volatility_index)}/100`,
-    `**Composite Score:** ${String(fh.composite_score)}/100`,
+    "", `## ${t.financialHealth}`,
+    `**${t.stabilityGrade}:** ${fh.stability_grade}`,
+    `**${t.volatilityIndex}:** ${String(fh.volatility_index)}/100`,
+    `**${t.compositeScore}:** ${String(fh.composite_score)}/100`,
   ];
   return lines;
 }
@@ -83,106 +129,436 @@ function formatFinancialHealthSection(data: CompanyData): string[] {
 /**
  * Format company data for AI-friendly output
  */
-function formatCompanyResponse(data: CompanyData): string {
+export function formatCompanyResponse(data: CompanyData, lang: Lang): string {
+  const { common, company: t } = messages(lang);
   const lines = [
-    ...formatBasicInfo(data),
-    ...formatAddressAndSni(data),
-    ...formatFinancialHealthSection(data),
+    ...formatBasicInfo(data, lang),
+    ...formatAddressAndSni(data, lang),
+    ...formatFinancialHealthSection(data, lang),
   ];
   if (data.financials) {
-    lines.push("", "## Financial Data");
-    lines.push("*See analyze_company_financials tool for detailed analysis*");
+    lines.push("", `## ${t.financialData}`);
+    lines.push(t.seeFinancialsTool);
   }
-  lines.push("", `*Source: ${data.meta.source}, Updated: ${data.meta.updated_at}*`);
+  lines.push("", common.source(data.meta.source, formatDate(data.meta.updated_at, lang)));
   return lines.join("\n");
 }
 
 /**
  * Format search results for AI-friendly output
  */
-function formatSearchResponse(data: SearchResult): string {
-  const lines: string[] = [`Found **${String(data.total)}** companies matching "${data.query}":`, ""];
-  for (const company of data.results) {
+function formatSearchResponse(data: SearchResult, lang: Lang, shown = data.results.length): string {
+  const { common, search: t, truncation } = messages(lang);
+  const lines: string[] = [t.found(formatNumber(data.total, lang), data.query), ""];
+  for (const company of data.results.slice(0, shown)) {
     const cityInfo = company.city ? ` (${company.city})` : "";
-    const statusInfo = company.active ? "" : " [INACTIVE]";
+    const statusInfo = company.active ? "" : ` ${t.inactive}`;
     lines.push(`- **${company.name}** [${company.orgnr}] - ${company.org_form}${cityInfo}${statusInfo}`);
   }
+  if (shown < data.results.length) {
+    lines.push("", truncation.moreItems(formatNumber(data.results.length - shown, lang)));
+  }
   if (data.next_cursor) {
-    lines.push("", `*More results available (showing ${String(data.results.length)} of ${String(data.total)})*`);
+    lines.push(
+      "",
+      `${t.moreResults(formatNumber(data.results.length, lang), formatNumber(data.total, lang))} ${common.nextPage(data.next_cursor)}`
+    );
   }
   return lines.join("\n");
 }
 
+/** Search results, shortened by dropping the last results */
+function searchView(data: SearchResult, lang: Lang): OutputView {
+  return {
+    items: data.results.length,
+    markdown: (shown) => formatSearchResponse(data, lang, shown),
+    json: (shown) => truncatedJson(data, "results", data.results.slice(0, shown), data.results.length - shown),
+  };
+}
+
+/**
+ * Position of the page after an upstream search page
+ */
+function nextSearchPage(data: SearchResult): PagePosition | undefined {
+  if (data.next_cursor) return { cursor: data.next_cursor };
+  const nextOffset = data.offset + data.results.length;
+  return nextOffset < data.total ? { offset: nextOffset } : undefined;
+}
+
+/**
+ * Run a search, paging internally when max_results is set. The returned
+ * next_cursor is a continuation token for the search_companies tool.
+ */
+async function runSearch(params: SearchCompaniesInput, context: RequestContext): Promise<SearchResult> {
+  const start: PagePosition = params.cursor ? decodeCursor(params.cursor) : { offset: params.offset };
+  let last: SearchResult | undefined;
+  const { items, next } = await collectPages(start, params.max_results ?? params.limit, params.max_results ? 100 : params.limit, async (position, limit) => {
+    last = await searchCompanies({
+      q: params.query, city: params.city, sni: params.sni,
+      org_form: params.org_form, active_only: params.active_only,
+      limit, offset: position.offset, cursor: position.cursor,
+    }, context);
+    return { items: last.results, next: nextSearchPage(last) };
+  });
+  if (!last) throw new Error("Search returned no pages");
+  return {
+    ...last,
+    offset: start.offset ?? last.offset,
+    limit: items.length,
+    results: items,
+    next_cursor: next ? encodeCursor(next) : undefined,
+  };
+}
+
 /**
  * Format timeline for AI-friendly output
  */
-function formatTimelineResponse(data: TimelineData): string {
-  const lines: string[] = [`# Timeline for ${data.orgnr}`, ""];
-  for (const event of data.events) {
-    lines.push(`- **${event.date}** [${event.type}]: ${event.description}`);
+export function formatTimelineResponse(data: TimelineData, lang: Lang, shown = data.events.length): string {
+  const { company: t, truncation } = messages(lang);
+  const { events, earlier } = newestEvents(data.events, shown);
+  const lines: string[] = [`# ${t.timelineTitle(data.orgnr)}`, ""];
+  if (earlier.length > 0) {
+    const counts = new Map<string, number>();
+    for (const event of earlier) counts.set(event.type, (counts.get(event.type) ?? 0) + 1);
+    const types = [...counts].map(([type, count]) => `${type} (${formatNumber(count, lang)})`).join(", ");
+    lines.push(`- ${truncation.earlierEvents(formatNumber(earlier.length, lang), types)}`);
+  }
+  for (const event of events) {
+    lines.push(`- **${formatDate(event.date, lang)}** [${event.type}]: ${event.description}`);
   }
   return lines.join("\n");
 }
 
+/**
+ * The newest `shown` events, in chronological order, and the earlier events
+ * they leave out. All events are returned in their original order when they fit.
+ */
+function newestEvents(
+  all: TimelineData["events"],
+  shown: number
+): { events: TimelineData["events"]; earlier: TimelineData["events"] } {
+  if (shown >= all.length) return { events: all, earlier: [] };
+  const sorted = [...all].sort((a, b) => a.date.localeCompare(b.date));
+  return { events: keepLast(sorted, shown), earlier: sorted.slice(0, sorted.length - shown) };
+}
+
+/** Timeline, shortened by collapsing the oldest events into a count per type */
+function timelineView(data: TimelineData, lang: Lang): OutputView {
+  return {
+    items: data.events.length,
+    markdown: (shown) => formatTimelineResponse(data, lang, shown),
+    json: (shown) => truncatedJson(data, "events", newestEvents(data.events, shown).events, data.events.length - shown),
+  };
+}
+
 /**
  * Format similar companies for AI-friendly output
  */
-function formatSimilarResponse(data: SimilarCompanies): string {
+function formatSimilarResponse(data: SimilarCompanies, lang: Lang, shown = data.similar.length): string {
+  const { common, company: t, truncation } = messages(lang);
   const lines: string[] = [
-    `# Similar Companies to ${data.orgnr}`, "",
-    "| Company | Org Nr | SNI Match | City |",
+    `# ${t.similarTitle(data.orgnr)}`, "",
+    `| ${common.company} | ${common.orgnr} | ${t.sniMatch} | ${common.city} |`,
     "|---------|--------|-----------|------|",
   ];
-  for (const company of data.similar) {
+  for (const company of data.similar.slice(0, shown)) {
     const sniMatch = company.sni_match?.join(", ") ?? "-";
     lines.push(`| ${company.name} | ${company.orgnr} | ${sniMatch} | ${company.city ?? "-"} |`);
   }
+  if (shown < data.similar.length) {
+    lines.push("", truncation.moreItems(formatNumber(data.similar.length - shown, lang)));
+  }
+  return lines.join("\n");
+}
+
+/** Similar companies, shortened by dropping the least similar */
+function similarView(data: SimilarCompanies, lang: Lang): OutputView {
+  return {
+    items: data.similar.length,
+    markdown: (shown) => formatSimilarResponse(data, lang, shown),
+    json: (shown) => truncatedJson(data, "similar", data.similar.slice(0, shown), data.similar.length - shown),
+  };
+}
+
+/** Rows where the company itself could not be looked up */
+function countFailedRows(rows: BatchRow[]): number {
+  return rows.filter((r) => r.name === undefined).length;
+}
+
+/**
+ * Format batch lookup rows as a compact table
+ */
+function formatBatchResponse(rows: BatchRow[], includeHealth: boolean, lang: Lang, shown = rows.length): string {
+  const { common, batch: t, truncation } = messages(lang);
+  const failed = countFailedRows(rows);
+  const lines: string[] = [
+    t.summary(formatNumber(rows.length, lang), formatNumber(rows.length - failed, lang), formatNumber(failed, lang)), "",
+    `| # | ${common.orgnr} | ${common.name} | ${t.form} | ${common.status} | ${common.city} |${includeHealth ? ` ${t.score} |` : ""} ${common.error} |`,
+    `|---|--------|------|------|--------|------|${includeHealth ? "-------|" : ""}-------|`,
+  ];
+  rows.slice(0, shown).forEach((r, i) => {
+    const score = includeHealth ? ` ${r.health_score === undefined ? "-" : String(r.health_score)} |` : "";
+    lines.push(
+      `| ${String(i + 1)} | ${r.orgnr ?? r.input} | ${r.name ?? "-"} | ${r.org_form ?? "-"} | ${r.status ?? "-"} | ${r.city ?? "-"} |${score} ${r.error ?? ""} |`
+    );
+  });
+  if (shown < rows.length) {
+    lines.push("", truncation.moreItems(formatNumber(rows.length - shown, lang)));
+  }
   return lines.join("\n");
 }
 
+/** Batch lookup table, shortened by dropping the last rows */
+function batchView(rows: BatchRow[], includeHealth: boolean, lang: Lang): OutputView {
+  const failed = countFailedRows(rows);
+  const result = { total: rows.length, succeeded: rows.length - failed, failed, rows };
+  return {
+    items: rows.length,
+    markdown: (shown) => formatBatchResponse(rows, includeHealth, lang, shown),
+    json: (shown) => truncatedJson(result, "rows", rows.slice(0, shown), rows.length - shown),
+  };
+}
+
+/**
+ * Short per-row error description for batch tables
+ */
+function batchRowError(error: unknown, lang: Lang): string {
+  const t = messages(lang);
+  if (error instanceof ApiError) {
+    if (error.statusCode === 404) return t.batch.companyNotFound;
+    if (error.statusCode === 403) return t.common.accessDenied(error.message);
+    return error.message;
+  }
+  return error instanceof Error ? error.message : String(error);
+}
+
+/**
+ * Look up one batch row; failures are recorded on the row instead of thrown
+ */
+async function lookupBatchRow(
+  input: string,
+  includeHealth: boolean,
+  lang: Lang,
+  context: RequestContext
+): Promise<BatchRow> {
+  const normalized = normalizeOrgnr(input);
+  if (!normalized.ok) return { input, error: normalized.message };
+
+  const row: BatchRow = { input, orgnr: normalized.orgnr };
+  try {
+    const data = await getCompany(normalized.orgnr, { lang }, context);
+    row.name = data.name;
+    row.org_form = data.org_form.code;
+    row.status = data.status;
+    row.city = data.address?.city;
+  } catch (error) {
+    row.error = batchRowError(error, lang);
+    return row;
+  }
+  if (includeHealth) {
+    try {
+      row.health_score = (await getHealthScore(normalized.orgnr, context)).score;
+    } catch (error) {
+      row.error = messages(lang).batch.healthScoreUnavailable(batchRowError(error, lang));
+    }
+  }
+  return row;
+}
+
+/**
+ * Run a batch lookup, reporting progress when the client asked for it
+ */
+async function runBatchLookup(
+  orgnrs: string[],
+  includeHealth: boolean,
+  lang: Lang,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<BatchRow[]> {
+  const context = requestContext(extra);
+  let completed = 0;
+
+  return mapWithConcurrency(orgnrs, BATCH_CONCURRENCY, async (input) => {
+    const row = await lookupBatchRow(input, includeHealth, lang, context);
+    completed++;
+    await sendProgress(extra, completed, orgnrs.length, messages(lang).batch.progress(row.orgnr ?? row.input));
+    return row;
+  }, extra.signal);
+}
+
+/**
+ * Outcome of resolving a company name: an orgnr, the candidates to choose
+ * from, or a message explaining why neither
+ */
+type NameResolution = { orgnr: string } | { candidates: SearchHit[]; message: string } | { message: string };
+
+/**
+ * The orgnr of the only strong match, or the plausible candidates when no
+ * single match stands out. Hits without a score count as plausible.
+ */
+function classifyMatches(hits: SearchHit[]): { orgnr: string } | { candidates: SearchHit[] } {
+  const strong = hits.filter((hit) => (hit.score ?? 0) >= STRONG_MATCH_SCORE);
+  if (strong.length === 1) return { orgnr: strong[0].orgnr };
+  const candidates = hits
+    .filter((hit) => hit.score === undefined || hit.score >= CANDIDATE_SCORE)
+    .slice(0, MAX_CANDIDATES);
+  if (candidates.length === 1) return { orgnr: candidates[0].orgnr };
+  return { candidates };
+}
+
+/** One-line description of a candidate: name, orgnr, city, form and status */
+function candidateLabel(hit: SearchHit, lang: Lang): string {
+  const t = messages(lang).lookup;
+  const details = [hit.city, hit.org_form, hit.active ? t.active : t.inactive].filter(Boolean);
+  return `${hit.name} (${hit.orgnr}) - ${details.join(", ")}`;
+}
+
+/**
+ * Whether the client accepts form elicitation. An elicitation capability
+ * without form or url keys predates the split and means form support.
+ */
+function supportsFormElicitation(server: McpServer): boolean {
+  const elicitation = server.server.getClientCapabilities()?.elicitation;
+  if (!elicitation) return false;
+  return elicitation.form !== undefined || elicitation.url === undefined;
+}
+
+/** Ask the user to pick one of the candidates; undefined if they decline */
+async function pickCandidate(
+  name: string,
+  candidates: SearchHit[],
+  lang: Lang,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<string | undefined> {
+  const t = messages(lang);
+  const result = await extra.sendRequest({
+    method: "elicitation/create",
+    params: {
+      mode: "form",
+      message: t.lookup.pick(name),
+      requestedSchema: {
+        type: "object",
+        properties: {
+          orgnr: {
+            type: "string",
+            title: t.common.company,
+            oneOf: candidates.map((hit) => ({ const: hit.orgnr, title: candidateLabel(hit, lang) })),
+          },
+        },
+        required: ["orgnr"],
+      },
+    },
+  }, ElicitResultSchema, { signal: extra.signal, timeout: ELICITATION_TIMEOUT_MS });
+
+  const picked = result.action === "accept" ? result.content?.orgnr : undefined;
+  return candidates.find((hit) => hit.orgnr === picked)?.orgnr;
+}
+
+/**
+ * Resolve a company name to an orgnr. A single strong match is used
+ * directly; several candidates are offered to the user through elicitation,
+ * or returned for the agent to choose from when the client does not support it.
+ */
+async function resolveCompanyName(
+  server: McpServer,
+  name: string,
+  lang: Lang,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<NameResolution> {
+  const t = messages(lang).lookup;
+  const data = await searchCompanies({ q: name, limit: MAX_CANDIDATES }, requestContext(extra));
+  const match = classifyMatches(data.results);
+  if ("orgnr" in match) return match;
+  if (match.candidates.length === 0) return { message: t.noMatch(name) };
+
+  if (!supportsFormElicitation(server)) {
+    const list = match.candidates.map((hit) => `- ${candidateLabel(hit, lang)}`);
+    return { candidates: match.candidates, message: [t.ambiguous(name), "", ...list].join("\n") };
+  }
+  const orgnr = await pickCandidate(name, match.candidates, lang, extra);
+  return orgnr === undefined ? { message: t.noSelection } : { orgnr };
+}
+
 /**
  * Handle API errors and return user-friendly message
  */
-function handleApiError(error: unknown): string {
+function handleApiError(error: unknown, lang: Lang): string {
+  const t = messages(lang);
   if (error instanceof ApiError) {
-    if (error.statusCode === 404) return `Company not found. Verify the organization number is correct.`;
-    if (error.statusCode === 403) return `Access denied: ${error.message}`;
-    return `API error: ${error.message}`;
+    if (error.statusCode === 404) return t.company.notFound;
+    if (error.statusCode === 403) return t.common.accessDenied(error.message);
+    return t.common.apiError(error.message);
   }
-  return `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+  return t.common.unexpectedError(error instanceof Error ? error.message : String(error));
 }
 
 /** Register lookup and search tools */
 function registerLookupTools(server: McpServer): void {
   server.registerTool("lookup_company", {
-    description: "Get comprehensive information about a Swedish company by organization number.",
+    description: "Get comprehensive information about a Swedish company by organization number or name. When a name matches several companies, the user is asked to pick one; clients that cannot ask get the candidates back instead.",
     inputSchema: LookupCompanyInputSchema.shape,
-  }, async (params) => {
+    outputSchema: LookupCompanyOutputSchema.shape,
+  }, instrumented("lookup_company", async (params, extra) => {
+    const denied = checkTierAccess("lookup_company", params, extra.authInfo);
+    if (denied) return denied;
+    if ((params.orgnr === undefined) === (params.name === undefined)) {
+      return { content: [{ type: "text", text: messages(params.lang).lookup.orgnrOrName }], isError: true };
+    }
     try {
+      let orgnr = params.orgnr;
+      if (orgnr === undefined) {
+        const resolved = await resolveCompanyName(server, params.name ?? "", params.lang, extra);
+        // Candidates are an answer the agent can act on, not a failure
+        if ("candidates" in resolved) {
+          const result = { candidates: resolved.candidates };
+          return { content: [{ type: "text", text: renderOutput(params, fixedView(resolved.message, result)) }], structuredContent: result };
+        }
+        if ("message" in resolved) return { content: [{ type: "text", text: resolved.message }], isError: true };
+        orgnr = resolved.orgnr;
+      }
       const include: string[] = [];
       if (params.include_financials) include.push("financials");
       if (params.include_fi) include.push("fi");
-      const data = await getCompany(params.orgnr, { include, lang: params.lang });
-      return { content: [{ type: "text", text: formatCompanyResponse(data) }] };
+      const data = await getCompany(orgnr, { include, lang: params.lang }, requestContext(extra));
+      return { content: [{ type: "text", text: renderOutput(params, fixedView(formatCompanyResponse(data, params.lang), data)) }], structuredContent: { ...data } };
     } catch (error) {
-      return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }], isError: true };
     }
-  });
+  }));
+
+  server.registerTool("lookup_companies_batch", {
+    description: "Look up many Swedish companies at once (up to 500, depending on plan) and return a compact table with a per-row error column.",
+    inputSchema: LookupCompaniesBatchInputSchema.shape,
+    outputSchema: LookupCompaniesBatchOutputSchema.shape,
+  }, instrumented("lookup_companies_batch", async (params, extra) => {
+    const denied = checkTierAccess("lookup_companies_batch", params, extra.authInfo);
+    if (denied) return denied;
+    try {
+      const rows = await runBatchLookup(params.orgnrs, params.include_health, params.lang, extra);
+      const failed = countFailedRows(rows);
+      return {
+        content: [{ type: "text", text: renderOutput(params, batchView(rows, params.include_health, params.lang)) }],
+        structuredContent: { total: rows.length, succeeded: rows.length - failed, failed, rows },
+      };
+    } catch (error) {
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }], isError: true };
+    }
+  }));
 
   server.registerTool("search_companies", {
-    description: "Search for Swedish companies by name with optional filters.",
+    description: "Search for Swedish companies by name with optional filters. Use cursor to page through results, or max_results to fetch several pages at once.",
     inputSchema: SearchCompaniesInputSchema.shape,
-  }, async (params) => {
+    outputSchema: SearchResultSchema.shape,
+  }, instrumented("search_companies", async (params, extra) => {
     try {
-      const data = await searchCompanies({
-        q: params.query, city: params.city, sni: params.sni,
-        org_form: params.org_form, active_only: params.active_only, limit: params.limit,
-      });
-      return { content: [{ type: "text", text: formatSearchResponse(data) }] };
+      const data = await runSearch(params, requestContext(extra));
+      return {
+        content: [{ type: "text", text: renderOutput(params, searchView(data, params.lang)) }, ...sniCodeNotes(params.sni, params.lang)],
+        structuredContent: { ...data },
+      };
     } catch (error) {
-      return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }, ...sniCodeNotes(params.sni, params.lang)], isError: true };
     }
-  });
+  }));
 }
 
 /** Register timeline and similar tools */
@@ -190,26 +566,28 @@ function registerRelatedTools(server: McpServer): void {
   server.registerTool("get_company_timeline", {
     description: "Get historical events for a Swedish company.",
     inputSchema: GetTimelineInputSchema.shape,
-  }, async (params) => {
+    outputSchema: TimelineDataSchema.shape,
+  }, instrumented("get_company_timeline", async (params, extra) => {
     try {
-      const data = await getTimeline(params.orgnr, params.lang);
-      return { content: [{ type: "text", text: formatTimelineResponse(data) }] };
+      const data = await getTimeline(params.orgnr, params.lang, requestContext(extra));
+      return { content: [{ type: "text", text: renderOutput(params, timelineView(data, params.lang)) }], structuredContent: { ...data } };
     } catch (error) {
-      return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }], isError: true };
     }
-  });
+  }));
 
   server.registerTool("get_similar_companies", {
     description: "Find companies similar by industry and location.",
     inputSchema: GetSimilarInputSchema.shape,
-  }, async (params) => {
+    outputSchema: SimilarCompaniesSchema.shape,
+  }, instrumented("get_similar_companies", async (params, extra) => {
     try {
-      const data = await getSimilarCompanies(params.orgnr, { limit: params.limit, same_city: params.same_city });
-      return { content: [{ type: "text", text: formatSimilarResponse(data) }] };
+      const data = await getSimilarCompanies(params.orgnr, { limit: params.limit, same_city: params.same_city }, requestContext(extra));
+      return { content: [{ type: "text", text: renderOutput(params, similarView(data, params.lang)) }], structuredContent: { ...data } };
     } catch (error) {
-      return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }], isError: true };
     }
-  });
+  }));
 }
 
 /** Register all company-related tools with the MCP server */
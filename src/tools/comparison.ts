@@ -0,0 +1,279 @@
+/**
+ * Side-by-side company comparison MCP tool
+ */
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { z } from "zod";
+import { CompareCompaniesInputSchema } from "../schemas.js";
+import { CompareCompaniesOutputSchema } from "../output-schemas.js";
+import {
+  getCompany,
+  getFinancials,
+  getHealthScore,
+  getFinancialHealth,
+  requestContext,
+  ApiError,
+  type FinancialsData,
+  type HealthScore,
+  type FinancialHealth,
+  type RequestContext,
+} from "../api-client.js";
+import { checkTierAccess } from "../tiers.js";
+import { formatCurrency, formatPercent } from "./financials.js";
+import { messages, formatNumber, formatDate, type Lang } from "../i18n.js";
+import { renderOutput, keepLast, truncatedJson, type OutputView } from "../response-format.js";
+import { instrumented } from "../instrumentation.js";
+
+type FiscalYear = FinancialsData["years"][0];
+type ComparedCompany = z.infer<typeof CompareCompaniesOutputSchema>["companies"][0];
+
+/** Number of aligned fiscal years shown in the revenue table */
+const REVENUE_YEARS = 5;
+
+/** Everything fetched for one company; missing parts are listed in errors */
+interface CompanyBundle {
+  orgnr: string;
+  name?: string;
+  financials?: FinancialsData;
+  health?: HealthScore;
+  financialHealth?: FinancialHealth;
+  errors: string[];
+}
+
+/**
+ * Calendar year a fiscal year is attributed to, so that companies with
+ * different year ends line up. A fiscal year belongs to the calendar year
+ * most of it falls in; years ending January-May count as the previous year.
+ */
+function alignedFiscalYear(fiscalYearEnd: string): number {
+  const end = new Date(fiscalYearEnd);
+  return end.getUTCMonth() < 5 ? end.getUTCFullYear() - 1 : end.getUTCFullYear();
+}
+
+/** Index fiscal years by aligned year, preferring primary and later reports */
+function yearsByAlignedYear(financials?: FinancialsData): Map<number, FiscalYear> {
+  const byYear = new Map<number, FiscalYear>();
+  const sorted = [...(financials?.years ?? [])].sort((a, b) => a.fiscal_year_end.localeCompare(b.fiscal_year_end));
+  for (const year of sorted) {
+    const aligned = alignedFiscalYear(year.fiscal_year_end);
+    const existing = byYear.get(aligned);
+    if (!existing || year.is_primary !== false || existing.is_primary === false) {
+      byYear.set(aligned, year);
+    }
+  }
+  return byYear;
+}
+
+/** Short description of why one part of a company bundle is missing */
+function describeError(part: string, error: unknown, lang: Lang): string {
+  if (error instanceof ApiError) {
+    if (error.statusCode === 404) return `${part}: ${messages(lang).parts.notAvailable}`;
+    return `${part}: ${error.message}`;
+  }
+  return `${part}: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/** Fetch everything needed to compare one company */
+async function fetchBundle(orgnr: string, lang: Lang, context: RequestContext): Promise<CompanyBundle> {
+  const parts = messages(lang).parts;
+  const bundle: CompanyBundle = { orgnr, errors: [] };
+  const capture = <T>(part: string, promise: Promise<T>): Promise<T | undefined> =>
+    promise.catch((error: unknown) => {
+      bundle.errors.push(describeError(part, error, lang));
+      return undefined;
+    });
+
+  const [company, financials, health, financialHealth] = await Promise.all([
+    capture(parts.company, getCompany(orgnr, { lang }, context)),
+    capture(parts.financials, getFinancials(orgnr, context)),
+    capture(parts.healthScore, getHealthScore(orgnr, context)),
+    capture(parts.financialHealth, getFinancialHealth(orgnr, context)),
+  ]);
+  bundle.name = company?.name;
+  bundle.financials = financials;
+  bundle.health = health;
+  bundle.financialHealth = financialHealth;
+  return bundle;
+}
+
+/**
+ * Latest aligned fiscal year that every company with financials has, or
+ * null when they share no year
+ */
+function commonFiscalYear(yearMaps: Map<number, FiscalYear>[]): number | null {
+  const withData = yearMaps.filter((m) => m.size > 0);
+  if (withData.length === 0) return null;
+  const candidates = [...withData[0].keys()].filter((y) => withData.every((m) => m.has(y)));
+  return candidates.length > 0 ? Math.max(...candidates) : null;
+}
+
+/** Build the structured comparison row for one company */
+function toComparedCompany(
+  bundle: CompanyBundle,
+  years: Map<number, FiscalYear>,
+  fiscalYear: number | null
+): ComparedCompany {
+  // Without a common year, fall back to the company's own latest year
+  const latest = years.size > 0 ? Math.max(...years.keys()) : undefined;
+  const year = years.get(fiscalYear ?? latest ?? NaN);
+  const revenueByYear: Record<string, number | null> = {};
+  for (const [aligned, y] of years) revenueByYear[String(aligned)] = y.income_statement.revenue ?? null;
+
+  return {
+    orgnr: bundle.orgnr,
+    name: bundle.name,
+    fiscal_year_end: year?.fiscal_year_end,
+    currency: bundle.financials?.currency,
+    revenue: year?.income_statement.revenue,
+    operating_result: year?.income_statement.operating_result,
+    equity_ratio: year?.ratios.equity_ratio,
+    profit_margin: year?.ratios.profit_margin,
+    employees: year?.employees,
+    health_score: bundle.health?.score,
+    composite_score: bundle.financialHealth?.composite_score,
+    stability_grade: bundle.financialHealth?.stability_grade,
+    revenue_by_year: revenueByYear,
+    errors: bundle.errors,
+  };
+}
+
+/** True when nothing at all could be fetched for a company */
+function isEmptyBundle(bundle: CompanyBundle): boolean {
+  return !bundle.name && !bundle.financials && !bundle.health && !bundle.financialHealth;
+}
+
+/** Format one markdown table row */
+function tableRow(cells: string[]): string {
+  return `| ${cells.join(" | ")} |`;
+}
+
+/** Aligned years shown in the revenue table, oldest first */
+function revenueYears(companies: ComparedCompany[]): string[] {
+  return [...new Set(companies.flatMap((c) => Object.keys(c.revenue_by_year)))]
+    .sort()
+    .slice(-REVENUE_YEARS);
+}
+
+/**
+ * Revenue years and missing-data entries shown for a budget of `shown`
+ * items; the oldest revenue years are left out first
+ */
+function shownParts(companies: ComparedCompany[], shown: number): { years: string[]; withErrors: ComparedCompany[] } {
+  const withErrors = companies.filter((c) => c.errors.length > 0);
+  const shownErrors = Math.min(withErrors.length, shown);
+  return {
+    years: keepLast(revenueYears(companies), shown - shownErrors),
+    withErrors: withErrors.slice(0, shownErrors),
+  };
+}
+
+/** Format the comparison for AI-friendly output */
+function formatComparisonResponse(
+  companies: ComparedCompany[],
+  fiscalYear: number | null,
+  lang: Lang,
+  shown = Infinity
+): string {
+  const { common, financials: f, comparison: t, truncation } = messages(lang);
+  const header = [f.metric, ...companies.map((c) => c.name ?? c.orgnr)];
+  const row = (label: string, cell: (c: ComparedCompany) => string): string =>
+    tableRow([label, ...companies.map(cell)]);
+  const score = (value: number | undefined): string => (value === undefined ? common.notAvailable : `${String(value)}/100`);
+  const money = (c: ComparedCompany, value: number | null | undefined): string => formatCurrency(value, lang, c.currency);
+
+  const lines = [`# ${t.title}`, "", fiscalYear === null ? t.noCommonYear : t.alignedYear(String(fiscalYear))];
+  const currencies = [...new Set(companies.flatMap((c) => (c.currency ? [c.currency] : [])))];
+  if (currencies.length > 1) lines.push(t.mixedCurrencies(currencies.join(", ")));
+  lines.push(
+    "",
+    tableRow(header),
+    tableRow(header.map(() => "---")),
+    row(common.orgnr, (c) => c.orgnr),
+    row(t.fiscalYearEnd, (c) => (c.fiscal_year_end ? formatDate(c.fiscal_year_end, lang) : common.notAvailable)),
+    row(f.revenue, (c) => money(c, c.revenue)),
+    row(f.operatingResult, (c) => money(c, c.operating_result)),
+    row(f.equityRatio, (c) => formatPercent(c.equity_ratio, lang)),
+    row(f.profitMargin, (c) => formatPercent(c.profit_margin, lang)),
+    row(f.employees, (c) => (c.employees === undefined || c.employees === null ? common.notAvailable : formatNumber(c.employees, lang))),
+    row(t.healthScore, (c) => score(c.health_score)),
+    row(t.compositeScore, (c) => score(c.composite_score)),
+    row(t.stabilityGrade, (c) => c.stability_grade ?? common.notAvailable),
+  );
+
+  const allYears = revenueYears(companies);
+  const { years, withErrors } = shownParts(companies, shown);
+  if (allYears.length > 0) {
+    lines.push("", `## ${t.revenueByYear}`);
+    if (years.length < allYears.length) {
+      lines.push("", truncation.olderYears(formatNumber(allYears.length - years.length, lang)));
+    }
+    if (years.length > 0) {
+      lines.push("", tableRow([common.year, ...header.slice(1)]), tableRow(header.map(() => "---")));
+      for (const y of years) {
+        lines.push(tableRow([y, ...companies.map((c) => money(c, c.revenue_by_year[y]))]));
+      }
+    }
+  }
+
+  const allWithErrors = companies.filter((c) => c.errors.length > 0).length;
+  if (allWithErrors > 0) {
+    lines.push("", `## ${t.missingData}`);
+    for (const c of withErrors) lines.push(`- **${c.name ?? c.orgnr}:** ${c.errors.join("; ")}`);
+    if (withErrors.length < allWithErrors) {
+      lines.push("", truncation.moreItems(formatNumber(allWithErrors - withErrors.length, lang)));
+    }
+  }
+  return lines.join("\n");
+}
+
+/**
+ * Comparison, shortened by dropping the oldest revenue years and then the
+ * last missing-data entries
+ */
+function comparisonView(result: { fiscal_year: number | null; companies: ComparedCompany[] }, lang: Lang): OutputView {
+  const { companies } = result;
+  const items = revenueYears(companies).length + companies.filter((c) => c.errors.length > 0).length;
+  return {
+    items,
+    markdown: (shown) => formatComparisonResponse(companies, result.fiscal_year, lang, shown),
+    json: (shown) => {
+      if (shown >= items) return result;
+      const { years, withErrors } = shownParts(companies, shown);
+      const kept = companies.map((c) => ({
+        ...c,
+        revenue_by_year: Object.fromEntries(years.filter((y) => y in c.revenue_by_year).map((y) => [y, c.revenue_by_year[y]])),
+        errors: withErrors.includes(c) ? c.errors : [],
+      }));
+      return truncatedJson(result, "companies", kept, items - shown);
+    },
+  };
+}
+
+/** Register comparison tools with the MCP server */
+export function registerComparisonTools(server: McpServer): void {
+  server.registerTool("compare_companies", {
+    description: "Compare 2-10 Swedish companies side by side: revenue, operating result, equity ratio, profit margin, employees, health and stability, with fiscal years aligned. Requires the pro plan.",
+    inputSchema: CompareCompaniesInputSchema.shape,
+    outputSchema: CompareCompaniesOutputSchema.shape,
+  }, instrumented("compare_companies", async (params, extra) => {
+    const denied = checkTierAccess("compare_companies", params, extra.authInfo);
+    if (denied) return denied;
+    const context = requestContext(extra);
+    try {
+      const bundles = await Promise.all(params.orgnrs.map((orgnr) => fetchBundle(orgnr, params.lang, context)));
+      if (bundles.every(isEmptyBundle)) {
+        const lines = [messages(params.lang).comparison.noData, ...bundles.map((b) => `- ${b.orgnr}: ${b.errors.join("; ")}`)];
+        return { content: [{ type: "text", text: lines.join("\n") }], isError: true };
+      }
+      const yearMaps = bundles.map((b) => yearsByAlignedYear(b.financials));
+      const fiscalYear = commonFiscalYear(yearMaps);
+      const companies = bundles.map((b, i) => toComparedCompany(b, yearMaps[i], fiscalYear));
+      const result = { fiscal_year: fiscalYear, companies };
+      return {
+        content: [{ type: "text", text: renderOutput(params, comparisonView(result, params.lang)) }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      return { content: [{ type: "text", text: messages(params.lang).common.unexpectedError(error instanceof Error ? error.message : String(error)) }], isError: true };
+    }
+  }));
+}
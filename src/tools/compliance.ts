@@ -2,117 +2,245 @@
  * Compliance and reference data MCP tools
  */
 import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
-import { GetComplianceInputSchema, GetIndustryStatsInputSchema } from "../schemas.js";
+import {
+  GetComplianceInputSchema,
+  GetIndustryStatsInputSchema,
+  ExportScreeningAuditInputSchema,
+} from "../schemas.js";
+import { CompanyScreeningSchema, IndustryStatsSchema, ScreeningAuditExportSchema } from "../output-schemas.js";
+import { checkTierAccess } from "../tiers.js";
+import { sniCodeNotes } from "./sni.js";
+import { recordScreening, auditSink, auditDateRange, type ScreeningAuditEntry } from "../audit.js";
+import { logger, errorFields } from "../logger.js";
+import { callerId } from "../auth.js";
+import { messages, formatNumber, formatDate, riskLevel, type Lang } from "../i18n.js";
+import { renderOutput, fixedView, keepLast, truncatedJson, type OutputView } from "../response-format.js";
+import { instrumented } from "../instrumentation.js";
 import {
   getCompanyScreening,
   getIndustryStats,
+  requestContext,
   ApiError,
   type CompanyScreening,
   type IndustryStats,
 } from "../api-client.js";
 
 /** Format a single board member screening */
-function formatBoardMember(member: CompanyScreening["boardMemberScreenings"][0]): string {
-  const risk = member.screening.riskLevel.toUpperCase();
+function formatBoardMember(member: CompanyScreening["boardMemberScreenings"][0], lang: Lang): string {
+  const t = messages(lang).compliance;
+  const risk = riskLevel(member.screening.riskLevel, lang).toUpperCase();
   const flags: string[] = [];
-  if (member.screening.hasSanctionsHits) flags.push("SANCTIONS");
-  if (member.screening.hasPepHits) flags.push("PEP");
+  if (member.screening.hasSanctionsHits) flags.push(t.sanctionsFlag);
+  if (member.screening.hasPepHits) flags.push(t.pepFlag);
   const flagStr = flags.length > 0 ? ` [${flags.join(", ")}]` : "";
   return `- **${member.name}** (${member.position}): ${risk}${flagStr}`;
 }
 
 /** Format compliance/screening data for AI-friendly output */
-function formatComplianceResponse(data: CompanyScreening): string {
+function formatComplianceResponse(data: CompanyScreening, lang: Lang, shown = data.boardMemberScreenings.length): string {
+  const { common, company, compliance: t, truncation } = messages(lang);
+  const yesNo = (value: boolean): string => (value ? common.yes : common.no);
   const lines = [
-    `# Compliance Screening for ${data.companyName}`,
-    `**Organization Number:** ${data.orgnr}`,
-    `**Screened At:** ${data.screenedAt}`,
+    `# ${t.title(data.companyName)}`,
+    `**${company.orgnr}:** ${data.orgnr}`,
+    `**${t.screenedAt}:** ${formatDate(data.screenedAt, lang)}`,
     "",
-    "## Risk Assessment",
-    `**Overall Risk Level:** ${data.overallRiskLevel.toUpperCase()}`,
-    `**Sanctions Hits:** ${data.hasSanctionsHits ? "Yes" : "No"}`,
-    `**PEP Hits:** ${data.hasPepHits ? "Yes" : "No"}`,
-    `**Board Members Screened:** ${String(data.boardMemberScreenings.length)}`,
+    `## ${t.riskAssessment}`,
+    `**${t.overallRiskLevel}:** ${riskLevel(data.overallRiskLevel, lang).toUpperCase()}`,
+    `**${t.sanctionsHits}:** ${yesNo(data.hasSanctionsHits)}`,
+    `**${t.pepHits}:** ${yesNo(data.hasPepHits)}`,
+    `**${t.boardMembersScreened}:** ${formatNumber(data.boardMemberScreenings.length, lang)}`,
     "",
-    "## Company Screening",
-    `**Risk Level:** ${data.companyScreening.riskLevel}`,
+    `## ${t.companyScreening}`,
+    `**${t.riskLevel}:** ${riskLevel(data.companyScreening.riskLevel, lang)}`,
   ];
 
   if (data.companyScreening.sanctionsHits.length > 0) {
-    lines.push(`**Sanctions Hits:** ${String(data.companyScreening.sanctionsHits.length)}`);
+    lines.push(`**${t.sanctionsHits}:** ${formatNumber(data.companyScreening.sanctionsHits.length, lang)}`);
   }
   if (data.companyScreening.pepHits.length > 0) {
-    lines.push(`**PEP Hits:** ${String(data.companyScreening.pepHits.length)}`);
+    lines.push(`**${t.pepHits}:** ${formatNumber(data.companyScreening.pepHits.length, lang)}`);
   }
 
   if (data.boardMemberScreenings.length > 0) {
-    lines.push("", "## Board Member Screenings");
-    lines.push(...data.boardMemberScreenings.map(formatBoardMember));
+    lines.push("", `## ${t.boardMemberScreenings}`);
+    lines.push(...boardMembersWithHitsFirst(data, shown).map((member) => formatBoardMember(member, lang)));
+  }
+  if (shown < data.boardMemberScreenings.length) {
+    lines.push("", truncation.moreItems(formatNumber(data.boardMemberScreenings.length - shown, lang)));
   }
 
   return lines.join("\n");
 }
 
+/**
+ * The first `shown` board member screenings. When some are left out,
+ * members with sanctions or PEP hits are kept first.
+ */
+function boardMembersWithHitsFirst(data: CompanyScreening, shown: number): CompanyScreening["boardMemberScreenings"] {
+  const members = data.boardMemberScreenings;
+  if (shown >= members.length) return members;
+  const hasHits = (m: (typeof members)[0]): boolean => m.screening.hasSanctionsHits || m.screening.hasPepHits;
+  return [...members].sort((a, b) => Number(hasHits(b)) - Number(hasHits(a))).slice(0, shown);
+}
+
+/** Screening, shortened by dropping board members without hits first */
+function complianceView(data: CompanyScreening, lang: Lang): OutputView {
+  const total = data.boardMemberScreenings.length;
+  return {
+    items: total,
+    markdown: (shown) => formatComplianceResponse(data, lang, shown),
+    json: (shown) => truncatedJson(data, "boardMemberScreenings", boardMembersWithHitsFirst(data, shown), total - shown),
+  };
+}
+
+/** Format a count that the API reports as a string */
+function formatCount(value: string, lang: Lang): string {
+  const count = Number(value);
+  return Number.isFinite(count) ? formatNumber(count, lang) : value;
+}
+
 /** Format industry statistics for AI-friendly output */
-function formatIndustryResponse(data: IndustryStats): string {
+export function formatIndustryResponse(data: IndustryStats, lang: Lang): string {
+  const t = messages(lang).industry;
   const stats = data.statistics;
   const lines = [
-    `# Industry Statistics: ${data.sni_code}`,
-    `**Description:** ${data.description}`, "",
-    "## Overview",
-    `**Total Companies:** ${stats.total_companies}`,
-    `**Active Companies:** ${stats.active_companies}`,
-    `**Average Company Age:** ${stats.avg_age_years.toFixed(1)} years`,
+    `# ${t.title(data.sni_code)}`,
+    `**${t.description}:** ${data.description}`, "",
+    `## ${t.overview}`,
+    `**${t.totalCompanies}:** ${formatCount(stats.total_companies, lang)}`,
+    `**${t.activeCompanies}:** ${formatCount(stats.active_companies, lang)}`,
+    `**${t.averageAge}:** ${t.years(formatNumber(stats.avg_age_years, lang, 1))}`,
     "",
-    "## By Organization Form",
+    `## ${t.byOrgForm}`,
   ];
 
   for (const [form, count] of Object.entries(stats.by_org_form)) {
-    lines.push(`- **${form}:** ${count}`);
+    lines.push(`- **${form}:** ${formatCount(count, lang)}`);
   }
 
-  lines.push("", "## Top Regions");
+  lines.push("", `## ${t.topRegions}`);
   const regions = Object.entries(stats.by_region).slice(0, 10);
   for (const [region, count] of regions) {
-    lines.push(`- **${region}:** ${count} companies`);
+    lines.push(`- **${region}:** ${t.companies(formatCount(count, lang))}`);
   }
 
   return lines.join("\n");
 }
 
+/** Format exported audit entries as a table */
+function formatAuditExport(entries: ScreeningAuditEntry[], from: string, to: string, lang: Lang, shown = entries.length): string {
+  const { common, audit: t, truncation } = messages(lang);
+  const lines = [`# ${t.title(formatDate(from, lang), formatDate(to, lang))}`, `**${t.entries}:** ${formatNumber(entries.length, lang)}`];
+  if (entries.length === 0) return lines.join("\n");
+
+  if (shown < entries.length) {
+    lines.push("", truncation.olderItems(formatNumber(entries.length - shown, lang)));
+  }
+  lines.push(
+    "",
+    `| ${t.recorded} | ${common.orgnr} | ${common.company} | ${t.screenedAt} | ${t.risk} | ${t.sanctions} | ${t.pep} | ${t.payloadHash} |`,
+    "|----------|-------|---------|-------------|------|-----------|-----|-----------------|"
+  );
+  for (const e of keepLast(entries, shown)) {
+    lines.push(
+      `| ${formatDate(e.recorded_at, lang)} | ${e.orgnr} | ${e.company_name} | ${formatDate(e.screened_at, lang)} | ${riskLevel(e.overall_risk_level, lang)} | ${String(e.sanctions_hits)} | ${String(e.pep_hits)} | \`${e.payload_sha256.slice(0, 16)}…\` |`
+    );
+  }
+  return lines.join("\n");
+}
+
+/** Audit export, shortened by dropping the oldest entries */
+function auditExportView(entries: ScreeningAuditEntry[], from: string, to: string, lang: Lang): OutputView {
+  return {
+    items: entries.length,
+    markdown: (shown) => formatAuditExport(entries, from, to, lang, shown),
+    json: (shown) => truncatedJson({ from, to, total: entries.length, entries }, "entries", keepLast(entries, shown), entries.length - shown),
+  };
+}
+
 /** Handle API errors */
-function handleApiError(error: unknown): string {
+function handleApiError(error: unknown, lang: Lang): string {
+  const t = messages(lang);
   if (error instanceof ApiError) {
-    if (error.statusCode === 404) return `Data not found. Please verify the input is correct.`;
-    if (error.statusCode === 403) return `Access denied: ${error.message}`;
-    return `API error: ${error.message}`;
+    if (error.statusCode === 404) return t.compliance.notFound;
+    if (error.statusCode === 403) return t.common.accessDenied(error.message);
+    return t.common.apiError(error.message);
   }
-  return `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+  return t.common.unexpectedError(error instanceof Error ? error.message : String(error));
 }
 
 /** Register compliance tools with the MCP server */
 export function registerComplianceTools(server: McpServer): void {
   server.registerTool("get_compliance_data", {
-    description: "Screen a company against sanctions lists and PEP databases.",
+    description: "Screen a company against sanctions lists and PEP databases. Requires the pro plan.",
     inputSchema: GetComplianceInputSchema.shape,
-  }, async (params) => {
+    outputSchema: CompanyScreeningSchema.shape,
+  }, instrumented("get_compliance_data", async (params, extra) => {
+    const denied = checkTierAccess("get_compliance_data", params, extra.authInfo);
+    if (denied) return denied;
+    // Every audited screening is a new upstream screening, never a cached one
+    const context = { ...requestContext(extra), revalidate: true };
+    let data: CompanyScreening;
+    try {
+      data = await getCompanyScreening(params.orgnr, context);
+    } catch (error) {
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }], isError: true };
+    }
+
+    // Screenings without an audit record are withheld
+    try {
+      await recordScreening(data, { clientId: callerId(extra.authInfo), requestId: context.requestId });
+    } catch (error) {
+      logger.error("Failed to record screening audit entry", { orgnr: data.orgnr, ...errorFields(error) });
+      return {
+        content: [{ type: "text", text: messages(params.lang).compliance.auditWithheld }],
+        isError: true,
+      };
+    }
+
+    return { content: [{ type: "text", text: renderOutput(params, complianceView(data, params.lang)) }], structuredContent: { ...data } };
+  }));
+
+  server.registerTool("export_screening_audit", {
+    description: "Export your recorded compliance screenings (who screened which company, when, the result and a payload hash) for a date range.",
+    inputSchema: ExportScreeningAuditInputSchema.shape,
+    outputSchema: ScreeningAuditExportSchema.shape,
+  }, instrumented("export_screening_audit", async (params, extra) => {
+    const sink = auditSink();
+    if (!sink) {
+      return { content: [{ type: "text", text: messages(params.lang).audit.disabled }], isError: true };
+    }
+    if (params.from > params.to) {
+      return { content: [{ type: "text", text: messages(params.lang).audit.invalidRange }], isError: true };
+    }
     try {
-      const data = await getCompanyScreening(params.orgnr);
-      return { content: [{ type: "text", text: formatComplianceResponse(data) }] };
+      const range = auditDateRange(params.from, params.to);
+      const clientId = callerId(extra.authInfo);
+      const entries = (await sink.read(range.from, range.to)).filter((e) => e.client_id === clientId);
+      return {
+        content: [{ type: "text", text: renderOutput(params, auditExportView(entries, params.from, params.to, params.lang)) }],
+        structuredContent: { from: params.from, to: params.to, total: entries.length, entries },
+      };
     } catch (error) {
-      return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      logger.error("Failed to read screening audit trail", errorFields(error));
+      return { content: [{ type: "text", text: messages(params.lang).audit.readFailed }], isError: true };
     }
-  });
+  }));
 
   server.registerTool("get_industry_stats", {
     description: "Get industry statistics and benchmarks by SNI code.",
     inputSchema: GetIndustryStatsInputSchema.shape,
-  }, async (params) => {
+    outputSchema: IndustryStatsSchema.shape,
+  }, instrumented("get_industry_stats", async (params, extra) => {
     try {
-      const data = await getIndustryStats(params.sni_code, params.lang);
-      return { content: [{ type: "text", text: formatIndustryResponse(data) }] };
+      const data = await getIndustryStats(params.sni_code, params.lang, requestContext(extra));
+      return {
+        content: [{ type: "text", text: renderOutput(params, fixedView(formatIndustryResponse(data, params.lang), data)) }, ...sniCodeNotes(params.sni_code, params.lang)],
+        structuredContent: { ...data },
+      };
     } catch (error) {
-      return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }, ...sniCodeNotes(params.sni_code, params.lang)], isError: true };
     }
-  });
+  }));
 }
@@ -6,224 +6,386 @@ import {
   AnalyzeFinancialsInputSchema,
   AssessFinancialHealthInputSchema,
   GetReportsInputSchema,
+  type GetReportsInput,
 } from "../schemas.js";
+import { collectPages, decodeCursor, encodeCursor, type PagePosition } from "../pagination.js";
+import {
+  AnalyzeFinancialsOutputSchema,
+  AssessFinancialHealthOutputSchema,
+  ReportsListSchema,
+} from "../output-schemas.js";
 import {
   getFinancials,
   getAnalysis,
   getHealthScore,
   getFinancialHealth,
   getReports,
+  requestContext,
   ApiError,
   type FinancialsData,
   type AnalysisData,
   type HealthScore,
   type FinancialHealth,
   type ReportsList,
+  type RequestContext,
 } from "../api-client.js";
+import { computeTrends, chronologicalYears, type FinancialTrends } from "../financial-trends.js";
+import { checkTierAccess } from "../tiers.js";
+import { renderOutput, fixedView, keepLast, truncatedJson, type OutputView } from "../response-format.js";
+import { instrumented } from "../instrumentation.js";
+import { messages, locale, formatNumber, formatDate, riskLevel, type Lang } from "../i18n.js";
 
 /** Format number as currency */
-function formatCurrency(value: number | null | undefined, currency = "SEK"): string {
-  if (value === undefined || value === null) return "N/A";
-  return value.toLocaleString("sv-SE") + " " + currency;
+export function formatCurrency(value: number | null | undefined, lang: Lang, currency = "SEK"): string {
+  if (value === undefined || value === null) return messages(lang).common.notAvailable;
+  return formatNumber(value, lang, 0) + " " + currency;
 }
 
 /** Format percentage */
-function formatPercent(value: number | null | undefined): string {
-  if (value === undefined || value === null) return "N/A";
-  return value.toFixed(1) + "%";
+export function formatPercent(value: number | null | undefined, lang: Lang): string {
+  if (value === undefined || value === null) return messages(lang).common.notAvailable;
+  return (value / 100).toLocaleString(locale(lang), {
+    style: "percent",
+    minimumFractionDigits: 1,
+    maximumFractionDigits: 1,
+  });
 }
 
-/** Format a single fiscal year */
-function formatYear(year: FinancialsData["years"][0], currency: string): string[] {
-  const inc = year.income_statement;
-  const bal = year.balance_sheet;
-  const rat = year.ratios;
-  const lines = [
-    `## Fiscal Year ${year.fiscal_year_end}`,
-    "",
-    "### Income Statement",
-    `- **Revenue:** ${formatCurrency(inc.revenue, currency)}`,
-    `- **Operating Result:** ${formatCurrency(inc.operating_result, currency)}`,
-    `- **Net Income:** ${formatCurrency(inc.net_income, currency)}`,
+/** Format an amount without currency, for tables that state it once */
+function formatAmount(value: number | null | undefined, lang: Lang): string {
+  if (value === undefined || value === null) return messages(lang).common.notAvailable;
+  return formatNumber(value, lang, 0);
+}
+
+/** Format a signed growth percentage */
+function formatGrowth(value: number | null, lang: Lang): string {
+  if (value === null) return messages(lang).common.notAvailable;
+  return (value > 0 ? "+" : "") + formatPercent(value, lang);
+}
+
+/** Format a multiple such as debt-to-equity */
+function formatMultiple(value: number | null, lang: Lang): string {
+  if (value === null) return messages(lang).common.notAvailable;
+  return formatNumber(value, lang, 2) + "x";
+}
+
+/** Format cash runway in months */
+function formatRunway(value: number | null, netIncome: number | null | undefined, lang: Lang): string {
+  if (value !== null) return formatNumber(value, lang, 1);
+  const t = messages(lang);
+  return netIncome !== undefined && netIncome !== null && netIncome >= 0 ? t.financials.profitable : t.common.notAvailable;
+}
+
+/** Format a compact trend table with one column per fiscal year */
+function formatTrendTable(data: FinancialsData, trends: FinancialTrends, lang: Lang, shown: number): string[] {
+  const t = messages(lang).financials;
+  const years = keepLast(chronologicalYears(data), shown);
+  const metrics = keepLast(trends.years, shown);
+  const row = (label: string, cell: (i: number) => string): string =>
+    `| ${label} | ${years.map((_, i) => cell(i)).join(" | ")} |`;
+  const amount = (value: number | null | undefined): string => formatAmount(value, lang);
+  const percent = (value: number | null | undefined): string => formatPercent(value, lang);
+
+  return [
+    `## ${t.trendTable(data.currency)}`, "",
+    `| ${t.metric} | ${years.map((y) => formatDate(y.fiscal_year_end, lang)).join(" | ")} |`,
+    `|--------|${years.map(() => "---").join("|")}|`,
+    row(t.revenue, (i) => amount(years[i].income_statement.revenue)),
+    row(t.revenueGrowth, (i) => formatGrowth(metrics[i].revenue_growth, lang)),
+    row(t.otherRevenue, (i) => amount(years[i].income_statement.other_revenue)),
+    row(t.operatingResult, (i) => amount(years[i].income_statement.operating_result)),
+    row(t.resultBeforeTax, (i) => amount(years[i].income_statement.result_before_tax)),
+    row(t.netIncome, (i) => amount(years[i].income_statement.net_income)),
+    row(t.netIncomeGrowth, (i) => formatGrowth(metrics[i].net_income_growth, lang)),
+    row(t.totalAssets, (i) => amount(years[i].balance_sheet.total_assets)),
+    row(t.equity, (i) => amount(years[i].balance_sheet.equity)),
+    row(t.cash, (i) => amount(years[i].balance_sheet.cash_and_bank)),
+    row(t.shortTermLiabilities, (i) => amount(years[i].balance_sheet.short_term_liabilities)),
+    row(t.longTermLiabilities, (i) => amount(years[i].balance_sheet.long_term_liabilities)),
+    row(t.debtToEquity, (i) => formatMultiple(metrics[i].debt_to_equity, lang)),
+    row(t.shortTermShare, (i) => percent(metrics[i].short_term_liability_share)),
+    row(t.equityRatio, (i) => percent(years[i].ratios.equity_ratio)),
+    row(t.quickRatio, (i) => percent(years[i].ratios.quick_ratio)),
+    row(t.profitMargin, (i) => percent(years[i].ratios.profit_margin)),
+    row(t.returnOnEquity, (i) => percent(years[i].ratios.return_on_equity)),
+    row(t.returnOnAssets, (i) => percent(years[i].ratios.return_on_assets)),
+    row(t.employees, (i) => amount(years[i].employees)),
+    row(t.cashRunway, (i) => formatRunway(metrics[i].cash_runway_months, years[i].income_statement.net_income, lang)),
     "",
-    "### Balance Sheet",
-    `- **Total Assets:** ${formatCurrency(bal.total_assets, currency)}`,
-    `- **Equity:** ${formatCurrency(bal.equity, currency)}`,
-    `- **Cash:** ${formatCurrency(bal.cash_and_bank, currency)}`,
+  ];
+}
+
+/** Format the multi-year summary */
+function formatTrendSummary(trends: FinancialTrends, lang: Lang): string[] {
+  const t = messages(lang).financials;
+  const period = trends.cagr_period_years;
+  if (period === null) return [];
+  const latest = trends.years[trends.years.length - 1];
+  return [
+    `## ${t.multiYearSummary}`,
+    `- **${t.revenueCagr(String(period))}:** ${formatGrowth(trends.revenue_cagr, lang)}`,
+    `- **${t.netIncomeCagr(String(period))}:** ${formatGrowth(trends.net_income_cagr, lang)}`,
+    `- **${t.latestDebtToEquity}:** ${formatMultiple(latest.debt_to_equity, lang)}`,
+    `- **${t.latestShortTermShare}:** ${formatPercent(latest.short_term_liability_share, lang)}`,
     "",
-    "### Key Ratios",
-    `- **Equity Ratio:** ${formatPercent(rat.equity_ratio)}`,
-    `- **Profit Margin:** ${formatPercent(rat.profit_margin)}`,
-    `- **Return on Equity:** ${formatPercent(rat.return_on_equity)}`,
   ];
-  if (year.employees !== undefined && year.employees !== null) {
-    lines.push(`- **Employees:** ${String(year.employees)}`);
-  }
-  lines.push("");
-  return lines;
 }
 
 /** Format financial data for AI-friendly output */
-function formatFinancialsResponse(data: FinancialsData, analysis?: AnalysisData): string {
-  const lines: string[] = [`# Financial Data for ${data.orgnr}`, ""];
-  for (const year of data.years) lines.push(...formatYear(year, data.currency));
+export function formatFinancialsResponse(
+  data: FinancialsData,
+  lang: Lang,
+  analysis?: AnalysisData,
+  shownYears = data.years.length
+): string {
+  const { financials: t, truncation } = messages(lang);
+  const lines: string[] = [`# ${t.title(data.orgnr)}`, ""];
+  if (data.years.length === 0) {
+    lines.push(t.noYears, "");
+  } else {
+    // The summary always covers every year, even when the table is shortened
+    const trends = computeTrends(data);
+    if (shownYears < data.years.length) {
+      lines.push(truncation.olderYears(formatNumber(data.years.length - shownYears, lang)), "");
+    }
+    if (shownYears > 0) lines.push(...formatTrendTable(data, trends, lang, shownYears));
+    lines.push(...formatTrendSummary(trends, lang));
+  }
   if (analysis) {
     lines.push(
-      "## AI Analysis",
-      `**Fiscal Year:** ${analysis.fiscal_year_end}`,
-      `**Rating:** ${analysis.rating}`,
-      `**Risk Score:** ${String(analysis.risk_score)}/100`,
+      `## ${t.aiAnalysis}`,
+      `**${t.fiscalYear}:** ${formatDate(analysis.fiscal_year_end, lang)}`,
+      `**${t.rating}:** ${analysis.rating}`,
+      `**${t.riskScore}:** ${String(analysis.risk_score)}/100`,
       "",
-      "### Summary",
+      `### ${t.summary}`,
       analysis.summary,
       "",
-      "### Risk Factors",
+      `### ${t.riskFactors}`,
     );
     for (const rf of analysis.risk_factors) {
-      const severity = rf.severity.toUpperCase();
-      lines.push(`- **[${severity}] ${rf.category}:** ${rf.description_en}`);
+      const severity = riskLevel(rf.severity, lang).toUpperCase();
+      const description = lang === "sv" ? rf.description_sv || rf.description_en : rf.description_en;
+      lines.push(`- **[${severity}] ${rf.category}:** ${description}`);
     }
   }
   return lines.join("\n");
 }
 
+/** Financials and analysis, shortened by dropping the oldest fiscal years */
+function financialsView(financials: FinancialsData, lang: Lang, analysis?: AnalysisData): OutputView {
+  const trends = computeTrends(financials);
+  return {
+    items: financials.years.length,
+    markdown: (shown) => formatFinancialsResponse(financials, lang, analysis, shown),
+    json: (shown) => {
+      const omitted = financials.years.length - shown;
+      if (omitted <= 0) return { financials, trends, analysis };
+      return {
+        financials: { ...financials, years: keepLast(chronologicalYears(financials), shown) },
+        trends: { ...trends, years: keepLast(trends.years, shown) },
+        analysis,
+        truncated: { field: "years", omitted },
+      };
+    },
+  };
+}
+
 /** Format health score factors */
-function formatHealthFactors(factors: HealthScore["factors"]): string[] {
-  const lines = ["### Score Factors"];
-  lines.push(`- **Active:** ${factors.active ? "Yes" : "No"}`);
-  lines.push(`- **F-skatt registered:** ${factors.f_skatt ? "Yes" : "No"}`);
-  lines.push(`- **Company age:** ${factors.age_years.toFixed(1)} years`);
-  lines.push(`- **Liquidation risk:** ${factors.liquidation_risk ? "Yes" : "No"}`);
+function formatHealthFactors(factors: HealthScore["factors"], lang: Lang): string[] {
+  const { common, assessment: t } = messages(lang);
+  const yesNo = (value: boolean): string => (value ? common.yes : common.no);
+  const lines = [`### ${t.scoreFactors}`];
+  lines.push(`- **${t.active}:** ${yesNo(factors.active)}`);
+  lines.push(`- **${t.fSkatt}:** ${yesNo(factors.f_skatt)}`);
+  lines.push(`- **${t.companyAge}:** ${t.years(formatNumber(factors.age_years, lang, 1))}`);
+  lines.push(`- **${t.liquidationRisk}:** ${yesNo(factors.liquidation_risk)}`);
   return lines;
 }
 
 /** Format industry benchmark */
-function formatBenchmark(bm: HealthScore["industry_benchmark"]): string[] {
+function formatBenchmark(bm: HealthScore["industry_benchmark"], lang: Lang): string[] {
   if (!bm) return [];
+  const t = messages(lang).assessment;
   return [
-    "", "### Industry Benchmark",
-    `- **Industry:** ${bm.sni_description} (${bm.sni_code})`,
-    `- **Industry average score:** ${String(bm.average_score)}`,
-    `- **Percentile:** ${String(bm.percentile)}%`,
-    `- **Sample size:** ${bm.sample_size.toLocaleString()} companies`,
+    "", `### ${t.industryBenchmark}`,
+    `- **${t.industry}:** ${bm.sni_description} (${bm.sni_code})`,
+    `- **${t.industryAverage}:** ${formatNumber(bm.average_score, lang)}`,
+    `- **${t.percentile}:** ${formatPercent(bm.percentile, lang)}`,
+    `- **${t.sampleSize}:** ${t.companies(formatNumber(bm.sample_size, lang))}`,
   ];
 }
 
 /** Format financial flags */
-function formatFinancialFlags(flags: FinancialHealth["financial_flags"]): string[] {
-  const lines: string[] = ["### Financial Flags"];
+function formatFinancialFlags(flags: FinancialHealth["financial_flags"], lang: Lang): string[] {
+  const t = messages(lang).assessment;
+  const lines: string[] = [`### ${t.financialFlags}`];
   if (flags.public_defaults_count > 0) {
-    lines.push(`- Public defaults: ${String(flags.public_defaults_count)} (${formatCurrency(flags.public_defaults_amount)})`);
+    lines.push(`- ${t.publicDefaults}: ${formatNumber(flags.public_defaults_count, lang)} (${formatCurrency(flags.public_defaults_amount, lang)})`);
   }
   if (flags.petitions_count > 0) {
-    lines.push(`- Petitions: ${String(flags.petitions_count)} (${formatCurrency(flags.petitions_amount)})`);
+    lines.push(`- ${t.petitions}: ${formatNumber(flags.petitions_count, lang)} (${formatCurrency(flags.petitions_amount, lang)})`);
   }
-  if (flags.has_negative_equity) lines.push("- Has negative equity");
-  if (flags.has_liquidation) lines.push("- Ongoing liquidation");
-  if (flags.has_fi_warning) lines.push("- Finansinspektionen warning");
-  if (flags.has_qualified_audit) lines.push("- Qualified audit opinion");
+  if (flags.has_negative_equity) lines.push(`- ${t.negativeEquity}`);
+  if (flags.has_liquidation) lines.push(`- ${t.liquidation}`);
+  if (flags.has_fi_warning) lines.push(`- ${t.fiWarning}`);
+  if (flags.has_qualified_audit) lines.push(`- ${t.qualifiedAudit}`);
   const noFlags = flags.public_defaults_count === 0 && flags.petitions_count === 0 && !flags.has_negative_equity;
   if (noFlags && !flags.has_liquidation && !flags.has_fi_warning && !flags.has_qualified_audit) {
-    lines.push("- No significant flags found");
+    lines.push(`- ${t.noFlags}`);
   }
   return lines;
 }
 
 /** Format health + financial health for AI-friendly output */
-function formatAssessmentResponse(hs: HealthScore, fh?: FinancialHealth): string {
+function formatAssessmentResponse(hs: HealthScore, lang: Lang, fh?: FinancialHealth): string {
+  const { company, assessment: t } = messages(lang);
   const lines = [
-    `# Financial Assessment for ${hs.orgnr}`, "", "## Health Score",
-    `**Overall Score:** ${String(hs.score)}/100`, "",
-    ...formatHealthFactors(hs.factors),
-    ...formatBenchmark(hs.industry_benchmark),
+    `# ${t.title(hs.orgnr)}`, "", `## ${t.healthScore}`,
+    `**${t.overallScore}:** ${String(hs.score)}/100`, "",
+    ...formatHealthFactors(hs.factors, lang),
+    ...formatBenchmark(hs.industry_benchmark, lang),
   ];
   if (fh) {
-    lines.push("", "## Financial Health", `**Stability Grade:** ${fh.stability_grade}`);
-    lines.push(`**Volatility Index:** ${String(fh.volatility_index)}/100`);
-    lines.push("", "### Component Scores");
-    lines.push(`- Finance Score: ${String(fh.finance_score)}`);
-    lines.push(`- History Score: ${String(fh.history_score)}`);
-    lines.push(`- Ability to Pay: ${String(fh.ability_to_pay_score)}`);
-    lines.push(`- Ownership: ${String(fh.ownership_score)}`);
-    lines.push("", ...formatFinancialFlags(fh.financial_flags));
+    lines.push("", `## ${company.financialHealth}`, `**${company.stabilityGrade}:** ${fh.stability_grade}`);
+    lines.push(`**${company.volatilityIndex}:** ${String(fh.volatility_index)}/100`);
+    lines.push("", `### ${t.componentScores}`);
+    lines.push(`- ${t.financeScore}: ${String(fh.finance_score)}`);
+    lines.push(`- ${t.historyScore}: ${String(fh.history_score)}`);
+    lines.push(`- ${t.abilityToPay}: ${String(fh.ability_to_pay_score)}`);
+    lines.push(`- ${t.ownership}: ${String(fh.ownership_score)}`);
+    lines.push("", ...formatFinancialFlags(fh.financial_flags, lang));
   }
   return lines.join("\n");
 }
 
+/**
+ * List annual reports, paging internally when max_results is set. The
+ * returned next_cursor is a continuation token for get_annual_reports.
+ */
+async function runReportsListing(params: GetReportsInput, context: RequestContext): Promise<ReportsList & { next_cursor?: string }> {
+  const start: PagePosition = params.cursor ? decodeCursor(params.cursor) : { offset: params.offset };
+  let last: ReportsList | undefined;
+  const { items, next } = await collectPages(start, params.max_results ?? params.limit, params.max_results ? 100 : params.limit, async (position, limit) => {
+    last = await getReports(params.orgnr, { limit, offset: position.offset }, context);
+    const { offset, returned, has_more } = last.pagination;
+    return { items: last.reports, next: has_more ? { offset: offset + returned } : undefined };
+  });
+  if (!last) throw new Error("Reports listing returned no pages");
+  return {
+    ...last,
+    reports: items,
+    pagination: { ...last.pagination, offset: start.offset ?? 0, returned: items.length, has_more: next !== undefined },
+    next_cursor: next ? encodeCursor(next) : undefined,
+  };
+}
+
 /** Format reports list for AI-friendly output */
-function formatReportsResponse(data: ReportsList): string {
+export function formatReportsResponse(
+  data: ReportsList & { next_cursor?: string },
+  lang: Lang,
+  shown = data.reports.length
+): string {
+  const { common, reports: t, truncation } = messages(lang);
   const lines = [
-    `# Annual Reports for ${data.name}`,
-    `**Org Nr:** ${data.orgnr}`,
+    `# ${t.title(data.name)}`,
+    `**${common.orgnr}:** ${data.orgnr}`,
     "",
-    `Total reports: **${String(data.total)}**`,
+    t.total(formatNumber(data.total, lang)),
     "",
   ];
   if (data.reports.length === 0) {
-    lines.push("*No digital annual reports available.*");
+    lines.push(t.none);
     return lines.join("\n");
   }
-  lines.push("| Year | Period End | Format | Audited | Status |");
+  lines.push(`| ${common.year} | ${t.periodEnd} | ${t.format} | ${t.audited} | ${common.status} |`);
   lines.push("|------|------------|--------|---------|--------|");
-  for (const r of data.reports) {
-    const audited = r.has_auditor ? "Yes" : "No";
-    lines.push(`| ${String(r.year)} | ${r.period_end} | ${r.format} | ${audited} | ${r.status} |`);
+  for (const r of data.reports.slice(0, shown)) {
+    const audited = r.has_auditor ? common.yes : common.no;
+    lines.push(`| ${String(r.year)} | ${formatDate(r.period_end, lang)} | ${r.format} | ${audited} | ${r.status} |`);
+  }
+  if (shown < data.reports.length) {
+    lines.push("", truncation.olderItems(formatNumber(data.reports.length - shown, lang)));
   }
   if (data.pagination.has_more) {
-    lines.push("", `*Showing ${String(data.pagination.returned)} of ${String(data.pagination.total)} reports*`);
+    lines.push("", t.showing(formatNumber(data.pagination.returned, lang), formatNumber(data.pagination.total, lang)));
+    if (data.next_cursor) lines.push(common.nextPage(data.next_cursor));
   }
   return lines.join("\n");
 }
 
+/** Reports listing, shortened by dropping the oldest reports (listed last) */
+function reportsView(data: ReportsList & { next_cursor?: string }, lang: Lang): OutputView {
+  return {
+    items: data.reports.length,
+    markdown: (shown) => formatReportsResponse(data, lang, shown),
+    json: (shown) => truncatedJson(data, "reports", data.reports.slice(0, shown), data.reports.length - shown),
+  };
+}
+
 /** Handle API errors */
-function handleApiError(error: unknown): string {
+function handleApiError(error: unknown, lang: Lang): string {
+  const t = messages(lang);
   if (error instanceof ApiError) {
-    if (error.statusCode === 404) return `No financial data found. Company may not have filed digital reports.`;
-    if (error.statusCode === 403) return `Access denied: ${error.message}`;
-    return `API error: ${error.message}`;
+    if (error.statusCode === 404) return t.financials.notFound;
+    if (error.statusCode === 403) return t.common.accessDenied(error.message);
+    return t.common.apiError(error.message);
   }
-  return `Unexpected error: ${error instanceof Error ? error.message : String(error)}`;
+  return t.common.unexpectedError(error instanceof Error ? error.message : String(error));
 }
 
 /** Register financial tools with the MCP server */
 export function registerFinancialTools(server: McpServer): void {
   server.registerTool("analyze_company_financials", {
-    description: "Get detailed financial data from annual reports with optional AI analysis.",
+    description: "Get detailed financial data from annual reports with optional AI analysis. Requires the pro plan.",
     inputSchema: AnalyzeFinancialsInputSchema.shape,
-  }, async (params) => {
+    outputSchema: AnalyzeFinancialsOutputSchema.shape,
+  }, instrumented("analyze_company_financials", async (params, extra) => {
+    const denied = checkTierAccess("analyze_company_financials", params, extra.authInfo);
+    if (denied) return denied;
+    const context = requestContext(extra);
     try {
-      const financials = await getFinancials(params.orgnr);
+      const financials = await getFinancials(params.orgnr, context);
       let analysis: AnalysisData | undefined;
       if (params.include_analysis) {
-        try { analysis = await getAnalysis(params.orgnr, params.lang); } catch { /* may not be available */ }
+        try { analysis = await getAnalysis(params.orgnr, params.lang, context); } catch { /* may not be available */ }
       }
-      return { content: [{ type: "text", text: formatFinancialsResponse(financials, analysis) }] };
+      return {
+        content: [{ type: "text", text: renderOutput(params, financialsView(financials, params.lang, analysis)) }],
+        structuredContent: { financials, trends: computeTrends(financials), analysis },
+      };
     } catch (error) {
-      return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }], isError: true };
     }
-  });
+  }));
 
   server.registerTool("assess_financial_health", {
     description: "Get financial health assessment including health score, stability grade, and financial flags.",
     inputSchema: AssessFinancialHealthInputSchema.shape,
-  }, async (params) => {
+    outputSchema: AssessFinancialHealthOutputSchema.shape,
+  }, instrumented("assess_financial_health", async (params, extra) => {
+    const context = requestContext(extra);
     try {
-      const [hs, fh] = await Promise.all([getHealthScore(params.orgnr), getFinancialHealth(params.orgnr).catch(() => undefined)]);
-      return { content: [{ type: "text", text: formatAssessmentResponse(hs, fh) }] };
+      const [hs, fh] = await Promise.all([getHealthScore(params.orgnr, context), getFinancialHealth(params.orgnr, context).catch(() => undefined)]);
+      return {
+        content: [{ type: "text", text: renderOutput(params, fixedView(formatAssessmentResponse(hs, params.lang, fh), { health_score: hs, financial_health: fh })) }],
+        structuredContent: { health_score: hs, financial_health: fh },
+      };
     } catch (error) {
-      return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }], isError: true };
     }
-  });
+  }));
 
   server.registerTool("get_annual_reports", {
-    description: "List available annual reports for a company.",
+    description: "List available annual reports for a company. Use cursor to page through reports, or max_results to fetch several pages at once.",
     inputSchema: GetReportsInputSchema.shape,
-  }, async (params) => {
+    outputSchema: ReportsListSchema.shape,
+  }, instrumented("get_annual_reports", async (params, extra) => {
     try {
-      const data = await getReports(params.orgnr);
-      return { content: [{ type: "text", text: formatReportsResponse(data) }] };
+      const data = await runReportsListing(params, requestContext(extra));
+      return { content: [{ type: "text", text: renderOutput(params, reportsView(data, params.lang)) }], structuredContent: { ...data } };
     } catch (error) {
-      return { content: [{ type: "text", text: handleApiError(error) }], isError: true };
+      return { content: [{ type: "text", text: handleApiError(error, params.lang) }], isError: true };
     }
-  });
+  }));
 }
@@ -0,0 +1,148 @@
+/**
+ * SNI industry code MCP tools, answered from the bundled catalogue
+ */
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { z } from "zod";
+import type { CallToolResult } from "@modelcontextprotocol/sdk/types.js";
+import { FindSniCodeInputSchema, BrowseSniCodesInputSchema } from "../schemas.js";
+import { FindSniCodeOutputSchema, BrowseSniCodesOutputSchema } from "../output-schemas.js";
+import { searchSni, sniEntry, sniChildren, sniPath, sniName, isSniCode, type SniEntry } from "../sni-catalogue.js";
+import { messages, formatNumber, type Lang } from "../i18n.js";
+import { renderOutput, truncatedJson, type OutputView } from "../response-format.js";
+import { instrumented } from "../instrumentation.js";
+
+type FindSniCodeOutput = z.infer<typeof FindSniCodeOutputSchema>;
+type BrowseSniCodesOutput = z.infer<typeof BrowseSniCodesOutputSchema>;
+
+/** An entry as reported in structured output */
+function entryOutput(entry: SniEntry, lang: Lang): BrowseSniCodesOutput["children"][0] {
+  return { code: entry.code, level: entry.level, name: sniName(entry, lang), parent: entry.parent };
+}
+
+/** Format find_sni_code results as a table */
+function formatFindResponse(result: FindSniCodeOutput, lang: Lang, shown = result.codes.length): string {
+  const { common, sni: t, truncation } = messages(lang);
+  const lines = [`# ${t.searchTitle(result.query)}`];
+  if (result.codes.length === 0) {
+    lines.push("", t.noMatch(result.query));
+    return lines.join("\n");
+  }
+
+  lines.push(
+    `**${t.matches}:** ${formatNumber(result.total, lang)}`,
+    "",
+    `| ${t.code} | ${t.level} | ${common.name} | ${t.path} |`,
+    "|-----|-------|------|-----------|"
+  );
+  for (const code of result.codes.slice(0, shown)) {
+    lines.push(`| ${code.code} | ${t.levels[code.level]} | ${code.name} | ${code.path.join(" › ")} |`);
+  }
+  if (shown < result.codes.length) {
+    lines.push("", truncation.moreItems(formatNumber(result.codes.length - shown, lang)));
+  }
+  return lines.join("\n");
+}
+
+/** Search results, shortened by dropping the lowest ranked codes */
+function findView(result: FindSniCodeOutput, lang: Lang): OutputView {
+  const { codes } = result;
+  return {
+    items: codes.length,
+    markdown: (shown) => formatFindResponse(result, lang, shown),
+    json: (shown) => truncatedJson(result, "codes", codes.slice(0, shown), codes.length - shown),
+  };
+}
+
+/** Format a browsed code with its parents and children */
+function formatBrowseResponse(result: BrowseSniCodesOutput, lang: Lang, shown = result.children.length): string {
+  const { common, sni: t, truncation } = messages(lang);
+  const { entry, path, children } = result;
+  const lines: string[] = [];
+  if (entry) {
+    lines.push(`# ${entry.code}: ${entry.name}`, `**${t.level}:** ${t.levels[entry.level]}`);
+    if (path.length > 0) {
+      lines.push("", `## ${t.path}`, ...path.map((parent) => `- ${parent.code}: ${parent.name}`));
+    }
+    lines.push("", `## ${t.children}`);
+  } else {
+    lines.push(`# ${t.sectionsTitle}`);
+  }
+
+  if (children.length === 0) {
+    lines.push(t.noChildren);
+    return lines.join("\n");
+  }
+  lines.push(`| ${t.code} | ${common.name} |`, "|-----|------|");
+  for (const child of children.slice(0, shown)) {
+    lines.push(`| ${child.code} | ${child.name} |`);
+  }
+  if (shown < children.length) {
+    lines.push("", truncation.moreItems(formatNumber(children.length - shown, lang)));
+  }
+  return lines.join("\n");
+}
+
+/** Browse result, shortened by dropping the last children */
+function browseView(result: BrowseSniCodesOutput, lang: Lang): OutputView {
+  const { children } = result;
+  return {
+    items: children.length,
+    markdown: (shown) => formatBrowseResponse(result, lang, shown),
+    json: (shown) => truncatedJson(result, "children", children.slice(0, shown), children.length - shown),
+  };
+}
+
+/**
+ * Note for an SNI code passed to another tool that is not in the bundled
+ * catalogue. The code is still sent to BolagsAPI, which may know codes the
+ * catalogue lacks; the note is a separate content item so JSON output stays
+ * parseable.
+ */
+export function sniCodeNotes(code: string | undefined, lang: Lang): CallToolResult["content"] {
+  if (code === undefined || isSniCode(code)) return [];
+  return [{ type: "text", text: messages(lang).sni.notInCatalogue(code) }];
+}
+
+/** Register SNI code tools with the MCP server */
+export function registerSniTools(server: McpServer): void {
+  server.registerTool("find_sni_code", {
+    description: "Find SNI 2007 industry codes from a description in Swedish or English, e.g. 'restaurants' gives 56100. Use it to get the sni filter for search_companies or the sni_code for get_industry_stats. Works offline from a bundled catalogue.",
+    inputSchema: FindSniCodeInputSchema.shape,
+    outputSchema: FindSniCodeOutputSchema.shape,
+  }, instrumented("find_sni_code", async (params) => {
+    const matches = searchSni(params.query);
+    const result: FindSniCodeOutput = {
+      query: params.query,
+      total: matches.length,
+      codes: matches.slice(0, params.limit).map((entry) => ({
+        ...entryOutput(entry, params.lang),
+        path: sniPath(entry).map((e) => e.code),
+      })),
+    };
+    return {
+      content: [{ type: "text", text: renderOutput(params, findView(result, params.lang)) }],
+      structuredContent: result,
+    };
+  }));
+
+  server.registerTool("browse_sni_codes", {
+    description: "Browse the SNI 2007 hierarchy (section, division, group, class, detailed code): show a code with its parent codes and subcodes, or list the sections when no code is given.",
+    inputSchema: BrowseSniCodesInputSchema.shape,
+    outputSchema: BrowseSniCodesOutputSchema.shape,
+  }, instrumented("browse_sni_codes", async (params) => {
+    const entry = params.code === undefined ? undefined : sniEntry(params.code);
+    if (params.code !== undefined && !entry) {
+      return { content: [{ type: "text", text: messages(params.lang).sni.unknownCode(params.code) }], isError: true };
+    }
+
+    const result: BrowseSniCodesOutput = {
+      entry: entry && entryOutput(entry, params.lang),
+      path: entry ? sniPath(entry).slice(0, -1).map((e) => entryOutput(e, params.lang)) : [],
+      children: sniChildren(entry?.code).map((e) => entryOutput(e, params.lang)),
+    };
+    return {
+      content: [{ type: "text", text: renderOutput(params, browseView(result, params.lang)) }],
+      structuredContent: result,
+    };
+  }));
+}
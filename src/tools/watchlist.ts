@@ -0,0 +1,261 @@
+/**
+ * Watchlist MCP tools
+ */
+import type { McpServer } from "@modelcontextprotocol/sdk/server/mcp.js";
+import type { RequestHandlerExtra } from "@modelcontextprotocol/sdk/shared/protocol.js";
+import type { ServerRequest, ServerNotification } from "@modelcontextprotocol/sdk/types.js";
+import type { z } from "zod";
+import { WatchlistOrgnrsInputSchema, CheckWatchlistInputSchema } from "../schemas.js";
+import { WatchlistUpdateOutputSchema, CheckWatchlistOutputSchema } from "../output-schemas.js";
+import { checkTierAccess } from "../tiers.js";
+import { mapWithConcurrency } from "../concurrency.js";
+import { sendProgress } from "../progress.js";
+import { recordScreening } from "../audit.js";
+import { callerId } from "../auth.js";
+import { messages, formatNumber, type Lang } from "../i18n.js";
+import { renderOutput, fixedView, truncatedJson, type OutputView } from "../response-format.js";
+import { instrumented } from "../instrumentation.js";
+import {
+  watchlistStore,
+  buildSnapshot,
+  mergeSnapshot,
+  diffSnapshots,
+  type WatchEntry,
+  type CompanySnapshot,
+} from "../watchlist.js";
+import {
+  getCompany,
+  getTimeline,
+  getCompanyScreening,
+  requestContext,
+  ApiError,
+  type CompanyData,
+  type TimelineData,
+  type CompanyScreening,
+  type RequestContext,
+} from "../api-client.js";
+
+type CheckedCompany = z.infer<typeof CheckWatchlistOutputSchema>["companies"][0];
+
+/** Maximum concurrent companies re-fetched by one check */
+const CHECK_CONCURRENCY = 5;
+
+/** Watchlist owner for the caller; stdio mode has a single local list */
+function watchlistOwner(extra: RequestHandlerExtra<ServerRequest, ServerNotification>): string {
+  return callerId(extra.authInfo);
+}
+
+/** Short error description for one part of a check */
+function partError(part: string, error: unknown, lang: Lang): string {
+  if (error instanceof ApiError) {
+    if (error.statusCode === 404) return `${part}: ${messages(lang).parts.notFound}`;
+    return `${part}: ${error.message}`;
+  }
+  return `${part}: ${error instanceof Error ? error.message : String(error)}`;
+}
+
+/** Result of re-checking one watched company */
+interface CheckOutcome {
+  report: CheckedCompany;
+  snapshot: CompanySnapshot;
+  baseline: boolean;
+}
+
+/**
+ * Re-fetch one company and diff it against its stored snapshot. Parts that
+ * fail keep their previous snapshot values and are reported as errors.
+ */
+async function checkEntry(
+  entry: WatchEntry,
+  includeScreening: boolean,
+  lang: Lang,
+  context: RequestContext,
+  clientId: string
+): Promise<CheckOutcome> {
+  const parts = messages(lang).parts;
+  const errors: string[] = [];
+  const fetchPart = async <T>(part: string, fetch: () => Promise<T>): Promise<T | undefined> => {
+    try {
+      return await fetch();
+    } catch (error) {
+      errors.push(partError(part, error, lang));
+      return undefined;
+    }
+  };
+
+  const [company, timeline, screening] = await Promise.all([
+    fetchPart<CompanyData>(parts.company, () => getCompany(entry.orgnr, {}, context)),
+    fetchPart<TimelineData>(parts.timeline, () => getTimeline(entry.orgnr, undefined, context)),
+    includeScreening
+      ? fetchPart<CompanyScreening>(parts.screening, async () => {
+          const data = await getCompanyScreening(entry.orgnr, context);
+          await recordScreening(data, { clientId, requestId: context.requestId });
+          return data;
+        })
+      : Promise.resolve(undefined),
+  ]);
+
+  const fresh = buildSnapshot({ company, timeline, screening });
+  const changes = entry.snapshot ? diffSnapshots(entry.snapshot, fresh, lang, timeline?.events) : [];
+  const snapshot = mergeSnapshot(entry.snapshot, fresh);
+
+  return {
+    report: { orgnr: entry.orgnr, name: snapshot.name, changes, errors },
+    snapshot,
+    baseline: !entry.snapshot,
+  };
+}
+
+/**
+ * Check every watched company, reporting progress when the client asked for it
+ */
+async function runWatchlistCheck(
+  entries: WatchEntry[],
+  includeScreening: boolean,
+  lang: Lang,
+  extra: RequestHandlerExtra<ServerRequest, ServerNotification>
+): Promise<CheckOutcome[]> {
+  // Cached responses up to an hour old would hide recent changes
+  const context = { ...requestContext(extra), revalidate: true };
+  let completed = 0;
+
+  return mapWithConcurrency(entries, CHECK_CONCURRENCY, async (entry) => {
+    const outcome = await checkEntry(entry, includeScreening, lang, context, callerId(extra.authInfo));
+    completed++;
+    await sendProgress(extra, completed, entries.length, messages(lang).watchlist.progress(entry.orgnr));
+    return outcome;
+  }, extra.signal);
+}
+
+/** Format a watchlist add/remove result */
+function formatUpdateResponse(action: "added" | "removed", changed: string[], unchanged: string[], watched: number, lang: Lang): string {
+  const { common, watchlist: t } = messages(lang);
+  const lines = [`# ${t.updated}`, `**${t[action]}:** ${changed.length > 0 ? changed.join(", ") : common.none}`];
+  if (unchanged.length > 0) {
+    const reason = action === "added" ? t.alreadyWatched : t.notWatched;
+    lines.push(`**${reason}:** ${unchanged.join(", ")}`);
+  }
+  lines.push(`**${t.watched}:** ${formatNumber(watched, lang)}`);
+  return lines.join("\n");
+}
+
+/** Format a watchlist check result */
+function formatCheckResponse(
+  checked: number,
+  baseline: string[],
+  companies: CheckedCompany[],
+  lang: Lang,
+  shown = companies.length
+): string {
+  const { watchlist: t, truncation } = messages(lang);
+  const changed = companies.filter((c) => c.changes.length > 0);
+  const lines = [
+    `# ${t.checkTitle}`,
+    `**${t.checked}:** ${formatNumber(checked, lang)}`,
+    `**${t.withChanges}:** ${formatNumber(changed.length, lang)}`,
+  ];
+  if (baseline.length > 0) {
+    lines.push(`**${t.baseline}:** ${formatNumber(baseline.length, lang)}`);
+  }
+
+  for (const c of companies.slice(0, shown)) {
+    lines.push("", `## ${c.name ?? c.orgnr} (${c.orgnr})`);
+    lines.push(...c.changes.map((change) => `- ${change.description}`));
+    lines.push(...c.errors.map((error) => `- ${t.couldNotCheck(error)}`));
+  }
+
+  if (shown < companies.length) {
+    lines.push("", truncation.moreItems(formatNumber(companies.length - shown, lang)));
+  }
+  if (companies.length === 0) {
+    lines.push("", t.noChanges);
+  }
+  return lines.join("\n");
+}
+
+/** Check result, shortened by dropping the last reported companies */
+function checkView(result: z.infer<typeof CheckWatchlistOutputSchema>, lang: Lang): OutputView {
+  const { companies } = result;
+  return {
+    items: companies.length,
+    markdown: (shown) => formatCheckResponse(result.checked, result.baseline, companies, lang, shown),
+    json: (shown) => truncatedJson(result, "companies", companies.slice(0, shown), companies.length - shown),
+  };
+}
+
+/** Handle storage and API errors */
+function handleWatchlistError(error: unknown, lang: Lang): string {
+  const t = messages(lang);
+  if (error instanceof ApiError) return t.common.apiError(error.message);
+  return t.watchlist.error(error instanceof Error ? error.message : String(error));
+}
+
+/** Register watchlist tools with the MCP server */
+export function registerWatchlistTools(server: McpServer): void {
+  server.registerTool("add_to_watchlist", {
+    description: "Add Swedish companies to your watchlist so check_watchlist can report changes to them.",
+    inputSchema: WatchlistOrgnrsInputSchema.shape,
+    outputSchema: WatchlistUpdateOutputSchema.shape,
+  }, instrumented("add_to_watchlist", async (params, extra) => {
+    try {
+      const owner = watchlistOwner(extra);
+      const added = await watchlistStore.add(owner, params.orgnrs);
+      const unchanged = params.orgnrs.filter((orgnr) => !added.includes(orgnr));
+      const watched = (await watchlistStore.list(owner)).length;
+      const result = { changed: added, unchanged, watched };
+      return {
+        content: [{ type: "text", text: renderOutput(params, fixedView(formatUpdateResponse("added", added, unchanged, watched, params.lang), result)) }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      return { content: [{ type: "text", text: handleWatchlistError(error, params.lang) }], isError: true };
+    }
+  }));
+
+  server.registerTool("remove_from_watchlist", {
+    description: "Remove companies from your watchlist.",
+    inputSchema: WatchlistOrgnrsInputSchema.shape,
+    outputSchema: WatchlistUpdateOutputSchema.shape,
+  }, instrumented("remove_from_watchlist", async (params, extra) => {
+    try {
+      const owner = watchlistOwner(extra);
+      const removed = await watchlistStore.remove(owner, params.orgnrs);
+      const unchanged = params.orgnrs.filter((orgnr) => !removed.includes(orgnr));
+      const watched = (await watchlistStore.list(owner)).length;
+      const result = { changed: removed, unchanged, watched };
+      return {
+        content: [{ type: "text", text: renderOutput(params, fixedView(formatUpdateResponse("removed", removed, unchanged, watched, params.lang), result)) }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      return { content: [{ type: "text", text: handleWatchlistError(error, params.lang) }], isError: true };
+    }
+  }));
+
+  server.registerTool("check_watchlist", {
+    description: "Re-check every company on your watchlist and report material changes since the last check: status changes, new timeline events, new financial flags, composite score drops and screening risk level changes.",
+    inputSchema: CheckWatchlistInputSchema.shape,
+    outputSchema: CheckWatchlistOutputSchema.shape,
+  }, instrumented("check_watchlist", async (params, extra) => {
+    const denied = checkTierAccess("check_watchlist", params, extra.authInfo);
+    if (denied) return denied;
+    try {
+      const owner = watchlistOwner(extra);
+      const entries = await watchlistStore.list(owner);
+      const outcomes = await runWatchlistCheck(entries, params.include_screening, params.lang, extra);
+      await watchlistStore.saveSnapshots(owner, outcomes.map((o) => ({ orgnr: o.report.orgnr, snapshot: o.snapshot })));
+
+      const baseline = outcomes.filter((o) => o.baseline).map((o) => o.report.orgnr);
+      const companies = outcomes
+        .map((o) => o.report)
+        .filter((c) => c.changes.length > 0 || c.errors.length > 0);
+      const result = { checked: entries.length, checked_at: new Date().toISOString(), baseline, companies };
+      return {
+        content: [{ type: "text", text: renderOutput(params, checkView(result, params.lang)) }],
+        structuredContent: result,
+      };
+    } catch (error) {
+      return { content: [{ type: "text", text: handleWatchlistError(error, params.lang) }], isError: true };
+    }
+  }));
+}
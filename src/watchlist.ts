@@ -0,0 +1,262 @@
+/**
+ * Locally persisted company watchlist with change detection
+ *
+ * Each client has its own list of watched organization numbers, stored with
+ * a snapshot of the material facts seen at the last check. A new snapshot is
+ * diffed against the stored one so only material changes are reported.
+ *
+ * Environment variables:
+ * - BOLAGSAPI_WATCHLIST: JSON file path (default: ~/.bolagsapi/watchlist.json)
+ */
+import { createHash } from "node:crypto";
+import { mkdir, readFile, rename, writeFile } from "node:fs/promises";
+import { homedir } from "node:os";
+import { dirname, join } from "node:path";
+import type { CompanyData, CompanyScreening, FinancialHealth, TimelineData } from "./api-types.js";
+import { messages, formatNumber, formatDate, riskLevel, type Lang } from "./i18n.js";
+
+const DEFAULT_WATCHLIST = join(homedir(), ".bolagsapi", "watchlist.json");
+
+/** Maximum watched companies per client */
+export const MAX_WATCHLIST_SIZE = 1000;
+
+/** composite_score drop (in points) reported as material */
+export const COMPOSITE_SCORE_DROP = 5;
+
+/** Material facts about a company at one check. Parts that could not be fetched are omitted. */
+export interface CompanySnapshot {
+  name?: string;
+  status?: string;
+  /** Hashes of timeline events seen so far */
+  timeline_events?: string[];
+  financial_flags?: FinancialHealth["financial_flags"];
+  composite_score?: number;
+  stability_grade?: string;
+  screening_risk_level?: string;
+}
+
+export interface WatchEntry {
+  orgnr: string;
+  added_at: string;
+  last_checked_at?: string;
+  snapshot?: CompanySnapshot;
+}
+
+/** One material change between two snapshots */
+export interface WatchChange {
+  field: "status" | "timeline" | "financial_flags" | "composite_score" | "stability_grade" | "screening_risk_level";
+  from?: string | number | null;
+  to?: string | number | null;
+  description: string;
+}
+
+interface WatchlistFile {
+  version: 1;
+  clients: Record<string, Record<string, WatchEntry>>;
+}
+
+type TimelineEvent = TimelineData["events"][0];
+
+/** Stable identity of a timeline event */
+function eventKey(event: TimelineEvent): string {
+  return createHash("sha256").update(`${event.date}|${event.type}|${event.description}`).digest("hex").slice(0, 16);
+}
+
+/** Build a snapshot from whatever data was fetched */
+export function buildSnapshot(parts: {
+  company?: CompanyData;
+  timeline?: TimelineData;
+  screening?: CompanyScreening;
+}): CompanySnapshot {
+  const health = parts.company?.financial_health;
+  return {
+    name: parts.company?.name,
+    status: parts.company?.status,
+    timeline_events: parts.timeline?.events.map(eventKey),
+    financial_flags: health?.financial_flags,
+    composite_score: health?.composite_score,
+    stability_grade: health?.stability_grade,
+    screening_risk_level: parts.screening?.overallRiskLevel,
+  };
+}
+
+/** Keep the previous value of every part that could not be fetched this time */
+export function mergeSnapshot(previous: CompanySnapshot | undefined, next: CompanySnapshot): CompanySnapshot {
+  const merged: CompanySnapshot = { ...previous };
+  for (const [key, value] of Object.entries(next) as Array<[keyof CompanySnapshot, unknown]>) {
+    if (value !== undefined) Object.assign(merged, { [key]: value });
+  }
+  return merged;
+}
+
+/** Flags that were raised or whose counts grew */
+function flagChanges(
+  previous: FinancialHealth["financial_flags"],
+  next: FinancialHealth["financial_flags"],
+  lang: Lang
+): WatchChange[] {
+  const t = messages(lang).watchlist;
+  const changes: WatchChange[] = [];
+  for (const [flag, value] of Object.entries(next) as Array<[keyof typeof next, number | boolean]>) {
+    const before = previous[flag];
+    if (typeof value === "boolean" && value && !before) {
+      changes.push({ field: "financial_flags", from: "false", to: "true", description: t.newFlag(flag) });
+    } else if (typeof value === "number" && typeof before === "number" && value > before) {
+      changes.push({ field: "financial_flags", from: before, to: value, description: t.flagIncreased(flag, formatNumber(before, lang), formatNumber(value, lang)) });
+    }
+  }
+  return changes;
+}
+
+/**
+ * Material changes from one snapshot to the next, described in the given
+ * language. Only parts present in both snapshots are compared.
+ */
+export function diffSnapshots(
+  previous: CompanySnapshot,
+  next: CompanySnapshot,
+  lang: Lang,
+  events: TimelineEvent[] = []
+): WatchChange[] {
+  const t = messages(lang).watchlist;
+  const changes: WatchChange[] = [];
+
+  if (previous.status !== undefined && next.status !== undefined && previous.status !== next.status) {
+    changes.push({ field: "status", from: previous.status, to: next.status, description: t.statusChanged(previous.status, next.status) });
+  }
+
+  if (previous.timeline_events && next.timeline_events) {
+    const seen = new Set(previous.timeline_events);
+    for (const event of events) {
+      if (!seen.has(eventKey(event))) {
+        changes.push({ field: "timeline", to: event.date, description: t.newEvent(event.type, formatDate(event.date, lang), event.description) });
+      }
+    }
+  }
+
+  if (previous.financial_flags && next.financial_flags) {
+    changes.push(...flagChanges(previous.financial_flags, next.financial_flags, lang));
+  }
+
+  if (
+    previous.composite_score !== undefined &&
+    next.composite_score !== undefined &&
+    previous.composite_score - next.composite_score >= COMPOSITE_SCORE_DROP
+  ) {
+    changes.push({
+      field: "composite_score",
+      from: previous.composite_score,
+      to: next.composite_score,
+      description: t.scoreDropped(formatNumber(previous.composite_score, lang), formatNumber(next.composite_score, lang)),
+    });
+  }
+
+  if (previous.stability_grade !== undefined && next.stability_grade !== undefined && previous.stability_grade !== next.stability_grade) {
+    changes.push({
+      field: "stability_grade",
+      from: previous.stability_grade,
+      to: next.stability_grade,
+      description: t.gradeChanged(previous.stability_grade, next.stability_grade),
+    });
+  }
+
+  if (
+    previous.screening_risk_level !== undefined &&
+    next.screening_risk_level !== undefined &&
+    previous.screening_risk_level !== next.screening_risk_level
+  ) {
+    changes.push({
+      field: "screening_risk_level",
+      from: previous.screening_risk_level,
+      to: next.screening_risk_level,
+      description: t.riskChanged(riskLevel(previous.screening_risk_level, lang), riskLevel(next.screening_risk_level, lang)),
+    });
+  }
+
+  return changes;
+}
+
+/** Watchlists persisted as one JSON file, keyed by client */
+export class WatchlistStore {
+  // Read-modify-write cycles are chained so concurrent updates are not lost
+  private queue: Promise<unknown> = Promise.resolve();
+
+  constructor(private readonly path: string) {}
+
+  /** Entries watched by a client, in the order they were added */
+  async list(clientId: string): Promise<WatchEntry[]> {
+    const file = await this.load();
+    return Object.values(file.clients[clientId] ?? {});
+  }
+
+  /** Add orgnrs; returns those that were not already watched */
+  async add(clientId: string, orgnrs: string[]): Promise<string[]> {
+    return this.modify(clientId, (entries) => {
+      const added = [...new Set(orgnrs)].filter((orgnr) => !(orgnr in entries));
+      if (Object.keys(entries).length + added.length > MAX_WATCHLIST_SIZE) {
+        throw new Error(`A watchlist can hold at most ${String(MAX_WATCHLIST_SIZE)} companies`);
+      }
+      const now = new Date().toISOString();
+      for (const orgnr of added) entries[orgnr] = { orgnr, added_at: now };
+      return added;
+    });
+  }
+
+  /** Remove orgnrs; returns those that were watched */
+  async remove(clientId: string, orgnrs: string[]): Promise<string[]> {
+    return this.modify(clientId, (entries) => {
+      const removed = [...new Set(orgnrs)].filter((orgnr) => orgnr in entries);
+      for (const orgnr of removed) Reflect.deleteProperty(entries, orgnr);
+      return removed;
+    });
+  }
+
+  /** Store new snapshots for entries that are still watched */
+  async saveSnapshots(clientId: string, snapshots: Array<{ orgnr: string; snapshot: CompanySnapshot }>): Promise<void> {
+    await this.modify(clientId, (entries) => {
+      const now = new Date().toISOString();
+      for (const { orgnr, snapshot } of snapshots) {
+        const entry = entries[orgnr] as WatchEntry | undefined;
+        if (entry) {
+          entry.snapshot = snapshot;
+          entry.last_checked_at = now;
+        }
+      }
+    });
+  }
+
+  /** Run a change against one client's entries and persist the result */
+  private modify<T>(clientId: string, change: (entries: Record<string, WatchEntry>) => T): Promise<T> {
+    const run = async (): Promise<T> => {
+      const file = await this.load();
+      const entries = file.clients[clientId] ?? {};
+      const result = change(entries);
+      file.clients[clientId] = entries;
+      await this.save(file);
+      return result;
+    };
+    const result = this.queue.then(run);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  private async load(): Promise<WatchlistFile> {
+    try {
+      return JSON.parse(await readFile(this.path, "utf8")) as WatchlistFile;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return { version: 1, clients: {} };
+      throw error;
+    }
+  }
+
+  /** Write through a temporary file so a crash never leaves a truncated list */
+  private async save(file: WatchlistFile): Promise<void> {
+    await mkdir(dirname(this.path), { recursive: true, mode: 0o700 });
+    const temp = `${this.path}.${String(process.pid)}.tmp`;
+    await writeFile(temp, JSON.stringify(file, null, 2), { mode: 0o600 });
+    await rename(temp, this.path);
+  }
+}
+
+/** Shared store at the configured path */
+export const watchlistStore = new WatchlistStore(process.env.BOLAGSAPI_WATCHLIST ?? DEFAULT_WATCHLIST);
@@ -0,0 +1,154 @@
+/**
+ * API key verification cache and the Bearer auth middleware, against a
+ * local stub of BolagsAPI. Run after `tsc` (npm test builds first).
+ */
+import { test, mock, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+import express from "express";
+
+/** Keys the stub has been asked to verify */
+const verified = [];
+
+// Keys containing "revoked" are rejected, keys containing "outage" fail upstream
+const server = createServer((req, res) => {
+  const key = req.headers.authorization?.replace(/^Bearer /, "") ?? "";
+  verified.push(key);
+  if (key.includes("revoked")) {
+    res.writeHead(401, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "unauthorized", message: "Invalid API key" }));
+  } else if (key.includes("outage")) {
+    res.writeHead(500, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ error: "internal_error", message: "Internal server error" }));
+  } else {
+    res.writeHead(200, { "Content-Type": "application/json" });
+    res.end(JSON.stringify({ data: { customer_id: "cus_stub", tier: "pro" } }));
+  }
+});
+await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+process.env.BOLAGSAPI_URL = `http://127.0.0.1:${String(server.address().port)}/v1`;
+process.env.LOG_LEVEL = "error";
+
+const { ApiKeyVerifier, requireApiKeyAuth } = await import("../dist/auth.js");
+
+const MINUTE = 60 * 1000;
+
+/** A well-formed key with the given marker */
+function apiKey(marker) {
+  return `sk_test_${marker}${"0".repeat(32)}`;
+}
+
+/** Times the stub verified a key */
+function hits(key) {
+  return verified.filter((k) => k === key).length;
+}
+
+test("valid keys are cached for 5 minutes", async () => {
+  mock.timers.enable({ apis: ["Date"] });
+  try {
+    const verifier = new ApiKeyVerifier();
+    const key = apiKey("valid");
+    const authInfo = await verifier.verifyAccessToken(key);
+    assert.deepEqual(authInfo, { token: key, clientId: "cus_stub", scopes: ["pro"] });
+
+    mock.timers.tick(5 * MINUTE - 1);
+    await verifier.verifyAccessToken(key);
+    assert.equal(hits(key), 1);
+
+    mock.timers.tick(2);
+    await verifier.verifyAccessToken(key);
+    assert.equal(hits(key), 2);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test("rejected keys are cached for 30 seconds", async () => {
+  mock.timers.enable({ apis: ["Date"] });
+  try {
+    const verifier = new ApiKeyVerifier();
+    const key = apiKey("revoked");
+    await assert.rejects(verifier.verifyAccessToken(key), { name: "InvalidTokenError", message: "Invalid or expired API key" });
+
+    mock.timers.tick(30 * 1000 - 1);
+    await assert.rejects(verifier.verifyAccessToken(key), { name: "InvalidTokenError" });
+    assert.equal(hits(key), 1);
+
+    mock.timers.tick(2);
+    await assert.rejects(verifier.verifyAccessToken(key), { name: "InvalidTokenError" });
+    assert.equal(hits(key), 2);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test("malformed keys fail without a backend call and outages are not cached", async () => {
+  const verifier = new ApiKeyVerifier();
+  await assert.rejects(verifier.verifyAccessToken("sk_test_short"), { message: "Invalid API key format" });
+  assert.equal(hits("sk_test_short"), 0);
+
+  const key = apiKey("outage");
+  await assert.rejects(verifier.verifyAccessToken(key), { name: "AuthUpstreamError" });
+  await assert.rejects(verifier.verifyAccessToken(key), { name: "AuthUpstreamError" });
+  assert.equal(hits(key), 2);
+});
+
+test("the cache holds at most 10000 keys, evicting the oldest", async (t) => {
+  // Answered in process: ten thousand stub round trips would dominate the run
+  t.mock.method(globalThis, "fetch", async (url, init) => {
+    verified.push(init.headers.Authorization.replace(/^Bearer /, ""));
+    return Response.json({ data: { customer_id: "cus_stub", tier: "pro" } });
+  });
+  const verifier = new ApiKeyVerifier();
+  const keys = Array.from({ length: 10001 }, (_, i) => apiKey(`n${String(i)}`));
+  for (const key of keys) await verifier.verifyAccessToken(key);
+
+  await verifier.verifyAccessToken(keys.at(-1));
+  assert.equal(hits(keys.at(-1)), 1, "newest key still cached");
+  await verifier.verifyAccessToken(keys[0]);
+  assert.equal(hits(keys[0]), 2, "oldest key evicted");
+});
+
+/** Status, Retry-After and body of a request through the auth middleware */
+async function authenticate(authorization) {
+  const app = express();
+  app.use(requireApiKeyAuth(new ApiKeyVerifier()));
+  app.get("/", (req, res) => res.json({ clientId: req.auth.clientId }));
+  const listener = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => listener.once("listening", resolve));
+  try {
+    const response = await fetch(`http://127.0.0.1:${String(listener.address().port)}/`, {
+      headers: authorization ? { Authorization: authorization } : {},
+    });
+    return { status: response.status, retryAfter: response.headers.get("retry-after"), body: await response.json() };
+  } finally {
+    listener.closeAllConnections();
+    listener.close();
+  }
+}
+
+test("the middleware maps verification outcomes to HTTP responses", async () => {
+  assert.deepEqual(await authenticate(`Bearer ${apiKey("middleware")}`), {
+    status: 200, retryAfter: null, body: { clientId: "cus_stub" },
+  });
+
+  const missing = await authenticate(undefined);
+  assert.equal(missing.status, 401);
+  const rejected = await authenticate(`Bearer ${apiKey("revoked")}`);
+  assert.equal(rejected.status, 401);
+  assert.equal(rejected.body.error, "invalid_token");
+
+  assert.deepEqual(await authenticate(`Bearer ${apiKey("outage")}`), {
+    status: 503,
+    retryAfter: "5",
+    body: {
+      error: "temporarily_unavailable",
+      error_description: "API key verification is temporarily unavailable. Try again shortly.",
+    },
+  });
+});
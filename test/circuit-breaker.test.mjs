@@ -0,0 +1,53 @@
+/**
+ * Circuit breaker behaviour of the API client, against a stubbed fetch.
+ * Run after `tsc` (npm test builds first).
+ */
+import { test, mock } from "node:test";
+import assert from "node:assert/strict";
+
+process.env.BOLAGSAPI_MAX_RETRIES = "0";
+process.env.LOG_LEVEL = "error";
+
+const { getCompany, upstreamCircuitState } = await import("../dist/api-client.js");
+
+const COOLDOWN_MS = 30 * 1000;
+
+const failingFetch = async () => {
+  throw new TypeError("fetch failed");
+};
+const hangingFetch = (_url, init) =>
+  new Promise((_resolve, reject) => {
+    init.signal.addEventListener("abort", () => reject(init.signal.reason), { once: true });
+  });
+const healthyFetch = async () => new Response(JSON.stringify({ orgnr: "5566778899" }), { status: 200 });
+
+test("a cancelled half-open trial re-opens the circuit instead of leaving it stuck", async () => {
+  mock.timers.enable({ apis: ["Date"] });
+  try {
+    globalThis.fetch = failingFetch;
+    for (let i = 0; i < 5; i++) {
+      await assert.rejects(getCompany(`55667788${String(i).padStart(2, "0")}`));
+    }
+    assert.equal(upstreamCircuitState(), "open");
+
+    // The trial request after the cooldown is cancelled by its caller
+    mock.timers.tick(COOLDOWN_MS);
+    globalThis.fetch = hangingFetch;
+    const controller = new AbortController();
+    const trial = getCompany("5566778810", {}, { signal: controller.signal });
+    await new Promise((resolve) => setImmediate(resolve));
+    assert.equal(upstreamCircuitState(), "half-open");
+    controller.abort(new Error("cancelled"));
+    await assert.rejects(trial, /cancelled/);
+    assert.equal(upstreamCircuitState(), "open");
+
+    // Requests fail fast for a fresh cooldown, then a new trial is let through
+    globalThis.fetch = healthyFetch;
+    await assert.rejects(getCompany("5566778811"), /Try again in 30s/);
+    mock.timers.tick(COOLDOWN_MS);
+    assert.deepEqual(await getCompany("5566778812"), { orgnr: "5566778899" });
+    assert.equal(upstreamCircuitState(), "closed");
+  } finally {
+    mock.timers.reset();
+  }
+});
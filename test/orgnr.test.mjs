@@ -0,0 +1,65 @@
+/**
+ * Organization number validation and normalization.
+ * Run after `tsc` (npm test builds first).
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { normalizeOrgnr, luhnCheckDigit } from "../dist/orgnr.js";
+import { OrgnrSchema } from "../dist/schemas.js";
+
+test("the Luhn check digit is computed from the first nine digits", () => {
+  assert.equal(luhnCheckDigit("556677889"), 9);
+  assert.equal(luhnCheckDigit("800101123"), 1);
+});
+
+test("plain, hyphenated and spaced forms normalize to NNNNNN-NNNN", () => {
+  for (const input of ["5566778899", "556677-8899", "556677 8899", " 556677-8899 "]) {
+    assert.deepEqual(normalizeOrgnr(input), { ok: true, orgnr: "556677-8899" }, input);
+  }
+  // Personnummer of sole traders over 100 use + as separator
+  assert.deepEqual(normalizeOrgnr("800101+1231"), { ok: true, orgnr: "800101-1231" });
+});
+
+test("12-digit forms with the 16, 19 or 20 prefix drop the prefix", () => {
+  assert.deepEqual(normalizeOrgnr("165566778899"), { ok: true, orgnr: "556677-8899" });
+  assert.deepEqual(normalizeOrgnr("16556677-8899"), { ok: true, orgnr: "556677-8899" });
+  assert.deepEqual(normalizeOrgnr("19800101-1231"), { ok: true, orgnr: "800101-1231" });
+  assert.deepEqual(normalizeOrgnr("20010101-0007"), { ok: true, orgnr: "010101-0007" });
+});
+
+test("other lengths and century prefixes are rejected", () => {
+  assert.deepEqual(normalizeOrgnr("200101017"), {
+    ok: false,
+    message: "Organization number must be 10 or 12 digits, optionally with dash",
+  });
+
+  const result = normalizeOrgnr("185566778899");
+  assert.equal(result.ok, false);
+  assert.match(result.message, /must start with 16, 19 or 20 \(got 18\)/);
+});
+
+test("VAT numbers must be SE, ten digits and 01", () => {
+  assert.deepEqual(normalizeOrgnr("SE556677889901"), { ok: true, orgnr: "556677-8899" });
+  assert.deepEqual(normalizeOrgnr("se556677889901"), { ok: true, orgnr: "556677-8899" });
+  for (const input of ["SE5566778899", "SE556677889902"]) {
+    const result = normalizeOrgnr(input);
+    assert.equal(result.ok, false, input);
+    assert.match(result.message, /VAT number must be SE followed by 10 digits and 01/);
+  }
+});
+
+test("a failed Luhn check names the actual and expected check digit", () => {
+  assert.deepEqual(normalizeOrgnr("556677-8898"), {
+    ok: false,
+    message: "Invalid organization number 556677-8898: check digit 8 fails the Luhn (mod-10) check (expected 9). Check for a typo.",
+  });
+});
+
+test("OrgnrSchema transforms valid input and reports invalid input as an issue", () => {
+  assert.equal(OrgnrSchema.parse("SE556677889901"), "556677-8899");
+
+  const result = OrgnrSchema.safeParse("5566778898");
+  assert.equal(result.success, false);
+  assert.equal(result.error.issues.length, 1);
+  assert.match(result.error.issues[0].message, /check digit 8 .* \(expected 9\)/);
+});
@@ -0,0 +1,87 @@
+/**
+ * Continuation tokens and internal paging.
+ * Run after `tsc` (npm test builds first).
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { encodeCursor, decodeCursor, collectPages } from "../dist/pagination.js";
+
+/** A token wrapping any JSON value, as a client tampering with one might send */
+function token(value) {
+  return Buffer.from(JSON.stringify(value)).toString("base64url");
+}
+
+test("a continuation token decodes to the position it encodes", () => {
+  for (const position of [{ offset: 40 }, { cursor: "c2VhcmNo" }, { cursor: "c2VhcmNo", skip: 3 }]) {
+    const decoded = decodeCursor(encodeCursor(position));
+    assert.deepEqual(JSON.parse(JSON.stringify(decoded)), position);
+  }
+});
+
+test("tampered and garbage tokens are rejected with a hint", () => {
+  const tampered = [
+    token({ offset: -1 }),
+    token({ offset: 1.5 }),
+    token({ offset: "20" }),
+    token({ cursor: 7 }),
+    token({ cursor: "abc", skip: -2 }),
+    token(null),
+    token(42),
+  ];
+  const garbage = ["", "not a cursor", "!!!", Buffer.from("{offset:").toString("base64url")];
+  for (const input of [...tampered, ...garbage]) {
+    assert.throws(() => decodeCursor(input), /Invalid cursor\. Pass the next_cursor value/, input);
+  }
+});
+
+/** Offset-paged upstream over `total` numbered items that may return `extra` more than asked */
+function offsetUpstream(total, extra = 0) {
+  const calls = [];
+  const fetchPage = async (position, limit) => {
+    calls.push({ ...position, limit });
+    const offset = position.offset ?? 0;
+    const items = Array.from({ length: Math.max(0, Math.min(limit + extra, total - offset)) }, (_, i) => offset + i);
+    const nextOffset = offset + items.length;
+    return { items, next: nextOffset < total ? { offset: nextOffset } : undefined };
+  };
+  return { calls, fetchPage };
+}
+
+test("pages are fetched until max_results items are collected", async () => {
+  const { calls, fetchPage } = offsetUpstream(500);
+  const { items, next } = await collectPages({ offset: 0 }, 250, 100, fetchPage);
+  assert.equal(items.length, 250);
+  assert.deepEqual(next, { offset: 250 });
+  assert.deepEqual(calls.map((c) => c.limit), [100, 100, 50]);
+});
+
+test("paging stops at the last upstream page", async () => {
+  const { fetchPage } = offsetUpstream(30);
+  const { items, next } = await collectPages({}, 100, 100, fetchPage);
+  assert.equal(items.length, 30);
+  assert.equal(next, undefined);
+});
+
+test("a page larger than requested is cut to max_results and resumed after the last item", async () => {
+  const { fetchPage } = offsetUpstream(500, 20);
+  const { items, next } = await collectPages({ offset: 10 }, 150, 100, fetchPage);
+  assert.equal(items.length, 150);
+  assert.equal(items.at(-1), 159);
+  assert.deepEqual(next, { offset: 160 });
+});
+
+test("an oversized cursor page resumes at the same cursor, skipping the returned items", async () => {
+  const pages = { first: ["a", "b", "c", "d", "e"], second: ["f", "g"] };
+  const fetchPage = async (position) => {
+    const cursor = position.cursor ?? "first";
+    return { items: pages[cursor], next: cursor === "first" ? { cursor: "second" } : undefined };
+  };
+
+  const head = await collectPages({ cursor: "first" }, 3, 100, fetchPage);
+  assert.deepEqual(head.items, ["a", "b", "c"]);
+  assert.deepEqual(head.next, { cursor: "first", skip: 3 });
+
+  const rest = await collectPages(decodeCursor(encodeCursor(head.next)), 10, 100, fetchPage);
+  assert.deepEqual(rest.items, ["d", "e", "f", "g"]);
+  assert.equal(rest.next, undefined);
+});
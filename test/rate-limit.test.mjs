@@ -0,0 +1,96 @@
+/**
+ * Per-client rate limits: the in-memory store and the tier budgets of the
+ * middleware. Run after `tsc` (npm test builds first).
+ */
+import { test, mock, before, after } from "node:test";
+import assert from "node:assert/strict";
+import express from "express";
+
+process.env.LOG_LEVEL = "error";
+
+const { MemoryRateLimitStore, rateLimitByClient } = await import("../dist/rate-limit.js");
+
+const MINUTE = 60 * 1000;
+
+// Mid-window, so no test crosses a minute boundary
+before(() => mock.timers.enable({ apis: ["Date"], now: 10 * MINUTE + 1000 }));
+after(() => mock.timers.reset());
+
+test("the memory store counts per key in epoch-aligned windows", async () => {
+  const store = new MemoryRateLimitStore();
+  const now = 10 * MINUTE + 1000;
+  assert.deepEqual(await store.increment("a", MINUTE, now), { count: 1, resetAt: 11 * MINUTE });
+  assert.deepEqual(await store.increment("a", MINUTE, now + 500, 3), { count: 4, resetAt: 11 * MINUTE });
+  assert.deepEqual(await store.increment("a", MINUTE, now, -3), { count: 1, resetAt: 11 * MINUTE });
+  assert.deepEqual(await store.increment("b", MINUTE, now), { count: 1, resetAt: 11 * MINUTE });
+  assert.deepEqual(await store.increment("a", MINUTE, 11 * MINUTE), { count: 1, resetAt: 12 * MINUTE });
+});
+
+test("the memory store drops ended windows beyond its key bound", async () => {
+  const store = new MemoryRateLimitStore(2);
+  await store.increment("old", MINUTE, 0);
+  await store.increment("a", MINUTE, 10 * MINUTE);
+  await store.increment("b", MINUTE, 10 * MINUTE);
+  assert.equal(store.counters.size, 2);
+  assert.equal([...store.counters.keys()].some((key) => key.startsWith("old:")), false);
+});
+
+/** Send JSON-RPC bodies through the limiter as a caller on the given tier */
+async function withLimiter(tier, run) {
+  const app = express();
+  app.use(express.json());
+  app.use((req, res, next) => {
+    req.auth = { token: "t", clientId: `cus_${tier}`, scopes: [tier] };
+    next();
+  });
+  app.use(rateLimitByClient(new MemoryRateLimitStore()));
+  app.post("/mcp", (req, res) => res.json({ ok: true }));
+  const listener = app.listen(0, "127.0.0.1");
+  await new Promise((resolve) => listener.once("listening", resolve));
+  const url = `http://127.0.0.1:${String(listener.address().port)}/mcp`;
+  const send = async (body) => {
+    const response = await fetch(url, { method: "POST", headers: { "Content-Type": "application/json" }, body: JSON.stringify(body) });
+    return { status: response.status, body: await response.json() };
+  };
+  try {
+    await run(send);
+  } finally {
+    listener.closeAllConnections();
+    listener.close();
+  }
+}
+
+/** A tools/call message */
+function call(name, id = 1) {
+  return { jsonrpc: "2.0", id, method: "tools/call", params: { name, arguments: {} } };
+}
+
+test("expensive tool calls are capped per tier", async () => {
+  for (const [tier, max] of [["free", 5], ["pro", 30]]) {
+    await withLimiter(tier, async (send) => {
+      for (let i = 0; i < max; i++) assert.equal((await send(call("compare_companies"))).status, 200);
+      const rejected = await send(call("compare_companies", 7));
+      assert.equal(rejected.status, 429);
+      assert.equal(rejected.body.id, 7);
+      assert.deepEqual(
+        { scope: rejected.body.error.data.scope, limit: rejected.body.error.data.limit, tier: rejected.body.error.data.tier },
+        { scope: "expensive_tool_calls", limit: max, tier }
+      );
+    });
+  }
+});
+
+test("a rejected request uses up none of the other budgets", async () => {
+  await withLimiter("free", async (send) => {
+    // Six expensive calls in one batch exceed the free limit of five
+    const batch = Array.from({ length: 6 }, (_, i) => call("get_compliance_data", i + 1));
+    assert.equal((await send(batch)).status, 429);
+
+    // The expensive budget is untouched, and so is the tool call budget of 30
+    for (let i = 0; i < 5; i++) assert.equal((await send(call("get_compliance_data"))).status, 200);
+    for (let i = 0; i < 25; i++) assert.equal((await send(call("lookup_company"))).status, 200);
+    const rejected = await send(call("lookup_company"));
+    assert.equal(rejected.status, 429);
+    assert.equal(rejected.body.error.data.scope, "tool_calls");
+  });
+});
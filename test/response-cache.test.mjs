@@ -0,0 +1,114 @@
+/**
+ * Response cache and request sharing of the API client, against a local
+ * stub of BolagsAPI. Run after `tsc` (npm test builds first).
+ */
+import { test, mock, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+
+const HOUR = 60 * 60 * 1000;
+
+/** Requests seen by the stub, and the handler answering them */
+const requests = [];
+let respond = () => ({ status: 200, body: {} });
+
+const server = createServer(async (req, res) => {
+  requests.push({ url: req.url, headers: req.headers });
+  const { status, headers, body } = await respond(req);
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(body === undefined ? "" : JSON.stringify(body));
+});
+await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+process.env.BOLAGSAPI_URL = `http://127.0.0.1:${String(server.address().port)}/v1`;
+process.env.BOLAGSAPI_KEY = `sk_test_${"k".repeat(32)}`;
+process.env.LOG_LEVEL = "error";
+
+const { getCompany } = await import("../dist/api-client.js");
+
+/** Requests the stub has seen for a path */
+function hits(path) {
+  return requests.filter((r) => r.url.startsWith(`/v1${path}`));
+}
+
+test("fresh responses are served from the cache until the TTL expires", async () => {
+  mock.timers.enable({ apis: ["Date"] });
+  try {
+    respond = () => ({ status: 200, body: { orgnr: "5560000001", name: "First" } });
+    await getCompany("5560000001");
+    const cached = await getCompany("5560000001");
+    assert.equal(cached.name, "First");
+    assert.equal(hits("/company/5560000001").length, 1);
+
+    respond = () => ({ status: 200, body: { orgnr: "5560000001", name: "Second" } });
+    mock.timers.tick(HOUR + 1);
+    const refreshed = await getCompany("5560000001");
+    assert.equal(refreshed.name, "Second");
+    assert.equal(hits("/company/5560000001").length, 2);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test("an expired entry with an ETag is revalidated and kept on 304", async () => {
+  mock.timers.enable({ apis: ["Date"] });
+  try {
+    respond = () => ({ status: 200, headers: { ETag: '"v1"' }, body: { orgnr: "5560000002", name: "Tagged" } });
+    await getCompany("5560000002");
+
+    respond = (req) => {
+      assert.equal(req.headers["if-none-match"], '"v1"');
+      return { status: 304 };
+    };
+    mock.timers.tick(HOUR + 1);
+    const revalidated = await getCompany("5560000002");
+    assert.equal(revalidated.name, "Tagged");
+
+    // The 304 renewed the entry for another TTL
+    await getCompany("5560000002");
+    assert.equal(hits("/company/5560000002").length, 2);
+  } finally {
+    mock.timers.reset();
+  }
+});
+
+test("responses are cached per API key", async () => {
+  respond = (req) => ({ status: 200, body: { orgnr: "5560000003", name: req.headers.authorization } });
+  const keyA = `sk_test_${"a".repeat(32)}`;
+  const keyB = `sk_test_${"b".repeat(32)}`;
+
+  const first = await getCompany("5560000003", {}, { apiKey: keyA });
+  const second = await getCompany("5560000003", {}, { apiKey: keyB });
+  const again = await getCompany("5560000003", {}, { apiKey: keyA });
+
+  assert.equal(first.name, `Bearer ${keyA}`);
+  assert.equal(second.name, `Bearer ${keyB}`);
+  assert.equal(again.name, `Bearer ${keyA}`);
+  assert.equal(hits("/company/5560000003").length, 2);
+});
+
+test("concurrent callers share one upstream call that survives one of them cancelling", async () => {
+  let release;
+  const released = new Promise((resolve) => { release = resolve; });
+  respond = async () => {
+    await released;
+    return { status: 200, body: { orgnr: "5560000004", name: "Shared" } };
+  };
+
+  const cancelled = new AbortController();
+  const leaving = getCompany("5560000004", {}, { signal: cancelled.signal });
+  const staying = getCompany("5560000004", {}, { signal: new AbortController().signal });
+  await new Promise((resolve) => setImmediate(resolve));
+
+  cancelled.abort(new Error("cancelled by client"));
+  await assert.rejects(leaving, /cancelled by client/);
+
+  release();
+  const result = await staying;
+  assert.equal(result.name, "Shared");
+  assert.equal(hits("/company/5560000004").length, 1);
+});
@@ -0,0 +1,71 @@
+/**
+ * Response formats and max_tokens budgets.
+ * Run after `tsc` (npm test builds first).
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { renderOutput, estimateTokens, compactText, truncatedJson } from "../dist/response-format.js";
+
+/** A list view of `count` numbered rows of about 40 characters each, counting renders */
+function listView(count) {
+  const rows = Array.from({ length: count }, (_, i) => ({ row: i, text: `Row ${String(i).padStart(3, "0")} ${"x".repeat(28)}` }));
+  const view = {
+    items: count,
+    renders: 0,
+    markdown: (shown) => {
+      view.renders++;
+      const lines = ["# Rows", "", ...rows.slice(0, shown).map((r) => `- **${r.text}**`)];
+      if (shown < count) lines.push("", `*${String(count - shown)} more omitted to fit max_tokens.*`);
+      return lines.join("\n");
+    },
+    json: (shown) => truncatedJson({ total: count, rows }, "rows", rows.slice(0, shown), count - shown),
+  };
+  return view;
+}
+
+test("without a budget, or within it, every item is shown", () => {
+  const full = listView(50).markdown(50);
+  assert.equal(renderOutput({ response_format: "markdown" }, listView(50)), full);
+  assert.equal(renderOutput({ response_format: "markdown", max_tokens: estimateTokens(full) }, listView(50)), full);
+});
+
+test("the largest number of items that fits the budget is shown", () => {
+  const view = listView(200);
+  const budget = 300;
+  const text = renderOutput({ response_format: "markdown", max_tokens: budget }, view);
+  assert.ok(estimateTokens(text) <= budget);
+
+  const shown = text.split("\n").filter((line) => line.startsWith("- ")).length;
+  assert.ok(shown > 0);
+  assert.ok(estimateTokens(listView(200).markdown(shown + 1)) > budget, "one more item would not fit");
+  assert.match(text, new RegExp(`\\*${String(200 - shown)} more omitted`));
+
+  // A binary search: the full rendering plus about log2(200) candidates
+  assert.ok(view.renders <= 10, `rendered ${String(view.renders)} times`);
+});
+
+test("compact output is budgeted on the compact text", () => {
+  const text = renderOutput({ response_format: "compact", max_tokens: 150 }, listView(100));
+  assert.ok(estimateTokens(text) <= 150);
+  assert.doesNotMatch(text, /\*\*|^#/m);
+  assert.equal(compactText("# Title\n\n| a | b |\n| --- | --- |\n| 1 | 2 |\n*note*"), "Title\na | b\n1 | 2\nnote");
+});
+
+test("markdown that does not fit even without items is cut with a marker", () => {
+  const view = { items: 0, markdown: () => "y".repeat(2000), json: () => ({}) };
+  const text = renderOutput({ response_format: "markdown", max_tokens: 100 }, view);
+  assert.equal(text.length, 400);
+  assert.ok(text.endsWith("\n…"));
+});
+
+test("JSON is shortened item by item but never cut", () => {
+  const text = renderOutput({ response_format: "json", max_tokens: 200 }, listView(100));
+  const data = JSON.parse(text);
+  assert.ok(estimateTokens(text) <= 200);
+  assert.equal(data.total, 100);
+  assert.deepEqual(data.truncated, { field: "rows", omitted: 100 - data.rows.length });
+
+  const tooBig = { items: 0, markdown: () => "", json: () => ({ blob: "z".repeat(2000) }) };
+  const whole = renderOutput({ response_format: "json", max_tokens: 100 }, tooBig);
+  assert.deepEqual(JSON.parse(whole), { blob: "z".repeat(2000) });
+});
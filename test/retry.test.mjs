@@ -0,0 +1,70 @@
+/**
+ * Retry and Retry-After handling of the API client, against a local stub
+ * of BolagsAPI. Run after `tsc` (npm test builds first).
+ */
+import { test, mock, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+
+/** Requests seen by the stub, and the responses it gives in turn */
+const requests = [];
+let responses = [];
+
+const server = createServer((req, res) => {
+  requests.push(req.url);
+  const { status, headers, body } = responses.shift() ?? { status: 200, body: {} };
+  res.writeHead(status, { "Content-Type": "application/json", ...headers });
+  res.end(JSON.stringify(body ?? { error: "stub_error", message: `Stub status ${String(status)}` }));
+});
+await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+process.env.BOLAGSAPI_URL = `http://127.0.0.1:${String(server.address().port)}/v1`;
+process.env.BOLAGSAPI_KEY = `sk_test_${"k".repeat(32)}`;
+process.env.LOG_LEVEL = "error";
+
+const { getCompany } = await import("../dist/api-client.js");
+
+// No backoff jitter: retries without an upstream delay happen at once
+mock.method(Math, "random", () => 0);
+
+/** Requests the stub has seen for an orgnr */
+function hits(orgnr) {
+  return requests.filter((url) => url.startsWith(`/v1/company/${orgnr}`)).length;
+}
+
+test("transient server errors are retried until upstream recovers", async () => {
+  responses = [{ status: 503 }, { status: 502 }, { status: 200, body: { orgnr: "5560000011" } }];
+  const company = await getCompany("5560000011");
+  assert.equal(company.orgnr, "5560000011");
+  assert.equal(hits("5560000011"), 3);
+});
+
+test("a persistent server error fails after the configured retries", async () => {
+  responses = Array.from({ length: 4 }, () => ({ status: 500 }));
+  await assert.rejects(getCompany("5560000012"), { name: "ApiError", statusCode: 500 });
+  assert.equal(hits("5560000012"), 4);
+});
+
+test("client errors are not retried", async () => {
+  responses = [{ status: 404, body: { error: "not_found", message: "No such company" } }];
+  await assert.rejects(getCompany("5560000013"), { statusCode: 404, errorCode: "not_found" });
+  assert.equal(hits("5560000013"), 1);
+});
+
+test("a 429 is retried after the Retry-After delay", async () => {
+  responses = [{ status: 429, headers: { "Retry-After": "1" } }, { status: 200, body: { orgnr: "5560000014" } }];
+  const started = Date.now();
+  await getCompany("5560000014");
+  assert.ok(Date.now() - started >= 950, "waited for Retry-After");
+  assert.equal(hits("5560000014"), 2);
+});
+
+test("a Retry-After beyond the retry budget is returned at once", async () => {
+  responses = [{ status: 429, headers: { "Retry-After": "60" } }];
+  await assert.rejects(getCompany("5560000015"), { statusCode: 429 });
+  assert.equal(hits("5560000015"), 1);
+});
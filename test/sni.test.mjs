@@ -0,0 +1,56 @@
+/**
+ * SNI 2007 catalogue search, browsing and uncatalogued-code notes.
+ * Run after `tsc` (npm test builds first).
+ */
+import { test } from "node:test";
+import assert from "node:assert/strict";
+import { searchSni, sniChildren, sniPath, sniEntry, matchSniCodes, SNI_SECTIONS } from "../dist/sni-catalogue.js";
+import { sniCodeNotes } from "../dist/tools/sni.js";
+
+/** Codes of catalogue entries */
+function codes(entries) {
+  return entries.map((entry) => entry.code);
+}
+
+test("a search ranks the best matching, most detailed code first in either language", () => {
+  assert.deepEqual(codes(searchSni("restauranger")).slice(0, 2), ["56100", "56"]);
+  assert.deepEqual(codes(searchSni("Restaurants")).slice(0, 2), ["56100", "56"]);
+  assert.equal(searchSni("dataprogrammering")[0].code, "62010");
+});
+
+test("a code named like a matching child is left out in favour of the child", () => {
+  const found = codes(searchSni("restaurangverksamhet"));
+  assert.ok(found.includes("56100"));
+  assert.ok(!found.includes("561") && !found.includes("5610"), found.join(","));
+});
+
+test("a search by digits matches codes by prefix, and words too short match nothing", () => {
+  assert.deepEqual(codes(searchSni("6201")), ["6201", "62010"]);
+  assert.deepEqual(searchSni("ab"), []);
+});
+
+test("browsing walks from sections down to detailed codes", () => {
+  assert.equal(sniChildren(), SNI_SECTIONS);
+  assert.deepEqual(codes(sniChildren("I")), ["55", "56"]);
+  assert.deepEqual(codes(sniChildren("i")), ["55", "56"]);
+  assert.deepEqual(codes(sniChildren("56")), ["561", "562", "563"]);
+  assert.deepEqual(codes(sniChildren("56100")), []);
+  assert.deepEqual(codes(sniChildren("99999")), []);
+  assert.deepEqual(codes(sniPath(sniEntry("56100"))), ["I", "56", "561", "5610", "56100"]);
+});
+
+test("completion of digits goes one level below what has been typed", () => {
+  assert.deepEqual(codes(matchSniCodes("56")), ["56", "561", "562", "563"]);
+  assert.ok(matchSniCodes("").every((entry) => entry.code.length === 2));
+  assert.equal(matchSniCodes("restauranger")[0].code, "56100");
+});
+
+test("only codes missing from the catalogue get a note", () => {
+  assert.deepEqual(sniCodeNotes(undefined, "en"), []);
+  assert.deepEqual(sniCodeNotes("56100", "en"), []);
+  assert.deepEqual(sniCodeNotes("99999", "en"), [{
+    type: "text",
+    text: "Note: SNI code 99999 is not in the bundled SNI 2007 catalogue. If the result looks wrong, check the code with find_sni_code.",
+  }]);
+  assert.match(sniCodeNotes("99999", "sv")[0].text, /^Obs: SNI-koden 99999 finns inte/);
+});
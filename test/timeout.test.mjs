@@ -0,0 +1,46 @@
+/**
+ * Upstream timeouts and numeric settings, against a local stub of
+ * BolagsAPI that never answers. Run after `tsc` (npm test builds first).
+ */
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import { createServer } from "node:http";
+
+// Requests are held open until the test ends
+const server = createServer(() => {});
+await new Promise((resolve) => server.listen(0, "127.0.0.1", resolve));
+after(() => {
+  server.closeAllConnections();
+  server.close();
+});
+
+process.env.BOLAGSAPI_URL = `http://127.0.0.1:${String(server.address().port)}/v1`;
+process.env.BOLAGSAPI_KEY = `sk_test_${"k".repeat(32)}`;
+process.env.BOLAGSAPI_TIMEOUT_MS = "200";
+process.env.BOLAGSAPI_MAX_RETRIES = "0";
+process.env.LOG_LEVEL = "error";
+
+const { getCompany } = await import("../dist/api-client.js");
+const { envNumber } = await import("../dist/env.js");
+
+test("an attempt that outlives the timeout fails as a 504 upstream_timeout", async () => {
+  const started = Date.now();
+  await assert.rejects(getCompany("5560000021"), {
+    name: "ApiError",
+    statusCode: 504,
+    errorCode: "upstream_timeout",
+  });
+  assert.ok(Date.now() - started < 2000, "failed at the timeout, not later");
+});
+
+test("numeric settings fall back to the default when invalid", () => {
+  process.env.TEST_SETTING = "5s";
+  assert.equal(envNumber("TEST_SETTING", 10000, 1), 10000);
+  process.env.TEST_SETTING = "0";
+  assert.equal(envNumber("TEST_SETTING", 10000, 1), 10000);
+  assert.equal(envNumber("TEST_SETTING", 50), 0);
+  process.env.TEST_SETTING = "2500";
+  assert.equal(envNumber("TEST_SETTING", 10000, 1), 2500);
+  delete process.env.TEST_SETTING;
+  assert.equal(envNumber("TEST_SETTING", 10000, 1), 10000);
+});
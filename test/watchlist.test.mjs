@@ -0,0 +1,56 @@
+/**
+ * Watchlist ownership over MCP, for callers authenticated as different keys.
+ * Run after `tsc` (npm test builds first).
+ */
+import { test, after } from "node:test";
+import assert from "node:assert/strict";
+import { mkdtemp, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+
+const dir = await mkdtemp(join(tmpdir(), "bolagsapi-watchlist-"));
+process.env.BOLAGSAPI_WATCHLIST = join(dir, "watchlist.json");
+process.env.LOG_LEVEL = "error";
+
+const { McpServer } = await import("@modelcontextprotocol/sdk/server/mcp.js");
+const { Client } = await import("@modelcontextprotocol/sdk/client/index.js");
+const { InMemoryTransport } = await import("@modelcontextprotocol/sdk/inMemory.js");
+const { registerWatchlistTools } = await import("../dist/tools/watchlist.js");
+
+after(() => rm(dir, { recursive: true, force: true }));
+
+/** Connect a client whose requests carry the given auth info, as the HTTP transport would */
+async function connectAs(authInfo) {
+  const server = new McpServer({ name: "test", version: "0.0.0" });
+  registerWatchlistTools(server);
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  const send = clientTransport.send.bind(clientTransport);
+  clientTransport.send = (message, options) => send(message, { ...options, authInfo });
+  const client = new Client({ name: "test", version: "0.0.0" });
+  await server.connect(serverTransport);
+  await client.connect(clientTransport);
+  return client;
+}
+
+/** Auth info for a verified key that BolagsAPI returned no customer ID for */
+function unknownCustomer(token) {
+  return { token, clientId: "unknown", scopes: ["pro"] };
+}
+
+test("keys without a customer ID do not share a watchlist", async () => {
+  const first = await connectAs(unknownCustomer(`sk_test_${"a".repeat(32)}`));
+  const second = await connectAs(unknownCustomer(`sk_test_${"b".repeat(32)}`));
+  try {
+    const added = await first.callTool({ name: "add_to_watchlist", arguments: { orgnrs: ["556677-8899"] } });
+    assert.deepEqual(added.structuredContent, { changed: ["556677-8899"], unchanged: [], watched: 1 });
+
+    const removed = await second.callTool({ name: "remove_from_watchlist", arguments: { orgnrs: ["556677-8899"] } });
+    assert.deepEqual(removed.structuredContent, { changed: [], unchanged: ["556677-8899"], watched: 0 });
+
+    const readded = await first.callTool({ name: "add_to_watchlist", arguments: { orgnrs: ["556677-8899"] } });
+    assert.deepEqual(readded.structuredContent, { changed: [], unchanged: ["556677-8899"], watched: 1 });
+  } finally {
+    await first.close();
+    await second.close();
+  }
+});